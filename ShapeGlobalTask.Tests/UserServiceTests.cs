@@ -371,5 +371,126 @@ public class UserServiceTests
         result.Should().BeFalse();
     }
 
+    [Fact]
+    public async Task DeleteUserAsync_WhenUserExists_PurgesAIServiceData()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var mockAIService = new Mock<IAIService>();
+        var service = new UserService(_mockRepository.Object, _mockLogger.Object, mockAIService.Object);
+
+        _mockRepository.Setup(r => r.DeleteAsync(userId))
+            .ReturnsAsync(true);
+        mockAIService.Setup(a => a.PurgeUserDataAsync(userId, "corr-1", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new UserDataPurgeResult { UserId = userId.ToString(), DeletedPoints = 3 });
+
+        // Act
+        var result = await service.DeleteUserAsync(userId, "corr-1");
+
+        // Assert
+        result.Should().BeTrue();
+        mockAIService.Verify(
+            a => a.PurgeUserDataAsync(userId, "corr-1", It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task DeleteUserAsync_WhenAIServicePurgeFails_StillDeletesUser()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var mockAIService = new Mock<IAIService>();
+        var service = new UserService(_mockRepository.Object, _mockLogger.Object, mockAIService.Object);
+
+        _mockRepository.Setup(r => r.DeleteAsync(userId))
+            .ReturnsAsync(true);
+        mockAIService.Setup(a => a.PurgeUserDataAsync(userId, null, It.IsAny<CancellationToken>()))
+            .ReturnsAsync((UserDataPurgeResult?)null);
+
+        // Act
+        var result = await service.DeleteUserAsync(userId);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    [Fact]
+    public async Task DeleteUserAsync_WhenUserNotFound_DoesNotPurgeAIServiceData()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var mockAIService = new Mock<IAIService>();
+        var service = new UserService(_mockRepository.Object, _mockLogger.Object, mockAIService.Object);
+
+        _mockRepository.Setup(r => r.DeleteAsync(userId))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await service.DeleteUserAsync(userId);
+
+        // Assert
+        result.Should().BeFalse();
+        mockAIService.Verify(
+            a => a.PurgeUserDataAsync(It.IsAny<Guid>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    #endregion
+
+    #region GetUserTrendsAsync Tests
+
+    [Fact]
+    public async Task GetUserTrendsAsync_WhenUserNotFound_ReturnsError()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        _mockRepository.Setup(r => r.GetByIdAsync(userId))
+            .ReturnsAsync((User?)null);
+
+        // Act
+        var result = await _userService.GetUserTrendsAsync(userId);
+
+        // Assert
+        result.Success.Should().BeFalse();
+        result.ErrorCode.Should().Be("NOT_FOUND");
+    }
+
+    [Fact]
+    public async Task GetUserTrendsAsync_WithoutAIService_ReturnsUnavailable()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        _mockRepository.Setup(r => r.GetByIdAsync(userId))
+            .ReturnsAsync(new User { Id = userId, FirstName = "John", LastName = "Doe", Email = "john@example.com" });
+
+        // Act
+        var result = await _userService.GetUserTrendsAsync(userId);
+
+        // Assert
+        result.Success.Should().BeFalse();
+        result.ErrorCode.Should().Be("AI_UNAVAILABLE");
+    }
+
+    [Fact]
+    public async Task GetUserTrendsAsync_ReturnsTrendsFromAIService()
+    {
+        // Arrange
+        var userId = Guid.NewGuid();
+        var mockAIService = new Mock<IAIService>();
+        var service = new UserService(_mockRepository.Object, _mockLogger.Object, mockAIService.Object);
+
+        _mockRepository.Setup(r => r.GetByIdAsync(userId))
+            .ReturnsAsync(new User { Id = userId, FirstName = "John", LastName = "Doe", Email = "john@example.com" });
+        mockAIService.Setup(a => a.GetUserTrendsAsync(userId, "month", null, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new UserTrendsResult { UserId = userId.ToString(), Interval = "month", AtRisk = true });
+
+        // Act
+        var result = await service.GetUserTrendsAsync(userId, "month");
+
+        // Assert
+        result.Success.Should().BeTrue();
+        result.Data!.AtRisk.Should().BeTrue();
+    }
+
     #endregion
 }
@@ -129,7 +129,7 @@ public class UsersController : ControllerBase
             "DELETE /api/users/{UserId} - CorrelationId: {CorrelationId}",
             id, correlationId);
 
-        var deleted = await _userService.DeleteUserAsync(id);
+        var deleted = await _userService.DeleteUserAsync(id, correlationId);
 
         if (!deleted)
         {
@@ -142,4 +142,38 @@ public class UsersController : ControllerBase
 
         return NoContent();
     }
+
+    [HttpGet("{id:guid}/trends")]
+    [ProducesResponseType(typeof(UserTrendsResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status503ServiceUnavailable)]
+    public async Task<ActionResult<UserTrendsResult>> GetUserTrends(
+        Guid id,
+        [FromQuery] string interval = "week")
+    {
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        _logger.LogInformation(
+            "GET /api/users/{UserId}/trends - Interval: {Interval}, CorrelationId: {CorrelationId}",
+            id, interval, correlationId);
+
+        if (interval is not ("day" or "week" or "month"))
+        {
+            return BadRequest(new { message = "Interval must be one of: day, week, month." });
+        }
+
+        var result = await _userService.GetUserTrendsAsync(id, interval, correlationId);
+
+        if (!result.Success)
+        {
+            return result.ErrorCode switch
+            {
+                "NOT_FOUND" => NotFound(new { message = $"User with ID '{id}' not found." }),
+                _ => StatusCode(StatusCodes.Status503ServiceUnavailable, new { message = result.ErrorMessage })
+            };
+        }
+
+        return Ok(result.Data);
+    }
 }
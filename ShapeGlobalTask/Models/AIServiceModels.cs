@@ -5,9 +5,13 @@ namespace ShapeGlobalTask.Models;
 /// </summary>
 public class SentimentResult
 {
-    public string Sentiment { get; set; } = string.Empty;
     public double Score { get; set; }
+    public string Label { get; set; } = string.Empty;
     public double Confidence { get; set; }
+    public string? DetectedLanguage { get; set; }
+    public string Model { get; set; } = string.Empty;
+    public string? PromptVersion { get; set; }
+    public bool IsFallback { get; set; }
 }
 
 /// <summary>
@@ -16,6 +20,12 @@ public class SentimentResult
 public class TagsResult
 {
     public List<string> Tags { get; set; } = new();
+    public string PrimaryTheme { get; set; } = string.Empty;
+    public List<string> CandidateTags { get; set; } = new();
+    public string? DetectedLanguage { get; set; }
+    public string Model { get; set; } = string.Empty;
+    public string? PromptVersion { get; set; }
+    public bool IsFallback { get; set; }
 }
 
 /// <summary>
@@ -23,12 +33,90 @@ public class TagsResult
 /// </summary>
 public class InsightsResult
 {
-    public string Sentiment { get; set; } = string.Empty;
     public double SentimentScore { get; set; }
-    public double Confidence { get; set; }
+    public string SentimentLabel { get; set; } = string.Empty;
     public List<string> Tags { get; set; } = new();
+    public List<string> CandidateTags { get; set; } = new();
     public string EngagementLevel { get; set; } = string.Empty;
     public string Summary { get; set; } = string.Empty;
+    public List<string> ActionItems { get; set; } = new();
+    public DateTime AnalyzedAt { get; set; }
+    public string? FeedbackId { get; set; }
+    public string? DetectedLanguage { get; set; }
+    public string Model { get; set; } = string.Empty;
+    public string? PromptVersion { get; set; }
+    public bool IsFallback { get; set; }
+    public SpamAssessment Spam { get; set; } = new();
+    public string? DuplicateOf { get; set; }
+}
+
+/// <summary>
+/// Spam verdict attached to AI service insights
+/// </summary>
+public class SpamAssessment
+{
+    public bool IsSpam { get; set; }
+    public double Score { get; set; }
+    public List<string> Reasons { get; set; } = new();
+}
+
+/// <summary>
+/// Response from AI service user data erasure
+/// </summary>
+public class UserDataPurgeResult
+{
+    public string UserId { get; set; } = string.Empty;
+    public int DeletedPoints { get; set; }
+    public int DeletedJobs { get; set; }
+    public DateTime PurgedAt { get; set; }
+}
+
+/// <summary>
+/// Response from AI service user trend analytics
+/// </summary>
+public class UserTrendsResult
+{
+    public string UserId { get; set; } = string.Empty;
+    public string Interval { get; set; } = string.Empty;
+    public int TotalFeedback { get; set; }
+    public double? AverageSentimentScore { get; set; }
+    public List<TrendBucket> Buckets { get; set; } = new();
+    public List<SentimentDrop> SentimentDrops { get; set; } = new();
+    public bool AtRisk { get; set; }
+    public bool Truncated { get; set; }
+}
+
+/// <summary>
+/// Aggregated feedback for one time bucket
+/// </summary>
+public class TrendBucket
+{
+    public string Start { get; set; } = string.Empty;
+    public int Count { get; set; }
+    public double? AverageSentimentScore { get; set; }
+    public Dictionary<string, int> EngagementDistribution { get; set; } = new();
+    public List<TagCount> TopTags { get; set; } = new();
+}
+
+/// <summary>
+/// Occurrences of a tag within a time bucket
+/// </summary>
+public class TagCount
+{
+    public string Tag { get; set; } = string.Empty;
+    public int Count { get; set; }
+}
+
+/// <summary>
+/// Significant decrease in average sentiment between two buckets
+/// </summary>
+public class SentimentDrop
+{
+    public string From { get; set; } = string.Empty;
+    public string To { get; set; } = string.Empty;
+    public double PreviousScore { get; set; }
+    public double CurrentScore { get; set; }
+    public double Change { get; set; }
 }
 
 /// <summary>
@@ -13,11 +13,13 @@ public class AIService : IAIService
     private readonly HttpClient _httpClient;
     private readonly ILogger<AIService> _logger;
     private readonly JsonSerializerOptions _jsonOptions;
+    private readonly string? _apiKey;
 
-    public AIService(HttpClient httpClient, ILogger<AIService> logger)
+    public AIService(HttpClient httpClient, ILogger<AIService> logger, IConfiguration configuration)
     {
         _httpClient = httpClient;
         _logger = logger;
+        _apiKey = configuration["AIService:ApiKey"];
         _jsonOptions = new JsonSerializerOptions
         {
             PropertyNameCaseInsensitive = true,
@@ -104,11 +106,14 @@ public class AIService : IAIService
     public async Task<InsightsResult?> GenerateInsightsAsync(
         string text, 
         string? correlationId = null, 
-        CancellationToken cancellationToken = default)
+        CancellationToken cancellationToken = default,
+        Guid? userId = null)
     {
         try
         {
-            var request = CreateRequest("/api/ai/insights", text, correlationId);
+            var request = userId.HasValue
+                ? CreateRequest("/api/ai/insights", new { text, userId = userId.Value.ToString() }, correlationId)
+                : CreateRequest("/api/ai/insights", text, correlationId);
             var response = await _httpClient.SendAsync(request, cancellationToken);
 
             if (!response.IsSuccessStatusCode)
@@ -139,6 +144,89 @@ public class AIService : IAIService
         }
     }
 
+    public async Task<UserTrendsResult?> GetUserTrendsAsync(
+        Guid userId,
+        string interval = "week",
+        string? correlationId = null,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var request = new HttpRequestMessage(
+                HttpMethod.Get,
+                $"/api/ai/users/{userId}/trends?interval={Uri.EscapeDataString(interval)}");
+            AddHeaders(request, correlationId);
+
+            var response = await _httpClient.SendAsync(request, cancellationToken);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                _logger.LogWarning(
+                    "AI user trends request failed with status {StatusCode}",
+                    response.StatusCode);
+                return null;
+            }
+
+            var result = await response.Content.ReadFromJsonAsync<AIServiceResponse<UserTrendsResult>>(
+                _jsonOptions, cancellationToken);
+
+            if (result?.Success != true)
+            {
+                _logger.LogWarning(
+                    "AI user trends request returned error: {Error}",
+                    result?.Error?.Message);
+                return null;
+            }
+
+            return result.Data;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error calling AI user trends endpoint");
+            return null;
+        }
+    }
+
+    public async Task<UserDataPurgeResult?> PurgeUserDataAsync(
+        Guid userId,
+        string? correlationId = null,
+        CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            var request = new HttpRequestMessage(HttpMethod.Delete, $"/api/ai/users/{userId}/data");
+            AddHeaders(request, correlationId);
+
+            var response = await _httpClient.SendAsync(request, cancellationToken);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                _logger.LogWarning(
+                    "AI user data purge failed with status {StatusCode}",
+                    response.StatusCode);
+                return null;
+            }
+
+            var result = await response.Content.ReadFromJsonAsync<AIServiceResponse<UserDataPurgeResult>>(
+                _jsonOptions, cancellationToken);
+
+            if (result?.Success != true)
+            {
+                _logger.LogWarning(
+                    "AI user data purge returned error: {Error}",
+                    result?.Error?.Message);
+                return null;
+            }
+
+            return result.Data;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error calling AI user data purge endpoint");
+            return null;
+        }
+    }
+
     public async Task<bool> IsHealthyAsync(CancellationToken cancellationToken = default)
     {
         try
@@ -154,20 +242,32 @@ public class AIService : IAIService
     }
 
     private HttpRequestMessage CreateRequest(string endpoint, string text, string? correlationId)
+        => CreateRequest(endpoint, new { text }, correlationId);
+
+    private HttpRequestMessage CreateRequest(string endpoint, object payload, string? correlationId)
     {
         var request = new HttpRequestMessage(HttpMethod.Post, endpoint)
         {
             Content = new StringContent(
-                JsonSerializer.Serialize(new { text }, _jsonOptions),
+                JsonSerializer.Serialize(payload, _jsonOptions),
                 Encoding.UTF8,
                 "application/json")
         };
 
+        AddHeaders(request, correlationId);
+        return request;
+    }
+
+    private void AddHeaders(HttpRequestMessage request, string? correlationId)
+    {
+        if (!string.IsNullOrEmpty(_apiKey))
+        {
+            request.Headers.Add("X-API-Key", _apiKey);
+        }
+
         if (!string.IsNullOrEmpty(correlationId))
         {
             request.Headers.Add("X-Correlation-ID", correlationId);
         }
-
-        return request;
     }
 }
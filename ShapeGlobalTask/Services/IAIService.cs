@@ -37,10 +37,38 @@ public interface IAIService
     /// <param name="text">User data text to analyze</param>
     /// <param name="correlationId">Correlation ID for request tracing</param>
     /// <param name="cancellationToken">Cancellation token</param>
+    /// <param name="userId">User the feedback belongs to, stored for trend analytics</param>
     /// <returns>Comprehensive insights</returns>
     Task<InsightsResult?> GenerateInsightsAsync(
         string text, 
         string? correlationId = null, 
+        CancellationToken cancellationToken = default,
+        Guid? userId = null);
+
+    /// <summary>
+    /// Gets sentiment, engagement and tag trends for a user's stored feedback
+    /// </summary>
+    /// <param name="userId">User to aggregate feedback for</param>
+    /// <param name="interval">Bucket size: day, week or month</param>
+    /// <param name="correlationId">Correlation ID for request tracing</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>User trends, or null if the AI service is unavailable</returns>
+    Task<UserTrendsResult?> GetUserTrendsAsync(
+        Guid userId,
+        string interval = "week",
+        string? correlationId = null,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Deletes all feedback the AI service stores for a user
+    /// </summary>
+    /// <param name="userId">User whose stored feedback is erased</param>
+    /// <param name="correlationId">Correlation ID for request tracing</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Purge counts, or null if the AI service is unavailable</returns>
+    Task<UserDataPurgeResult?> PurgeUserDataAsync(
+        Guid userId,
+        string? correlationId = null,
         CancellationToken cancellationToken = default);
 
     /// <summary>
@@ -11,7 +11,12 @@ public interface IUserService
 
     Task<ServiceResult<User>> UpdateUserAsync(Guid id, UpdateUserDto updateDto);
 
-    Task<bool> DeleteUserAsync(Guid id);
+    Task<bool> DeleteUserAsync(Guid id, string? correlationId = null);
+
+    Task<ServiceResult<UserTrendsResult>> GetUserTrendsAsync(
+        Guid id,
+        string interval = "week",
+        string? correlationId = null);
 }
 
 public class ServiceResult<T>
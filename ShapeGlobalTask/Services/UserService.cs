@@ -83,7 +83,8 @@ public class UserService : IUserService
             {
                 var insights = await _aiService.GenerateInsightsAsync(
                     createDto.Notes, 
-                    correlationId);
+                    correlationId,
+                    userId: user.Id);
 
                 if (insights != null)
                 {
@@ -186,21 +187,80 @@ public class UserService : IUserService
         return ServiceResult<User>.Ok(existingUser);
     }
 
-    public async Task<bool> DeleteUserAsync(Guid id)
+    public async Task<bool> DeleteUserAsync(Guid id, string? correlationId = null)
     {
         _logger.LogInformation("Deleting user: {UserId}", id);
 
         var deleted = await _userRepository.DeleteAsync(id);
 
-        if (deleted)
+        if (!deleted)
         {
-            _logger.LogInformation("Successfully deleted user {UserId}", id);
+            _logger.LogWarning("User not found for deletion: {UserId}", id);
+            return false;
         }
-        else
+
+        _logger.LogInformation("Successfully deleted user {UserId}", id);
+
+        // The user's feedback is also stored by the AI service and must go with them
+        if (_aiService != null)
         {
-            _logger.LogWarning("User not found for deletion: {UserId}", id);
+            var purge = await _aiService.PurgeUserDataAsync(id, correlationId);
+
+            if (purge != null)
+            {
+                _logger.LogInformation(
+                    "AI service data purged for user {UserId} - Points: {DeletedPoints}, Jobs: {DeletedJobs}",
+                    id, purge.DeletedPoints, purge.DeletedJobs);
+            }
+            else
+            {
+                _logger.LogError(
+                    "AI service data could not be purged for deleted user {UserId} - CorrelationId: {CorrelationId}",
+                    id, correlationId);
+            }
+        }
+
+        return true;
+    }
+
+    public async Task<ServiceResult<UserTrendsResult>> GetUserTrendsAsync(
+        Guid id,
+        string interval = "week",
+        string? correlationId = null)
+    {
+        _logger.LogInformation(
+            "Retrieving {Interval} trends for user: {UserId}",
+            interval, id);
+
+        var user = await _userRepository.GetByIdAsync(id);
+        if (user == null)
+        {
+            _logger.LogWarning("Cannot get trends - user not found: {UserId}", id);
+            return ServiceResult<UserTrendsResult>.Fail("User not found.", "NOT_FOUND");
+        }
+
+        if (_aiService == null)
+        {
+            return ServiceResult<UserTrendsResult>.Fail(
+                "AI service is not configured.",
+                "AI_UNAVAILABLE");
+        }
+
+        var trends = await _aiService.GetUserTrendsAsync(id, interval, correlationId);
+        if (trends == null)
+        {
+            return ServiceResult<UserTrendsResult>.Fail(
+                "AI service did not return trends.",
+                "AI_UNAVAILABLE");
+        }
+
+        if (trends.AtRisk)
+        {
+            _logger.LogWarning(
+                "User {UserId} flagged at risk after a sentiment drop",
+                id);
         }
 
-        return deleted;
+        return ServiceResult<UserTrendsResult>.Ok(trends);
     }
 }
@@ -1,15 +1,221 @@
 import dotenv from "dotenv";
-import { AppConfig } from "../types";
+import fs from "fs";
+import path from "path";
+import {
+  ApiClientConfig,
+  ApiScope,
+  AppConfig,
+  BudgetAction,
+  CacheBackend,
+  LlmProviderName,
+  PiiMode,
+} from "../types";
+import { COMMON_THEMES } from "../utils/keywordAnalysis";
 
 dotenv.config();
 
+const parseProvider = (value: string | undefined): LlmProviderName => {
+  if (value === "local") return "local";
+  return "gemini";
+};
+
+const parseCacheBackend = (value: string | undefined): CacheBackend => {
+  if (value === "redis") return "redis";
+  return "memory";
+};
+
+const parsePiiMode = (value: string | undefined): PiiMode => {
+  if (value === "off" || value === "reject") return value;
+  return "redact";
+};
+
+const parseBudgetAction = (value: string | undefined): BudgetAction => {
+  if (value === "payment_required" || value === "rate_limited") return value;
+  return "fallback";
+};
+
+// Node fires a timer after 1 ms when its delay is not positive or exceeds
+// 2^31-1 ms, so the interval falls back or is capped to stay in that range
+const MAX_TIMER_HOURS = (2 ** 31 - 1) / 3_600_000;
+
+const parseIntervalHours = (
+  value: string | undefined,
+  fallback: number,
+): number => {
+  const hours = parseFloat(value || "");
+  if (!Number.isFinite(hours) || hours <= 0) return fallback;
+  return Math.min(hours, MAX_TIMER_HOURS);
+};
+
+// "sentiment=v2,insights=v1" -> { sentiment: "v2", insights: "v1" }
+const parseVersionOverrides = (
+  value: string | undefined,
+): Record<string, string> =>
+  Object.fromEntries(
+    (value || "")
+      .split(",")
+      .map((pair) => pair.split("=").map((part) => part.trim()))
+      .filter(([name, version]) => name && version),
+  );
+
+// "product, Support" -> ["product", "support"]
+const parseList = (value: string | undefined): string[] =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+export const API_SCOPES: ApiScope[] = [
+  "sentiment",
+  "tags",
+  "insights",
+  "search",
+  "taxonomy",
+  "usage",
+  "admin",
+  "privacy",
+];
+
+// "dotnet:secret:sentiment|insights,ops:other" -> clients; no scopes means all
+const parseApiKeys = (value: string | undefined): ApiClientConfig[] =>
+  (value || "")
+    .split(",")
+    .map((entry) => entry.split(":").map((part) => part.trim()))
+    .filter(([name, key]) => name && key)
+    .map(([name, key, scopes]) => ({
+      name,
+      key,
+      scopes: scopes
+        ? API_SCOPES.filter((scope) => scopes.split("|").includes(scope))
+        : API_SCOPES,
+    }));
+
+// Version from package.json, reported by /health and the OpenAPI document
+const readServiceVersion = (): string =>
+  JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, "../../package.json"), "utf8"),
+  ).version;
+
 export const config: AppConfig = {
   port: parseInt(process.env.PORT || "3001", 10),
   nodeEnv: process.env.NODE_ENV || "development",
+  serviceVersion: readServiceVersion(),
   geminiApiKey: process.env.GEMINI_API_KEY,
   fallbackEnabled: process.env.AI_FALLBACK_ENABLED === "true",
   logLevel: process.env.LOG_LEVEL || "info",
   geminiModel: process.env.GEMINI_MODEL || "gemini-2.0-flash",
   geminiEmbeddingsModel:
     process.env.GEMINI_EMBEDDINGS_MODEL || "gemini-embedding-001",
+  llmProvider: parseProvider(process.env.LLM_PROVIDER),
+  localEmbeddingDimensions: parseInt(
+    process.env.LOCAL_EMBEDDING_DIMENSIONS || "768",
+    10,
+  ),
+  batchMaxItems: parseInt(process.env.BATCH_MAX_ITEMS || "100", 10),
+  batchConcurrency: parseInt(process.env.BATCH_CONCURRENCY || "5", 10),
+  embeddingJobsPath:
+    process.env.EMBEDDING_JOBS_PATH || "data/embedding-jobs.json",
+  embeddingMaxAttempts: parseInt(
+    process.env.EMBEDDING_MAX_ATTEMPTS || "5",
+    10,
+  ),
+  embeddingRetryBaseMs: parseInt(
+    process.env.EMBEDDING_RETRY_BASE_MS || "2000",
+    10,
+  ),
+  embeddingRetryMaxMs: parseInt(
+    process.env.EMBEDDING_RETRY_MAX_MS || "300000",
+    10,
+  ),
+  embeddingWorkerIntervalMs: parseInt(
+    process.env.EMBEDDING_WORKER_INTERVAL_MS || "1000",
+    10,
+  ),
+  embeddingJobRetentionHours: parseInt(
+    process.env.EMBEDDING_JOB_RETENTION_HOURS || "24",
+    10,
+  ),
+  reindexConcurrency: parseInt(process.env.REINDEX_CONCURRENCY || "5", 10),
+  reindexKeepVersions: parseInt(process.env.REINDEX_KEEP_VERSIONS || "1", 10),
+  cacheEnabled: process.env.CACHE_ENABLED !== "false",
+  cacheBackend: parseCacheBackend(process.env.CACHE_BACKEND),
+  cacheTtlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || "3600", 10),
+  cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || "1000", 10),
+  redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
+  promptsDir:
+    process.env.PROMPTS_DIR || path.resolve(__dirname, "../../prompts"),
+  defaultPromptVersion: process.env.PROMPT_DEFAULT_VERSION || "v4",
+  promptVersionOverrides: parseVersionOverrides(process.env.PROMPT_VERSIONS),
+  promptInjectionMode:
+    process.env.PROMPT_INJECTION_MODE === "reject" ? "reject" : "flag",
+  piiMode: parsePiiMode(process.env.PII_MODE),
+  themeMaxPoints: parseInt(process.env.THEME_MAX_POINTS || "2000", 10),
+  askMinScore: parseFloat(process.env.ASK_MIN_SCORE || "0.5"),
+  trendMaxPoints: parseInt(process.env.TREND_MAX_POINTS || "5000", 10),
+  trendDropThreshold: parseFloat(process.env.TREND_DROP_THRESHOLD || "0.3"),
+  duplicateThreshold: parseFloat(
+    process.env.DUPLICATE_SIMILARITY_THRESHOLD || "0.95",
+  ),
+  duplicateWindowDays: parseInt(process.env.DUPLICATE_WINDOW_DAYS || "30", 10),
+  duplicateCheckTimeoutMs: parseInt(
+    process.env.DUPLICATE_CHECK_TIMEOUT_MS || "1000",
+    10,
+  ),
+  spamThreshold: parseFloat(process.env.SPAM_THRESHOLD || "0.7"),
+  sentimentAspects: process.env.SENTIMENT_ASPECTS
+    ? parseList(process.env.SENTIMENT_ASPECTS)
+    : Object.keys(COMMON_THEMES),
+  taxonomyPath: process.env.TAXONOMY_PATH || "data/taxonomy.json",
+  taxonomyFlushMs: parseInt(process.env.TAXONOMY_FLUSH_MS || "5000", 10),
+  taxonomyMaxCandidates: parseInt(
+    process.env.TAXONOMY_MAX_CANDIDATES || "500",
+    10,
+  ),
+  usagePath: process.env.USAGE_PATH || "data/usage.json",
+  usageRetentionDays: parseInt(process.env.USAGE_RETENTION_DAYS || "90", 10),
+  usageFlushMs: parseInt(process.env.USAGE_FLUSH_MS || "1000", 10),
+  persistState: process.env.PERSIST_STATE !== "false",
+  feedbackRetentionDays: parseInt(
+    process.env.FEEDBACK_RETENTION_DAYS || "0",
+    10,
+  ),
+  retentionIntervalHours: parseIntervalHours(
+    process.env.RETENTION_INTERVAL_HOURS,
+    24,
+  ),
+  auditLogPath: process.env.AUDIT_LOG_PATH || "data/audit-log.jsonl",
+  usageBudget: {
+    dailyTokens: parseInt(process.env.USAGE_DAILY_TOKEN_BUDGET || "0", 10),
+    dailyCostUsd: parseFloat(process.env.USAGE_DAILY_COST_BUDGET || "0"),
+    action: parseBudgetAction(process.env.USAGE_BUDGET_ACTION),
+  },
+  geminiPricing: {
+    promptPerMillionTokens: parseFloat(
+      process.env.GEMINI_PROMPT_COST_PER_MTOK || "0.075",
+    ),
+    completionPerMillionTokens: parseFloat(
+      process.env.GEMINI_COMPLETION_COST_PER_MTOK || "0.3",
+    ),
+    embeddingPerMillionTokens: parseFloat(
+      process.env.GEMINI_EMBEDDING_COST_PER_MTOK || "0",
+    ),
+  },
+  apiKeys: parseApiKeys(process.env.API_KEYS),
+  apiKeysPath: process.env.API_KEYS_PATH || "",
+  rateLimit: {
+    capacity: parseInt(process.env.RATE_LIMIT_CAPACITY || "60", 10),
+    refillPerSecond: parseFloat(process.env.RATE_LIMIT_REFILL_PER_SECOND || "1"),
+  },
+  geminiTimeoutMs: parseInt(process.env.GEMINI_TIMEOUT_MS || "15000", 10),
+  geminiMaxRetries: parseInt(process.env.GEMINI_MAX_RETRIES || "2", 10),
+  geminiRetryBaseMs: parseInt(process.env.GEMINI_RETRY_BASE_MS || "500", 10),
+  geminiRetryMaxMs: parseInt(process.env.GEMINI_RETRY_MAX_MS || "5000", 10),
+  geminiCircuitFailureThreshold: parseInt(
+    process.env.GEMINI_CIRCUIT_FAILURE_THRESHOLD || "5",
+    10,
+  ),
+  geminiCircuitResetMs: parseInt(
+    process.env.GEMINI_CIRCUIT_RESET_MS || "30000",
+    10,
+  ),
 };
@@ -1,7 +1,53 @@
 import { Response, NextFunction } from 'express';
 import * as geminiService from '../services/geminiService';
+import * as embeddingService from '../services/embeddingService';
+import * as batchService from '../services/batchService';
+import * as cacheService from '../services/cacheService';
+import * as promptRegistry from '../services/promptRegistry';
+import * as piiService from '../services/piiService';
+import * as themeService from '../services/themeService';
+import * as trendService from '../services/trendService';
+import * as taxonomyService from '../services/taxonomyService';
+import * as usageService from '../services/usageService';
+import * as collectionService from '../services/collectionService';
+import * as privacyService from '../services/privacyService';
+import * as askService from '../services/askService';
+import * as embeddingWorker from '../worker/embeddingWorker';
+import { getGeminiCircuitStats, isGeminiConfigured } from '../infra/geminiClient';
+import { llmProvider } from '../infra/llmProvider';
+import { registry } from '../infra/metrics';
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { CorrelatedRequest, ApiResponse, SentimentResult, TagExtractionResult, InsightsResult, HealthStatus } from '../types';
+import { AppError } from '../utils/errors';
+import {
+  CorrelatedRequest,
+  ApiResponse,
+  SentimentResult,
+  AspectSentimentResult,
+  TagExtractionResult,
+  InsightsResult,
+  HealthStatus,
+  FeedbackSearchFilters,
+  FeedbackSearchResult,
+  AskResult,
+  BatchItem,
+  BatchOperation,
+  BatchResult,
+  PromptTemplateInfo,
+  PiiScanResult,
+  InsightsStreamEvent,
+  ThemeDiscoveryResult,
+  TrendInterval,
+  UserTrendsResult,
+  TaxonomyTag,
+  TaxonomyTagInput,
+  TaxonomyCandidate,
+  CollectionStatus,
+  ReindexProgress,
+  UserDataExport,
+  UserDataPurgeResult,
+  UsageReport
+} from '../types';
 
 
 export const analyzeSentiment = async (
@@ -10,14 +56,20 @@ export const analyzeSentiment = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { text } = req.body as { text: string };
+    const { text, promptVersion } = req.body as { text: string; promptVersion?: string };
+    const version = promptRegistry.resolvePromptVersion('sentiment', promptVersion);
 
     logger.info('Sentiment analysis requested', {
       correlationId: req.correlationId,
-      textLength: text?.length
+      textLength: text?.length,
+      promptVersion: version
     });
 
-    const result = await geminiService.analyzeSentiment(text);
+    const { value: result, cacheStatus } = await cacheService.withCache(
+      'sentiment',
+      [text, version],
+      () => geminiService.analyzeSentiment(text, { promptVersion: version })
+    );
 
     logger.info('Sentiment analysis completed', {
       correlationId: req.correlationId,
@@ -31,6 +83,61 @@ export const analyzeSentiment = async (
       correlationId: req.correlationId
     };
 
+    res.setHeader('X-Cache', cacheStatus);
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/sentiment/aspects
+ * Sentiment per aspect with supporting text spans
+ */
+export const analyzeAspects = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { text, aspects, freeForm, promptVersion } = req.body as {
+      text: string;
+      aspects?: string[];
+      freeForm?: boolean;
+      promptVersion?: string;
+    };
+    const version = promptRegistry.resolvePromptVersion('aspects', promptVersion);
+
+    logger.info('Aspect sentiment analysis requested', {
+      correlationId: req.correlationId,
+      textLength: text?.length,
+      aspectCount: aspects?.length,
+      promptVersion: version
+    });
+
+    const { value: result, cacheStatus } = await cacheService.withCache(
+      'aspects',
+      [text, version, aspects, freeForm],
+      () =>
+        geminiService.analyzeAspects(text, {
+          promptVersion: version,
+          aspects,
+          freeForm
+        })
+    );
+
+    logger.info('Aspect sentiment analysis completed', {
+      correlationId: req.correlationId,
+      aspects: result.aspects.map((aspect) => aspect.aspect)
+    });
+
+    const response: ApiResponse<AspectSentimentResult> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.setHeader('X-Cache', cacheStatus);
     res.json(response);
   } catch (error) {
     next(error);
@@ -47,14 +154,20 @@ export const extractTags = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { text } = req.body as { text: string };
+    const { text, promptVersion } = req.body as { text: string; promptVersion?: string };
+    const version = promptRegistry.resolvePromptVersion('tags', promptVersion);
 
     logger.info('Tag extraction requested', {
       correlationId: req.correlationId,
-      textLength: text?.length
+      textLength: text?.length,
+      promptVersion: version
     });
 
-    const result = await geminiService.extractTags(text);
+    const { value: result, cacheStatus } = await cacheService.withCache(
+      'tags',
+      [text, version, taxonomyService.getTaxonomyVersion()],
+      () => geminiService.extractTags(text, { promptVersion: version })
+    );
 
     logger.info('Tag extraction completed', {
       correlationId: req.correlationId,
@@ -67,6 +180,7 @@ export const extractTags = async (
       correlationId: req.correlationId
     };
 
+    res.setHeader('X-Cache', cacheStatus);
     res.json(response);
   } catch (error) {
     next(error);
@@ -83,15 +197,30 @@ export const generateInsights = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { text, userId } = req.body as { text: string; userId?: string };
+    const { text, userId, promptVersion, outputLanguage } = req.body as {
+      text: string;
+      userId?: string;
+      promptVersion?: string;
+      outputLanguage?: string;
+    };
+    const version = promptRegistry.resolvePromptVersion('insights', promptVersion);
 
     logger.info('Insights generation requested', {
       correlationId: req.correlationId,
       userId,
-      textLength: text?.length
+      textLength: text?.length,
+      promptVersion: version
     });
 
-    const result = await geminiService.generateInsights(text, userId);
+    const { value: result, cacheStatus } = await cacheService.withCache(
+      'insights',
+      [text, userId, version, outputLanguage, taxonomyService.getTaxonomyVersion()],
+      () => geminiService.generateInsights(text, userId, {
+        promptVersion: version,
+        outputLanguage
+      }),
+      userId
+    );
 
     logger.info('Insights generation completed', {
       correlationId: req.correlationId,
@@ -106,24 +235,932 @@ export const generateInsights = async (
       correlationId: req.correlationId
     };
 
+    res.setHeader('X-Cache', cacheStatus);
     res.json(response);
   } catch (error) {
     next(error);
   }
 };
 
+const writeSseEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
 
-export const healthCheck = (
-  _req: CorrelatedRequest,
-  res: Response
+/**
+ * POST /api/ai/insights/stream
+ * Stream insights as Server-Sent Events: "partial" events as fields arrive,
+ * then a final "result" (or "error") event
+ */
+export const streamInsights = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { text, userId, promptVersion, outputLanguage } = req.body as {
+    text: string;
+    userId?: string;
+    promptVersion?: string;
+    outputLanguage?: string;
+  };
+
+  let events: AsyncGenerator<InsightsStreamEvent>;
+  let first: IteratorResult<InsightsStreamEvent>;
+
+  // Pull the first event before committing to a stream so input errors
+  // (unknown prompt version, PII or injection rejection) still get a
+  // regular JSON error response with the right status code
+  try {
+    const version = promptRegistry.resolvePromptVersion('insights', promptVersion);
+
+    logger.info('Streaming insights requested', {
+      correlationId: req.correlationId,
+      userId,
+      textLength: text?.length,
+      promptVersion: version
+    });
+
+    events = geminiService.streamInsights(text, userId, {
+      promptVersion: version,
+      outputLanguage
+    });
+    first = await events.next();
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // req emits 'close' once the body has been read; a response that closes
+  // before it has ended means the client went away
+  let closed = false;
+  res.on('close', () => {
+    closed = !res.writableEnded;
+  });
+
+  try {
+    for (let current = first; !current.done && !closed; current = await events.next()) {
+      const event = current.value;
+
+      if (event.type === 'partial') {
+        writeSseEvent(res, 'partial', {
+          field: event.field,
+          value: event.value,
+          correlationId: req.correlationId
+        });
+      } else {
+        const response: ApiResponse<InsightsResult> = {
+          success: true,
+          data: event.data,
+          correlationId: req.correlationId
+        };
+        writeSseEvent(res, 'result', response);
+
+        logger.info('Streaming insights completed', {
+          correlationId: req.correlationId,
+          userId,
+          sentimentScore: event.data.sentimentScore
+        });
+      }
+    }
+  } catch (error) {
+    const err = error as AppError;
+    logger.error('Streaming insights failed', {
+      correlationId: req.correlationId,
+      error: err.message
+    });
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: {
+        message: err.message || 'Internal server error',
+        code: err.code || 'INTERNAL_ERROR'
+      },
+      correlationId: req.correlationId
+    };
+    writeSseEvent(res, 'error', response);
+  }
+
+  if (closed) {
+    await events.return(undefined);
+  }
+  res.end();
+};
+
+const runBatchRequest = async (
+  operation: BatchOperation,
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { items, fallback = false, promptVersion, outputLanguage } = req.body as {
+      items: BatchItem[];
+      fallback?: boolean;
+      promptVersion?: string;
+      outputLanguage?: string;
+    };
+    const version = promptRegistry.resolvePromptVersion(operation, promptVersion);
+
+    logger.info('Batch analysis requested', {
+      correlationId: req.correlationId,
+      operation,
+      itemsCount: items.length
+    });
+
+    const result = await batchService.runBatch(operation, items, {
+      fallbackOnError: fallback,
+      promptVersion: version,
+      outputLanguage,
+      invalidItems: res.locals.invalidItems
+    });
+
+    logger.info('Batch analysis completed', {
+      correlationId: req.correlationId,
+      operation,
+      succeeded: result.succeeded,
+      failed: result.failed
+    });
+
+    const response: ApiResponse<BatchResult<unknown>> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/sentiment/batch
+ * Analyze sentiment for many texts in one request
+ */
+export const analyzeSentimentBatch = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => runBatchRequest('sentiment', req, res, next);
+
+/**
+ * POST /api/ai/tags/batch
+ * Extract tags for many texts in one request
+ */
+export const extractTagsBatch = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => runBatchRequest('tags', req, res, next);
+
+/**
+ * POST /api/ai/insights/batch
+ * Generate insights for many texts in one request
+ */
+export const generateInsightsBatch = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => runBatchRequest('insights', req, res, next);
+
+/**
+ * POST /api/ai/search
+ * Find stored feedback semantically similar to the given text
+ */
+export const searchFeedback = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { text, limit = 10, scoreThreshold, filters } = req.body as {
+      text: string;
+      limit?: number;
+      scoreThreshold?: number;
+      filters?: FeedbackSearchFilters;
+    };
+
+    logger.info('Feedback search requested', {
+      correlationId: req.correlationId,
+      textLength: text?.length,
+      limit,
+      filters
+    });
+
+    const results = await embeddingService.searchFeedback({
+      text,
+      limit,
+      scoreThreshold,
+      filters
+    });
+
+    logger.info('Feedback search completed', {
+      correlationId: req.correlationId,
+      resultsCount: results.length
+    });
+
+    const response: ApiResponse<FeedbackSearchResult> = {
+      success: true,
+      data: { query: text, results },
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/ask
+ * Answer a question from the most relevant stored feedback, citing it
+ */
+export const askQuestion = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { question, limit = 8, scoreThreshold, filters } = req.body as {
+      question: string;
+      limit?: number;
+      scoreThreshold?: number;
+      filters?: FeedbackSearchFilters;
+    };
+
+    logger.info('Question answering requested', {
+      correlationId: req.correlationId,
+      questionLength: question?.length,
+      limit,
+      filters
+    });
+
+    const result = await askService.askQuestion({
+      question,
+      limit,
+      scoreThreshold,
+      filters
+    });
+
+    logger.info('Question answering completed', {
+      correlationId: req.correlationId,
+      answered: result.answered,
+      sourcesCount: result.sources.length,
+      citationsCount: result.citations.length
+    });
+
+    const response: ApiResponse<AskResult> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/jobs/:id
+ * Get the status of an embedding job
+ */
+export const getEmbeddingJob = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    const record = await embeddingWorker.getEmbeddingJob(id);
+
+    if (!record) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: { message: 'Embedding job not found', code: 'NOT_FOUND' },
+        correlationId: req.correlationId
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<embeddingWorker.EmbeddingJobSummary> = {
+      success: true,
+      data: embeddingWorker.toJobSummary(record),
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/jobs/:id/replay
+ * Re-queue a completed or dead-lettered embedding job
+ */
+export const replayEmbeddingJob = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    const record = await embeddingWorker.replayEmbeddingJob(id);
+
+    if (!record) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: { message: 'Embedding job not found', code: 'NOT_FOUND' },
+        correlationId: req.correlationId
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.info('Embedding job replay requested', {
+      correlationId: req.correlationId,
+      jobId: record.id
+    });
+
+    const response: ApiResponse<embeddingWorker.EmbeddingJobSummary> = {
+      success: true,
+      data: embeddingWorker.toJobSummary(record),
+      correlationId: req.correlationId
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/jobs/dead-letter
+ * List embedding jobs that exhausted their retries
+ */
+export const listDeadLetterJobs = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const records = await embeddingWorker.listDeadLetterJobs();
+
+    const response: ApiResponse<embeddingWorker.EmbeddingJobSummary[]> = {
+      success: true,
+      data: records.map(embeddingWorker.toJobSummary),
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/jobs/dead-letter/replay
+ * Re-queue every dead-lettered embedding job
+ */
+export const replayDeadLetterJobs = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const records = await embeddingWorker.replayDeadLetterJobs();
+
+    logger.info('Dead-letter replay requested', {
+      correlationId: req.correlationId,
+      replayed: records.length
+    });
+
+    const response: ApiResponse<embeddingWorker.EmbeddingJobSummary[]> = {
+      success: true,
+      data: records.map(embeddingWorker.toJobSummary),
+      correlationId: req.correlationId
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/collection
+ * State of the feedback embedding collection and of the latest re-index
+ */
+export const getCollectionStatus = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
 ): void => {
-  const health: HealthStatus = {
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    service: 'ai-service',
-    version: '1.0.0',
-    geminiConfigured: geminiService.isGeminiConfigured()
+  try {
+    const response: ApiResponse<CollectionStatus> = {
+      success: true,
+      data: collectionService.getCollectionStatus(),
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/collection/reindex
+ * Re-embed all stored feedback into a new collection version
+ */
+export const reindexCollection = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const progress = collectionService.startReindex();
+
+    logger.info('Collection re-index requested', {
+      correlationId: req.correlationId,
+      embeddingsModel: llmProvider.embeddingsModel
+    });
+
+    const response: ApiResponse<ReindexProgress> = {
+      success: true,
+      data: progress,
+      correlationId: req.correlationId
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/themes/discover
+ * Cluster stored feedback embeddings into labelled themes
+ */
+export const discoverThemes = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { k, limit, examplesPerCluster = 3, filters } = req.body as {
+      k?: number;
+      limit?: number;
+      examplesPerCluster?: number;
+      filters?: FeedbackSearchFilters;
+    };
+
+    logger.info('Theme discovery requested', {
+      correlationId: req.correlationId,
+      k,
+      limit,
+      filters
+    });
+
+    const result = await themeService.discoverThemes({
+      k,
+      limit,
+      examplesPerCluster,
+      filters
+    });
+
+    const response: ApiResponse<ThemeDiscoveryResult> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/users/:userId/trends
+ * Aggregate a user's stored feedback over time and flag sentiment drops
+ */
+export const getUserTrends = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params as { userId: string };
+    const { interval = 'week', from, to } = req.query as {
+      interval?: TrendInterval;
+      from?: string;
+      to?: string;
+    };
+
+    logger.info('User trends requested', {
+      correlationId: req.correlationId,
+      userId,
+      interval
+    });
+
+    const result = await trendService.getUserTrends(userId, {
+      interval,
+      from,
+      to
+    });
+
+    const response: ApiResponse<UserTrendsResult> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/users/:userId/data
+ * Export everything stored about a user's feedback
+ */
+export const exportUserData = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params as { userId: string };
+
+    logger.info('User data export requested', {
+      correlationId: req.correlationId,
+      userId
+    });
+
+    const response: ApiResponse<UserDataExport> = {
+      success: true,
+      data: await privacyService.exportUserData(userId),
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/ai/users/:userId/data
+ * Erase a user's stored feedback and pending embedding jobs
+ */
+export const purgeUserData = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = req.params as { userId: string };
+
+    const result = await privacyService.purgeUserData(userId, {
+      actor: req.apiClient?.name,
+      correlationId: req.correlationId
+    });
+
+    const response: ApiResponse<UserDataPurgeResult> = {
+      success: true,
+      data: result,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/pii
+ * Detect personal data in text and return the entity spans
+ */
+export const scanPii = (
+  req: CorrelatedRequest,
+  res: Response
+): void => {
+  const { text } = req.body as { text: string };
+
+  const result = piiService.scanPii(text);
+
+  logger.info('PII scan completed', {
+    correlationId: req.correlationId,
+    textLength: text.length,
+    entitiesCount: result.entities.length
+  });
+
+  const response: ApiResponse<PiiScanResult> = {
+    success: true,
+    data: result,
+    correlationId: req.correlationId
+  };
+
+  res.json(response);
+};
+
+/**
+ * GET /api/ai/prompts
+ * List the loaded prompt templates and their versions
+ */
+export const listPrompts = (
+  req: CorrelatedRequest,
+  res: Response
+): void => {
+  const response: ApiResponse<PromptTemplateInfo[]> = {
+    success: true,
+    data: promptRegistry.listPromptTemplates(),
+    correlationId: req.correlationId
+  };
+
+  res.json(response);
+};
+
+export const healthCheck = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const circuitBreaker = getGeminiCircuitStats();
+
+    const response: ApiResponse<HealthStatus> = {
+      success: true,
+      data: {
+        status: circuitBreaker.state === 'closed' ? 'healthy' : 'degraded',
+        timestamp: new Date().toISOString(),
+        service: 'AI Service',
+        version: config.serviceVersion,
+        geminiConfigured: isGeminiConfigured(),
+        llmProvider: llmProvider.name,
+        cache: await cacheService.getCacheStats(),
+        circuitBreaker
+      },
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /metrics
+ * Prometheus metrics in text exposition format
+ */
+export const metrics = async (
+  _req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.setHeader('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/taxonomy
+ * List the canonical tags
+ */
+export const listTaxonomy = (
+  req: CorrelatedRequest,
+  res: Response
+): void => {
+  const response: ApiResponse<TaxonomyTag[]> = {
+    success: true,
+    data: taxonomyService.listTags(),
+    correlationId: req.correlationId
+  };
+
+  res.json(response);
+};
+
+/**
+ * GET /api/ai/taxonomy/:id
+ * Get a canonical tag and the ids of its children
+ */
+export const getTaxonomyTag = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { id } = req.params as { id: string };
+
+    const response: ApiResponse<TaxonomyTag & { children: string[] }> = {
+      success: true,
+      data: {
+        ...taxonomyService.getTag(id),
+        children: taxonomyService.listChildren(id)
+      },
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/ai/taxonomy
+ * Add a canonical tag
+ */
+export const createTaxonomyTag = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const input = req.body as TaxonomyTagInput & { id: string };
+    const tag = await taxonomyService.createTag(input);
+
+    logger.info('Taxonomy tag created', {
+      correlationId: req.correlationId,
+      client: req.apiClient?.name,
+      tag: tag.id
+    });
+
+    const response: ApiResponse<TaxonomyTag> = {
+      success: true,
+      data: tag,
+      correlationId: req.correlationId
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/ai/taxonomy/:id
+ * Replace a tag's description, synonyms and parent
+ */
+export const updateTaxonomyTag = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    const tag = await taxonomyService.updateTag(id, req.body as TaxonomyTagInput);
+
+    logger.info('Taxonomy tag updated', {
+      correlationId: req.correlationId,
+      client: req.apiClient?.name,
+      tag: tag.id
+    });
+
+    const response: ApiResponse<TaxonomyTag> = {
+      success: true,
+      data: tag,
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/ai/taxonomy/:id
+ * Remove a tag that has no children
+ */
+export const deleteTaxonomyTag = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    await taxonomyService.deleteTag(id);
+
+    logger.info('Taxonomy tag deleted', {
+      correlationId: req.correlationId,
+      client: req.apiClient?.name,
+      tag: id
+    });
+
+    const response: ApiResponse<{ id: string }> = {
+      success: true,
+      data: { id },
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/taxonomy/candidates
+ * List tags produced by analysis that are not in the taxonomy, most frequent first
+ */
+export const listTaxonomyCandidates = (
+  req: CorrelatedRequest,
+  res: Response
+): void => {
+  const response: ApiResponse<TaxonomyCandidate[]> = {
+    success: true,
+    data: taxonomyService.listCandidates(),
+    correlationId: req.correlationId
+  };
+
+  res.json(response);
+};
+
+/**
+ * DELETE /api/ai/taxonomy/candidates/:tag
+ * Dismiss a candidate tag after review
+ */
+export const dismissTaxonomyCandidate = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { tag } = req.params as { tag: string };
+    await taxonomyService.dismissCandidate(tag);
+
+    const response: ApiResponse<{ tag: string }> = {
+      success: true,
+      data: { tag },
+      correlationId: req.correlationId
+    };
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/ai/usage
+ * Token and cost usage per client, endpoint and day. Clients without the
+ * usage scope only see their own usage.
+ */
+export const getUsage = (
+  req: CorrelatedRequest,
+  res: Response
+): void => {
+  const { from, to, client, endpoint } = req.query as {
+    from?: string;
+    to?: string;
+    client?: string;
+    endpoint?: string;
+  };
+  const caller = req.apiClient;
+  const canSeeAll = !caller || caller.scopes.includes('usage');
+
+  if (!canSeeAll && client && client !== caller.name) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: {
+        message: 'API key lacks the usage scope required for other clients',
+        code: 'FORBIDDEN'
+      },
+      correlationId: req.correlationId
+    };
+    res.status(403).json(response);
+    return;
+  }
+
+  const response: ApiResponse<UsageReport> = {
+    success: true,
+    data: usageService.getUsageReport({
+      from,
+      to,
+      client: canSeeAll ? client : caller.name,
+      endpoint,
+      budget: {
+        client: caller?.name || usageService.ANONYMOUS_CLIENT,
+        settings: caller?.budget || config.usageBudget
+      }
+    }),
+    correlationId: req.correlationId
   };
 
-  res.json(health);
+  res.json(response);
 };
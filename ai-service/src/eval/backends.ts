@@ -0,0 +1,97 @@
+import { config } from "../config";
+import { llmProvider } from "../infra/llmProvider";
+import * as geminiService from "../services/geminiService";
+import {
+  EvalBackendName,
+  EvalOperation,
+  EvalPrediction,
+  InsightsResult,
+  SentimentResult,
+  TagExtractionResult,
+} from "../types";
+
+export type EvalOutput = Pick<
+  EvalPrediction,
+  "label" | "score" | "tags" | "isFallback"
+> & { promptVersion?: string };
+
+/**
+ * Something that can answer the evaluated operations. "gemini" and "local"
+ * run the full service path with that LLM provider; "keyword" runs the
+ * keyword fallback directly and serves as the baseline.
+ */
+export interface EvalBackend {
+  name: EvalBackendName;
+  model: string;
+  run: (operation: EvalOperation, text: string) => Promise<EvalOutput>;
+}
+
+export const EVAL_BACKENDS: EvalBackendName[] = ["gemini", "local", "keyword"];
+
+const fromSentiment = (result: SentimentResult): EvalOutput => ({
+  label: result.label,
+  score: result.score,
+  isFallback: result.isFallback === true,
+  promptVersion: result.promptVersion,
+});
+
+const fromTags = (result: TagExtractionResult): EvalOutput => ({
+  tags: result.tags,
+  isFallback: result.isFallback === true,
+  promptVersion: result.promptVersion,
+});
+
+const fromInsights = (result: InsightsResult): EvalOutput => ({
+  label: result.sentimentLabel,
+  score: result.sentimentScore,
+  tags: result.tags,
+  isFallback: result.isFallback === true,
+  promptVersion: result.promptVersion,
+});
+
+const modelBackend = (name: EvalBackendName): EvalBackend => ({
+  name,
+  model: llmProvider.model,
+  run: async (operation, text) => {
+    switch (operation) {
+      case "sentiment":
+        return fromSentiment(await geminiService.analyzeSentiment(text));
+      case "tags":
+        return fromTags(await geminiService.extractTags(text));
+      case "insights":
+        // Evaluated text must not end up in the feedback collection
+        return fromInsights(
+          await geminiService.generateInsights(text, undefined, {
+            persist: false,
+          }),
+        );
+    }
+  },
+});
+
+// The fallback is the system under test here, so it is not counted as one
+const keywordBackend: EvalBackend = {
+  name: "keyword",
+  model: geminiService.FALLBACK_MODEL,
+  run: async (operation, text) => {
+    const output =
+      operation === "sentiment"
+        ? fromSentiment(geminiService.getFallbackSentiment(text))
+        : operation === "tags"
+          ? fromTags(geminiService.getFallbackTags(text))
+          : fromInsights(geminiService.getFallbackInsights(text));
+    return { ...output, isFallback: false };
+  },
+};
+
+export const createBackend = (name: EvalBackendName): EvalBackend => {
+  if (name === "keyword") return keywordBackend;
+
+  // The provider is chosen once from LLM_PROVIDER when the service loads
+  if (config.llmProvider !== name) {
+    throw new Error(
+      `Backend "${name}" needs LLM_PROVIDER=${name}, but the service loaded "${config.llmProvider}"`,
+    );
+  }
+  return modelBackend(name);
+};
@@ -0,0 +1,172 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  EvalBackendName,
+  EvalComparison,
+  EvalOperation,
+  EvalReport,
+} from "../types";
+
+// Offline evaluation: runs a labeled JSONL dataset through a backend, prints
+// the metrics, and fails (exit 1) when they regress against a stored
+// baseline report. Usage errors exit 2.
+//
+// Service modules read their configuration when first loaded, so they are
+// imported only after LLM_PROVIDER has been set from --backend. Taxonomy
+// candidates and token usage stay in memory and the cache is off, so a run
+// neither touches the service's stores nor scores cached answers.
+
+const USAGE = `Usage: npm run eval -- --dataset <file.jsonl> [options]
+
+  --backend <name>      gemini, local or keyword (default: keyword)
+  --operations <list>   Comma-separated sentiment,tags,insights (default: all)
+  --concurrency <n>     Calls in flight per operation (default: BATCH_CONCURRENCY)
+  --out <file>          Write the JSON report, including the comparison
+  --baseline <file>     Compare with a stored report and fail on regressions
+  --tolerance <n>       Allowed worsening per metric (default: 0.02)
+  --update-baseline     Store this run at --baseline instead of comparing`;
+
+const DEFAULT_TOLERANCE = 0.02;
+
+class UsageError extends Error {}
+
+const formatMetrics = (report: EvalReport): string[] =>
+  Object.entries(report.metrics).map(
+    ([operation, metrics]) =>
+      `  ${operation.padEnd(10)} ${Object.entries(metrics)
+        .map(([metric, value]) => `${metric}=${value}`)
+        .join(" ")}`,
+  );
+
+const formatComparison = (comparison: EvalComparison): string[] => [
+  `Compared with ${comparison.baseline.backend} (${comparison.baseline.model}) from ${comparison.baseline.completedAt}, tolerance ${comparison.tolerance}:`,
+  ...comparison.deltas.map(
+    (delta) =>
+      `  ${`${delta.operation}.${delta.metric}`.padEnd(24)} ${delta.baseline} -> ${delta.current} (${delta.delta >= 0 ? "+" : ""}${delta.delta})${delta.regressed ? "  REGRESSION" : ""}`,
+  ),
+];
+
+const writeJson = async (file: string, value: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(value, null, 2)}\n`);
+};
+
+const OPTIONS = {
+  dataset: { type: "string" },
+  backend: { type: "string", default: "keyword" },
+  operations: { type: "string" },
+  concurrency: { type: "string" },
+  out: { type: "string" },
+  baseline: { type: "string" },
+  tolerance: { type: "string" },
+  "update-baseline": { type: "boolean", default: false },
+  help: { type: "boolean", default: false },
+} as const;
+
+const readArgs = () => {
+  try {
+    return parseArgs({ options: OPTIONS }).values;
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const values = readArgs();
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.dataset) {
+    throw new UsageError("--dataset is required");
+  }
+  if (values["update-baseline"] && !values.baseline) {
+    throw new UsageError("--update-baseline needs --baseline <file>");
+  }
+
+  const backendName = values.backend as EvalBackendName;
+  if (backendName !== "keyword") {
+    process.env.LLM_PROVIDER = backendName;
+  }
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || "warn";
+  process.env.PERSIST_STATE = "false";
+  process.env.CACHE_ENABLED = "false";
+
+  const { EVAL_BACKENDS, createBackend } = await import("./backends");
+  const { EVAL_OPERATIONS, runEvaluation } = await import("./evaluate");
+  const { compareReports } = await import("./metrics");
+  const { loadDataset } = await import("./dataset");
+  const { config } = await import("../config");
+
+  if (!EVAL_BACKENDS.includes(backendName)) {
+    throw new UsageError(
+      `Unknown backend "${backendName}", expected one of: ${EVAL_BACKENDS.join(", ")}`,
+    );
+  }
+
+  const operations = values.operations
+    ? (values.operations.split(",").map((op) => op.trim()) as EvalOperation[])
+    : EVAL_OPERATIONS;
+  const unknown = operations.filter((op) => !EVAL_OPERATIONS.includes(op));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown operations: ${unknown.join(", ")}`);
+  }
+
+  const concurrency = values.concurrency
+    ? parseInt(values.concurrency, 10)
+    : config.batchConcurrency;
+  const tolerance = values.tolerance
+    ? parseFloat(values.tolerance)
+    : DEFAULT_TOLERANCE;
+  if (!(concurrency >= 1) || !(tolerance >= 0)) {
+    throw new UsageError("--concurrency must be >= 1 and --tolerance >= 0");
+  }
+
+  const report = await runEvaluation({
+    dataset: values.dataset,
+    examples: await loadDataset(values.dataset),
+    backend: createBackend(backendName),
+    operations,
+    concurrency,
+  });
+
+  console.log(
+    `Evaluated ${report.examples} examples from ${report.dataset} on ${report.backend} (${report.model}):`,
+  );
+  formatMetrics(report).forEach((line) => console.log(line));
+
+  if (values.baseline && values["update-baseline"]) {
+    await writeJson(values.baseline, report);
+    console.log(`Baseline written to ${values.baseline}`);
+  } else if (values.baseline) {
+    const baseline = JSON.parse(
+      await fs.readFile(values.baseline, "utf8"),
+    ) as EvalReport;
+    report.comparison = compareReports(report, baseline, tolerance);
+    formatComparison(report.comparison).forEach((line) => console.log(line));
+  }
+
+  if (values.out) {
+    await writeJson(values.out, report);
+    console.log(`Report written to ${values.out}`);
+  }
+
+  const regressions = report.comparison?.regressions.length ?? 0;
+  if (regressions > 0) {
+    console.error(`${regressions} metric(s) regressed against the baseline`);
+    return 1;
+  }
+  return 0;
+};
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error((error as Error).message);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = 2;
+  });
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import { z } from "zod";
+import { formatSchemaErrors } from "../schemas/analysisSchemas";
+import { EvalExample } from "../types";
+
+// One JSON object per line. Every expectation is optional, so a dataset can
+// label only sentiment, only tags, or both:
+//
+//   {"id": "fb-1", "text": "Support never replied", "label": "negative",
+//    "score": -0.7, "tags": ["support"]}
+
+const exampleSchema = z
+  .object({
+    id: z.string().min(1),
+    text: z.string().trim().min(1),
+    label: z.enum(["positive", "negative", "neutral", "mixed"]).optional(),
+    score: z.number().min(-1).max(1).optional(),
+    tags: z.array(z.string().trim().toLowerCase().min(1)).optional(),
+  })
+  .strict();
+
+export const parseDataset = (source: string): EvalExample[] => {
+  const examples: EvalExample[] = [];
+  const errors: string[] = [];
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      errors.push(`line ${index + 1}: not valid JSON`);
+      return;
+    }
+
+    const result = exampleSchema.safeParse(raw);
+    if (result.success) {
+      examples.push(result.data);
+    } else {
+      errors.push(
+        ...formatSchemaErrors(result.error).map(
+          (error) => `line ${index + 1}: ${error}`,
+        ),
+      );
+    }
+  });
+
+  const ids = examples.map((example) => example.id);
+  const repeated = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (repeated.length > 0) {
+    errors.push(`duplicate ids: ${[...new Set(repeated)].join(", ")}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset:\n${errors.join("\n")}`);
+  }
+  if (examples.length === 0) {
+    throw new Error("Dataset contains no examples");
+  }
+
+  return examples;
+};
+
+export const loadDataset = async (file: string): Promise<EvalExample[]> =>
+  parseDataset(await fs.readFile(file, "utf8"));
@@ -0,0 +1,75 @@
+import path from "path";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { EvalBackend } from "./backends";
+import { computeMetrics } from "./metrics";
+import {
+  EvalExample,
+  EvalOperation,
+  EvalPrediction,
+  EvalReport,
+} from "../types";
+
+export const EVAL_OPERATIONS: EvalOperation[] = [
+  "sentiment",
+  "tags",
+  "insights",
+];
+
+/**
+ * Runs every example through each operation on the backend and scores the
+ * results. A failed call is recorded on its prediction and does not stop
+ * the run.
+ */
+export const runEvaluation = async (params: {
+  dataset: string;
+  examples: EvalExample[];
+  backend: EvalBackend;
+  operations: EvalOperation[];
+  concurrency: number;
+}): Promise<EvalReport> => {
+  const startedAt = new Date().toISOString();
+  const promptVersions: EvalReport["promptVersions"] = {};
+  const metrics: EvalReport["metrics"] = {};
+  const predictions: EvalPrediction[] = [];
+
+  for (const operation of params.operations) {
+    const results = await mapWithConcurrency(
+      params.examples,
+      params.concurrency,
+      async (example): Promise<EvalPrediction> => {
+        try {
+          const { promptVersion, ...output } = await params.backend.run(
+            operation,
+            example.text,
+          );
+          if (promptVersion && !output.isFallback) {
+            promptVersions[operation] = promptVersion;
+          }
+          return { id: example.id, operation, ...output };
+        } catch (error) {
+          return {
+            id: example.id,
+            operation,
+            isFallback: false,
+            error: (error as Error).message,
+          };
+        }
+      },
+    );
+
+    metrics[operation] = computeMetrics(params.examples, results);
+    predictions.push(...results);
+  }
+
+  return {
+    dataset: path.basename(params.dataset),
+    backend: params.backend.name,
+    model: params.backend.model,
+    promptVersions,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    examples: params.examples.length,
+    metrics,
+    predictions,
+  };
+};
@@ -0,0 +1,162 @@
+import {
+  EvalComparison,
+  EvalExample,
+  EvalMetricDelta,
+  EvalMetrics,
+  EvalOperation,
+  EvalPrediction,
+  EvalReport,
+} from "../types";
+
+// Metrics compared against a baseline, and which way is better for each
+const COMPARED_METRICS: {
+  metric: keyof EvalMetrics;
+  lowerIsBetter: boolean;
+}[] = [
+  { metric: "accuracy", lowerIsBetter: false },
+  { metric: "mae", lowerIsBetter: true },
+  { metric: "tagPrecision", lowerIsBetter: false },
+  { metric: "tagRecall", lowerIsBetter: false },
+  { metric: "tagF1", lowerIsBetter: false },
+  { metric: "fallbackRate", lowerIsBetter: true },
+  { metric: "errorRate", lowerIsBetter: true },
+];
+
+// Deltas this small are rounding noise, not a change
+const EPSILON = 1e-9;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const ratio = (part: number, whole: number): number =>
+  whole > 0 ? round(part / whole) : 0;
+
+/**
+ * Scores one operation's predictions against the labeled examples. Failed
+ * calls only count towards errorRate; the quality metrics cover the
+ * predictions that came back. Tag precision and recall are micro-averaged
+ * over the examples that carry expected tags.
+ */
+export const computeMetrics = (
+  examples: EvalExample[],
+  predictions: EvalPrediction[],
+): EvalMetrics => {
+  const expected = new Map(examples.map((example) => [example.id, example]));
+  const answered = predictions.filter((prediction) => !prediction.error);
+
+  const metrics: EvalMetrics = {
+    examples: predictions.length,
+    errorRate: ratio(predictions.length - answered.length, predictions.length),
+    fallbackRate: ratio(
+      predictions.filter((prediction) => prediction.isFallback).length,
+      predictions.length,
+    ),
+  };
+
+  const labeled = answered.filter(
+    (prediction) =>
+      prediction.label !== undefined &&
+      expected.get(prediction.id)?.label !== undefined,
+  );
+  if (labeled.length > 0) {
+    const correct = labeled.filter(
+      (prediction) => prediction.label === expected.get(prediction.id)?.label,
+    ).length;
+    metrics.accuracy = ratio(correct, labeled.length);
+  }
+
+  const scored = answered.filter(
+    (prediction) =>
+      prediction.score !== undefined &&
+      expected.get(prediction.id)?.score !== undefined,
+  );
+  if (scored.length > 0) {
+    const totalError = scored.reduce(
+      (sum, prediction) =>
+        sum +
+        Math.abs(
+          (prediction.score as number) -
+            (expected.get(prediction.id)?.score as number),
+        ),
+      0,
+    );
+    metrics.mae = round(totalError / scored.length);
+  }
+
+  const tagged = answered.filter(
+    (prediction) =>
+      prediction.tags !== undefined &&
+      expected.get(prediction.id)?.tags !== undefined,
+  );
+  if (tagged.length > 0) {
+    let truePositives = 0;
+    let predictedCount = 0;
+    let expectedCount = 0;
+
+    tagged.forEach((prediction) => {
+      const wanted = new Set(expected.get(prediction.id)?.tags);
+      const predicted = new Set(
+        (prediction.tags as string[]).map((tag) => tag.toLowerCase()),
+      );
+      truePositives += [...predicted].filter((tag) => wanted.has(tag)).length;
+      predictedCount += predicted.size;
+      expectedCount += wanted.size;
+    });
+
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, expectedCount);
+    metrics.tagPrecision = precision;
+    metrics.tagRecall = recall;
+    metrics.tagF1 =
+      precision + recall > 0
+        ? round((2 * precision * recall) / (precision + recall))
+        : 0;
+  }
+
+  return metrics;
+};
+
+/**
+ * Compares every metric both runs measured. A metric regresses when it is
+ * worse than the baseline by more than `tolerance` (an absolute amount).
+ */
+export const compareReports = (
+  current: EvalReport,
+  baseline: EvalReport,
+  tolerance: number,
+): EvalComparison => {
+  const deltas: EvalMetricDelta[] = [];
+
+  (Object.keys(current.metrics) as EvalOperation[]).forEach((operation) => {
+    const now = current.metrics[operation];
+    const before = baseline.metrics[operation];
+    if (!now || !before) return;
+
+    COMPARED_METRICS.forEach(({ metric, lowerIsBetter }) => {
+      const currentValue = now[metric];
+      const baselineValue = before[metric];
+      if (currentValue === undefined || baselineValue === undefined) return;
+
+      const delta = round(currentValue - baselineValue);
+      const worsening = lowerIsBetter ? delta : -delta;
+      deltas.push({
+        operation,
+        metric,
+        baseline: baselineValue,
+        current: currentValue,
+        delta,
+        regressed: worsening > tolerance + EPSILON,
+      });
+    });
+  });
+
+  return {
+    baseline: {
+      backend: baseline.backend,
+      model: baseline.model,
+      completedAt: baseline.completedAt,
+    },
+    tolerance,
+    deltas,
+    regressions: deltas.filter((delta) => delta.regressed),
+  };
+};
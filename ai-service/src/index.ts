@@ -7,7 +7,17 @@ import { config } from './config';
 import { logger } from './utils/logger';
 import { correlationIdMiddleware } from './middleware/correlationId';
 import { errorHandler } from './middleware/errorHandler';
+import { apiKeyAuth } from './middleware/apiKeyAuth';
+import { isAuthEnabled } from './services/apiKeyService';
+import { rateLimiter } from './middleware/rateLimiter';
+import { metricsMiddleware } from './middleware/metrics';
 import aiRoutes from './routes/aiRoutes';
+import openApiRoutes from './routes/openApiRoutes';
+import { startEmbeddingWorker, stopEmbeddingWorker } from './worker/embeddingWorker';
+import { startRetentionWorker, stopRetentionWorker } from './worker/retentionWorker';
+import { flushUsage } from './services/usageService';
+import { flushTaxonomy } from './services/taxonomyService';
+import { provisionCollection } from './services/collectionService';
 import * as aiController from './controllers/aiController';
 import { CorrelatedRequest, ApiResponse } from './types';
 
@@ -23,9 +33,12 @@ app.use(morgan('combined', {
 }));
 
 app.use(correlationIdMiddleware);
+app.use(metricsMiddleware);
 
 app.get('/health', aiController.healthCheck);
-app.use('/api/ai', aiRoutes);
+app.get('/metrics', aiController.metrics);
+app.use(openApiRoutes);
+app.use('/api/ai', apiKeyAuth, rateLimiter, aiRoutes);
 
 app.use((req: CorrelatedRequest, res: Response) => {
   const response: ApiResponse<null> = {
@@ -38,19 +51,45 @@ app.use((req: CorrelatedRequest, res: Response) => {
 
 app.use(errorHandler);
 
-const server = app.listen(config.port, () => {
-  logger.info(`AI Service started on port ${config.port}`, {
-    environment: config.nodeEnv,
-    geminiConfigured: !!config.geminiApiKey
+if (config.nodeEnv !== 'test') {
+  // Loads the keys now, so a bad keys file or a missing key fails loudly at startup
+  const authEnabled = isAuthEnabled();
+
+  const server = app.listen(config.port, () => {
+    logger.info(`AI Service started on port ${config.port}`, {
+      environment: config.nodeEnv,
+      geminiConfigured: !!config.geminiApiKey,
+      authEnabled
+    });
   });
-});
 
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    logger.info('Server closed');
-    process.exit(0);
+  // The worker retries provisioning before processing jobs if this fails
+  provisionCollection().catch((error) => {
+    logger.error('Failed to provision embedding collection', { error: (error as Error).message });
   });
-});
+
+  startEmbeddingWorker().catch((error) => {
+    logger.error('Failed to start embedding worker', { error: (error as Error).message });
+  });
+
+  startRetentionWorker();
+
+  process.on('SIGTERM', () => {
+    logger.info('SIGTERM received, shutting down gracefully');
+    stopEmbeddingWorker();
+    stopRetentionWorker();
+    server.close(() => {
+      logger.info('Server closed');
+      Promise.all([
+        flushUsage().catch((error) => {
+          logger.error('Failed to persist usage', { error: (error as Error).message });
+        }),
+        flushTaxonomy().catch((error) => {
+          logger.error('Failed to persist taxonomy', { error: (error as Error).message });
+        })
+      ]).finally(() => process.exit(0));
+    });
+  });
+}
 
 export default app;
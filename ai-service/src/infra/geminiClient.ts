@@ -1,6 +1,17 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GenerativeModel,
+  UsageMetadata,
+} from "@google/generative-ai";
 import { config } from "../config";
 import { logger } from "../utils/logger";
+import { createCircuitBreaker } from "../utils/circuitBreaker";
+import { retryWithJitter } from "../utils/retry";
+import { llmTokensTotal } from "./metrics";
+import { estimateTokens, recordTokenUsage } from "../services/usageService";
+import { CircuitBreakerStats, LlmProvider } from "../types";
 
 export let genAI: GoogleGenerativeAI | null = null;
 export let model: GenerativeModel | null = null;
@@ -27,3 +38,155 @@ const initialize = (): void => {
 initialize();
 
 export const isGeminiConfigured = (): boolean => isConfigured;
+
+/**
+ * Timeouts, rate limiting, server errors and network failures are worth
+ * retrying; invalid requests and blocked responses are not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    return (
+      error.status === undefined ||
+      error.status === 408 ||
+      error.status === 429 ||
+      error.status >= 500
+    );
+  }
+  // Aborted (timed out) and failed fetches surface as the base error class
+  return (
+    error instanceof GoogleGenerativeAIError &&
+    error.constructor === GoogleGenerativeAIError
+  );
+};
+
+const breaker = createCircuitBreaker("Gemini", {
+  failureThreshold: config.geminiCircuitFailureThreshold,
+  resetTimeoutMs: config.geminiCircuitResetMs,
+});
+
+export const getGeminiCircuitStats = (): CircuitBreakerStats =>
+  breaker.getStats();
+
+const requestOptions = () => ({ timeout: config.geminiTimeoutMs });
+
+// Uses the reported usage metadata, or a local estimate when it is missing
+const recordUsage = (
+  operation: string,
+  usage: UsageMetadata | undefined,
+  prompt: string,
+  completion: string,
+): void => {
+  const promptTokens = usage?.promptTokenCount ?? estimateTokens(prompt);
+  const completionTokens =
+    usage?.candidatesTokenCount ?? estimateTokens(completion);
+
+  llmTokensTotal.inc(
+    { provider: "gemini", operation, type: "prompt" },
+    promptTokens,
+  );
+  llmTokensTotal.inc(
+    { provider: "gemini", operation, type: "completion" },
+    completionTokens,
+  );
+  recordTokenUsage({
+    operation,
+    promptTokens,
+    completionTokens,
+    estimated: !usage,
+  });
+};
+
+/**
+ * Runs a Gemini call with a per-call timeout and jittered retries behind the
+ * circuit breaker. Only retryable failures that survive every retry count
+ * against the breaker.
+ */
+const callGemini = <T>(operation: string, call: () => Promise<T>): Promise<T> =>
+  breaker.execute(
+    () =>
+      retryWithJitter(call, {
+        retries: config.geminiMaxRetries,
+        baseDelayMs: config.geminiRetryBaseMs,
+        maxDelayMs: config.geminiRetryMaxMs,
+        isRetryable: isRetryableError,
+        onRetry: (error, attempt, delayMs) =>
+          logger.warn("Retrying Gemini call", {
+            operation,
+            attempt,
+            delayMs,
+            error: (error as Error).message,
+          }),
+      }),
+    isRetryableError,
+  );
+
+export const geminiProvider: LlmProvider = {
+  name: "gemini",
+  model: config.geminiModel,
+  embeddingsModel: config.geminiEmbeddingsModel,
+  isConfigured: () => isConfigured && !!model,
+  isAvailable: () => breaker.isCallAllowed(),
+  generateText: async ({ operation, prompt }) => {
+    const generative = model;
+    if (!generative) {
+      throw new Error("Gemini model is not configured");
+    }
+
+    return callGemini(operation, async () => {
+      const result = await generative.generateContent(prompt, requestOptions());
+      const text = result.response.text();
+      recordUsage(operation, result.response.usageMetadata, prompt, text);
+      return text;
+    });
+  },
+  generateTextStream: async function* ({ operation, prompt }) {
+    const generative = model;
+    if (!generative) {
+      throw new Error("Gemini model is not configured");
+    }
+
+    // Only opening the stream is retried; chunks already yielded can't be
+    // taken back, so a failure mid-stream just counts against the breaker.
+    const result = await callGemini(operation, () =>
+      generative.generateContentStream(prompt, requestOptions()),
+    );
+
+    let streamed = "";
+    try {
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        streamed += text;
+        yield text;
+      }
+      recordUsage(
+        operation,
+        (await result.response).usageMetadata,
+        prompt,
+        streamed,
+      );
+    } catch (error) {
+      if (isRetryableError(error)) {
+        breaker.recordFailure();
+      }
+      throw error;
+    }
+  },
+  embed: async (text) => {
+    const embedder = embeddingsModel;
+    if (!embedder) {
+      return [];
+    }
+
+    const embeddings = await callGemini("embedding", () =>
+      embedder.embedContent(text, requestOptions()),
+    );
+    // embedContent reports no usage, so embeddings are always estimated
+    recordTokenUsage({
+      operation: "embedding",
+      promptTokens: estimateTokens(text),
+      completionTokens: 0,
+      estimated: true,
+    });
+    return embeddings.embedding.values || [];
+  },
+};
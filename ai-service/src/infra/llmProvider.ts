@@ -0,0 +1,18 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { LlmProvider, LlmProviderName } from "../types";
+import { geminiProvider } from "./geminiClient";
+import { localProvider } from "./localProvider";
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+export const llmProvider: LlmProvider = providers[config.llmProvider];
+
+logger.info("LLM provider selected", {
+  provider: llmProvider.name,
+  model: llmProvider.model,
+  embeddingsModel: llmProvider.embeddingsModel,
+});
@@ -0,0 +1,195 @@
+import { config } from "../config";
+import { GenerationRequest, LlmProvider } from "../types";
+import {
+  estimateEngagement,
+  labelForScore,
+  matchThemes,
+  scoreSentiment,
+} from "../utils/keywordAnalysis";
+import { analyzeAspectWindows } from "../utils/aspectAnalysis";
+
+// Deterministic, network-free provider. It answers the analysis prompts with
+// keyword rules and embeds text by feature hashing, so the full service path
+// (including Qdrant) can be exercised offline.
+
+const STOP_WORDS = new Set([
+  "about",
+  "after",
+  "again",
+  "also",
+  "been",
+  "being",
+  "could",
+  "does",
+  "from",
+  "have",
+  "into",
+  "just",
+  "more",
+  "much",
+  "only",
+  "really",
+  "some",
+  "than",
+  "that",
+  "their",
+  "them",
+  "then",
+  "there",
+  "they",
+  "this",
+  "very",
+  "were",
+  "what",
+  "when",
+  "which",
+  "while",
+  "with",
+  "would",
+  "your",
+]);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const topKeywords = (text: string, limit: number): string[] => {
+  const counts = new Map<string, number>();
+  tokenize(text)
+    .filter(
+      (token) =>
+        token.length >= 4 && token.length <= 30 && !STOP_WORDS.has(token),
+    )
+    .forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+
+  // Map preserves insertion order, so ties keep first-occurrence order.
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([token]) => token);
+};
+
+const extractTags = (text: string): string[] => {
+  const tags = [...matchThemes(text), ...topKeywords(text, 5)];
+  return [...new Set(tags)].slice(0, 5);
+};
+
+const summarize = (text: string): string => {
+  const firstSentence = text.trim().split(/(?<=[.!?])\s+/)[0];
+  if (!firstSentence) return "No summary available";
+  return firstSentence.length > 200
+    ? `${firstSentence.slice(0, 197)}...`
+    : firstSentence;
+};
+
+const suggestActions = (label: string, theme: string): string[] => {
+  if (label === "negative") return [`Follow up on ${theme} concerns`];
+  if (label === "positive") return [`Share ${theme} feedback with the team`];
+  return [`Monitor ${theme} feedback`];
+};
+
+// The ask prompt lists each source as <user_text id="...">text</user_text>
+const SOURCE_TAG = /<user_text id="([^"]+)">\n([\s\S]*?)\n<\/user_text>/g;
+
+// Answers from the source sharing the most keywords with the question
+const answerFromSources = (prompt: string, question: string): object => {
+  const keywords = new Set(topKeywords(question, 10));
+  const sources = [...prompt.matchAll(SOURCE_TAG)].map(([, id, body]) => ({
+    id,
+    body,
+    overlap: topKeywords(body, 20).filter((word) => keywords.has(word)).length,
+  }));
+  if (sources.length === 0) {
+    return {
+      answered: false,
+      answer: "No feedback was provided to answer from.",
+      citations: [],
+    };
+  }
+
+  const best = [...sources].sort((a, b) => b.overlap - a.overlap)[0];
+  return {
+    answered: true,
+    answer: `Customers say: ${summarize(best.body)}`,
+    citations: [best.id],
+  };
+};
+
+const respond = ({ operation, prompt, text }: GenerationRequest): object => {
+  const score = scoreSentiment(text);
+  const label = labelForScore(score);
+  const tags = extractTags(text);
+  const primaryTheme = tags[0] || "general";
+
+  switch (operation) {
+    case "sentiment":
+      return { score, label, confidence: 0.6 };
+    case "tags":
+      return { tags, primaryTheme };
+    case "insights":
+      return {
+        sentimentScore: score,
+        sentimentLabel: label,
+        tags,
+        engagementLevel: estimateEngagement(text),
+        summary: summarize(text),
+        actionItems: suggestActions(label, primaryTheme),
+      };
+    case "themes":
+      return {
+        label: topKeywords(text, 2).join(" / ") || primaryTheme,
+        description: `Feedback mentioning ${tags.slice(0, 3).join(", ") || "general topics"}`,
+      };
+    case "aspects":
+      return {
+        aspects: analyzeAspectWindows(text, config.sentimentAspects).map(
+          ({ span, ...aspect }) => ({ ...aspect, span: span.text }),
+        ),
+      };
+    case "ask":
+      return answerFromSources(prompt, text);
+  }
+};
+
+export const embedLocally = (text: string): number[] => {
+  const dimensions = config.localEmbeddingDimensions;
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+  const features = [
+    ...tokens,
+    ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+  ];
+
+  features.forEach((feature) => {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+};
+
+export const localProvider: LlmProvider = {
+  name: "local",
+  model: "local-rules-v1",
+  embeddingsModel: `local-hash-${config.localEmbeddingDimensions}`,
+  isConfigured: () => true,
+  isAvailable: () => true,
+  generateText: async (request) => JSON.stringify(respond(request)),
+  // Emits the same JSON in fixed-size pieces to mimic token streaming
+  generateTextStream: async function* (request) {
+    const text = JSON.stringify(respond(request));
+    for (let i = 0; i < text.length; i += 16) {
+      yield text.slice(i, i + 16);
+    }
+  },
+  embed: async (text) => embedLocally(text),
+};
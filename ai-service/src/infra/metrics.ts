@@ -0,0 +1,73 @@
+import {
+  Counter,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+// All metrics live on one registry served by GET /metrics. Label values are
+// kept to small fixed sets (route patterns, operations, outcomes) so series
+// counts stay bounded.
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: "ai_service_" });
+
+export const httpRequestsTotal = new Counter({
+  name: "ai_service_http_requests_total",
+  help: "HTTP requests by route and status",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "ai_service_http_request_duration_seconds",
+  help: "HTTP request latency by route and status",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const llmRequestDuration = new Histogram({
+  name: "ai_service_llm_request_duration_seconds",
+  help: "LLM provider call latency by operation and outcome",
+  labelNames: ["provider", "operation", "outcome"] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30],
+  registers: [registry],
+});
+
+export const llmErrorsTotal = new Counter({
+  name: "ai_service_llm_errors_total",
+  help: "Failed LLM provider calls by operation",
+  labelNames: ["provider", "operation"] as const,
+  registers: [registry],
+});
+
+export const llmTokensTotal = new Counter({
+  name: "ai_service_llm_tokens_total",
+  help: "Tokens reported by the LLM provider by operation and type",
+  labelNames: ["provider", "operation", "type"] as const,
+  registers: [registry],
+});
+
+export const analysisResultsTotal = new Counter({
+  name: "ai_service_analysis_results_total",
+  help: "Analysis results by operation and whether the keyword fallback produced them",
+  labelNames: ["operation", "fallback"] as const,
+  registers: [registry],
+});
+
+export const embeddingJobsTotal = new Counter({
+  name: "ai_service_embedding_jobs_total",
+  help: "Embedding job attempts by outcome",
+  labelNames: ["outcome"] as const,
+  registers: [registry],
+});
+
+export const qdrantUpsertDuration = new Histogram({
+  name: "ai_service_qdrant_upsert_duration_seconds",
+  help: "Qdrant upsert latency by outcome",
+  labelNames: ["outcome"] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
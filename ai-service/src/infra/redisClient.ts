@@ -0,0 +1,20 @@
+import Redis from "ioredis";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+
+export let redisClient: Redis | null = null;
+
+export const getRedisClient = (): Redis => {
+  if (!redisClient) {
+    redisClient = new Redis(config.redisUrl, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    });
+
+    redisClient.on("error", (error) => {
+      logger.warn("Redis connection error", { error: error.message });
+    });
+  }
+
+  return redisClient;
+};
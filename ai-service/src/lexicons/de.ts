@@ -0,0 +1,34 @@
+import { Lexicon } from "../types";
+
+export const germanLexicon: Lexicon = {
+  language: "de",
+  positive: [
+    "gut",
+    "toll",
+    "super",
+    "ausgezeichnet",
+    "liebe",
+    "zufrieden",
+    "großartig",
+    "wunderbar",
+    "einfach",
+  ],
+  negative: [
+    "schlecht",
+    "schrecklich",
+    "hasse",
+    "verwirrend",
+    "frustriert",
+    "furchtbar",
+    "ärgerlich",
+    "schwierig",
+  ],
+  themes: {
+    product: ["produkt", "funktion", "funktionalität"],
+    usability: ["bedienbarkeit", "einfach", "schwierig", "verwirrend", "intuitiv"],
+    support: ["support", "hilfe", "kundendienst", "antwort"],
+    onboarding: ["einarbeitung", "einstieg", "tutorial", "anleitung"],
+    performance: ["schnell", "langsam", "leistung", "geschwindigkeit"],
+    pricing: ["preis", "kosten", "teuer", "günstig"],
+  },
+};
@@ -0,0 +1,33 @@
+import { Lexicon } from "../types";
+
+export const englishLexicon: Lexicon = {
+  language: "en",
+  positive: [
+    "good",
+    "great",
+    "excellent",
+    "love",
+    "enjoy",
+    "happy",
+    "amazing",
+    "wonderful",
+  ],
+  negative: [
+    "bad",
+    "poor",
+    "terrible",
+    "hate",
+    "confusing",
+    "frustrated",
+    "awful",
+    "horrible",
+  ],
+  themes: {
+    product: ["product", "feature", "functionality"],
+    usability: ["usability", "easy", "difficult", "confusing", "intuitive"],
+    support: ["support", "help", "service", "response"],
+    onboarding: ["onboarding", "getting started", "tutorial", "learning"],
+    performance: ["fast", "slow", "performance", "speed"],
+    pricing: ["price", "cost", "expensive", "cheap", "value"],
+  },
+};
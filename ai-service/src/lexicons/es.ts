@@ -0,0 +1,35 @@
+import { Lexicon } from "../types";
+
+export const spanishLexicon: Lexicon = {
+  language: "es",
+  positive: [
+    "bueno",
+    "buena",
+    "excelente",
+    "genial",
+    "encanta",
+    "feliz",
+    "increíble",
+    "maravilloso",
+    "fácil",
+  ],
+  negative: [
+    "malo",
+    "mala",
+    "terrible",
+    "odio",
+    "confuso",
+    "frustrado",
+    "horrible",
+    "pésimo",
+    "difícil",
+  ],
+  themes: {
+    product: ["producto", "función", "funcionalidad"],
+    usability: ["usabilidad", "fácil", "difícil", "confuso", "intuitivo"],
+    support: ["soporte", "ayuda", "servicio", "atención", "respuesta"],
+    onboarding: ["incorporación", "primeros pasos", "tutorial", "aprendizaje"],
+    performance: ["rápido", "lento", "rendimiento", "velocidad"],
+    pricing: ["precio", "costo", "coste", "caro", "barato"],
+  },
+};
@@ -0,0 +1,36 @@
+import { Lexicon } from "../types";
+
+export const frenchLexicon: Lexicon = {
+  language: "fr",
+  positive: [
+    "bon",
+    "bonne",
+    "excellent",
+    "génial",
+    "adore",
+    "content",
+    "heureux",
+    "incroyable",
+    "merveilleux",
+    "facile",
+  ],
+  negative: [
+    "mauvais",
+    "mauvaise",
+    "terrible",
+    "déteste",
+    "confus",
+    "frustré",
+    "horrible",
+    "nul",
+    "difficile",
+  ],
+  themes: {
+    product: ["produit", "fonctionnalité"],
+    usability: ["ergonomie", "facile", "difficile", "confus", "intuitif"],
+    support: ["support", "aide", "service", "assistance", "réponse"],
+    onboarding: ["prise en main", "démarrage", "tutoriel", "apprentissage"],
+    performance: ["rapide", "lent", "performance", "vitesse"],
+    pricing: ["prix", "coût", "cher", "tarif"],
+  },
+};
@@ -0,0 +1,32 @@
+import { Lexicon } from "../types";
+import { englishLexicon } from "./en";
+import { spanishLexicon } from "./es";
+import { frenchLexicon } from "./fr";
+import { germanLexicon } from "./de";
+import { portugueseLexicon } from "./pt";
+
+// Keyword lexicons used by the fallback analysis, keyed by ISO 639-1 code.
+// Theme keys are the canonical English tags; each language lists its own
+// keywords for them. Languages without a lexicon use English.
+
+export const DEFAULT_LANGUAGE = "en";
+
+const lexicons = new Map<string, Lexicon>();
+
+export const registerLexicon = (lexicon: Lexicon): void => {
+  lexicons.set(lexicon.language, lexicon);
+};
+
+export const getLexicon = (language?: string): Lexicon =>
+  (language && lexicons.get(language)) ||
+  (lexicons.get(DEFAULT_LANGUAGE) as Lexicon);
+
+export const listLexicons = (): Lexicon[] => [...lexicons.values()];
+
+[
+  englishLexicon,
+  spanishLexicon,
+  frenchLexicon,
+  germanLexicon,
+  portugueseLexicon,
+].forEach(registerLexicon);
@@ -0,0 +1,34 @@
+import { Lexicon } from "../types";
+
+export const portugueseLexicon: Lexicon = {
+  language: "pt",
+  positive: [
+    "bom",
+    "boa",
+    "ótimo",
+    "excelente",
+    "adoro",
+    "feliz",
+    "incrível",
+    "maravilhoso",
+    "fácil",
+  ],
+  negative: [
+    "ruim",
+    "péssimo",
+    "terrível",
+    "odeio",
+    "confuso",
+    "frustrado",
+    "horrível",
+    "difícil",
+  ],
+  themes: {
+    product: ["produto", "recurso", "funcionalidade"],
+    usability: ["usabilidade", "fácil", "difícil", "confuso", "intuitivo"],
+    support: ["suporte", "ajuda", "atendimento", "resposta"],
+    onboarding: ["integração", "primeiros passos", "tutorial", "aprendizado"],
+    performance: ["rápido", "lento", "desempenho", "velocidade"],
+    pricing: ["preço", "custo", "caro", "barato"],
+  },
+};
@@ -0,0 +1,79 @@
+import { Response, NextFunction } from 'express';
+import { findClientByKey, isAuthEnabled } from '../services/apiKeyService';
+import { ApiResponse, ApiScope, CorrelatedRequest } from '../types';
+
+const sendError = (
+  req: CorrelatedRequest,
+  res: Response,
+  statusCode: number,
+  message: string,
+  code: string
+): void => {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: { message, code },
+    correlationId: req.correlationId
+  };
+  res.status(statusCode).json(response);
+};
+
+// Accepts "X-API-Key: <key>" or "Authorization: Bearer <key>"
+const readApiKey = (req: CorrelatedRequest): string | undefined => {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+};
+
+export const apiKeyAuth = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!isAuthEnabled()) {
+    next();
+    return;
+  }
+
+  const key = readApiKey(req);
+  if (!key) {
+    sendError(req, res, 401, 'API key required', 'UNAUTHORIZED');
+    return;
+  }
+
+  const client = findClientByKey(key);
+  if (!client) {
+    sendError(req, res, 401, 'Invalid API key', 'UNAUTHORIZED');
+    return;
+  }
+
+  req.apiClient = client;
+  next();
+};
+
+// Scopes that erase or rebuild stored data are never open, even while
+// authentication is disabled
+const KEY_ONLY_SCOPES: ApiScope[] = ['admin', 'privacy'];
+
+/**
+ * Rejects authenticated clients that lack `scope`. While authentication is
+ * disabled only the key-only scopes are refused.
+ */
+export const requireScope = (scope: ApiScope) => (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.apiClient && KEY_ONLY_SCOPES.includes(scope)) {
+    sendError(req, res, 403, `The '${scope}' scope requires an API key`, 'FORBIDDEN');
+    return;
+  }
+  if (req.apiClient && !req.apiClient.scopes.includes(scope)) {
+    sendError(req, res, 403, `API key lacks the '${scope}' scope`, 'FORBIDDEN');
+    return;
+  }
+  next();
+};
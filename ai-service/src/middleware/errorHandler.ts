@@ -1,12 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
 import { CorrelatedRequest, ApiResponse } from '../types';
 
-interface AppError extends Error {
-  statusCode?: number;
-  code?: string;
-}
-
 export const errorHandler = (
   err: AppError,
   req: CorrelatedRequest,
@@ -0,0 +1,29 @@
+import { Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequestsTotal } from '../infra/metrics';
+import { CorrelatedRequest } from '../types';
+
+/**
+ * Records request count and latency once the response is sent. Routes are
+ * labelled by their pattern (/api/ai/jobs/:id), never the raw URL.
+ */
+export const metricsMiddleware = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = {
+      method: req.method,
+      route,
+      status: String(res.statusCode)
+    };
+
+    httpRequestsTotal.inc(labels);
+    stopTimer(labels);
+  });
+
+  next();
+};
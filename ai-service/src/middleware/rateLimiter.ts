@@ -0,0 +1,45 @@
+import { Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { createTokenBucketLimiter } from '../utils/tokenBucket';
+import { ApiResponse, CorrelatedRequest } from '../types';
+
+const limiter = createTokenBucketLimiter();
+
+/**
+ * Token-bucket rate limit per API key. Runs after apiKeyAuth; requests are
+ * not limited while authentication is disabled.
+ */
+export const rateLimiter = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.apiClient) {
+    next();
+    return;
+  }
+
+  const result = limiter.take(req.apiClient.name, req.apiClient.rateLimit);
+
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', result.resetSeconds);
+
+  if (!result.allowed) {
+    logger.warn('Rate limit exceeded', {
+      correlationId: req.correlationId,
+      client: req.apiClient.name
+    });
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: { message: 'Rate limit exceeded', code: 'RATE_LIMITED' },
+      correlationId: req.correlationId
+    };
+    res.setHeader('Retry-After', result.retryAfterSeconds);
+    res.status(429).json(response);
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,58 @@
+import { Response, NextFunction } from 'express';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { runWithRequestContext } from '../utils/requestContext';
+import { ANONYMOUS_CLIENT, getBudgetStatus } from '../services/usageService';
+import { ApiResponse, CorrelatedRequest } from '../types';
+
+const REJECT_STATUS = {
+  payment_required: 402,
+  rate_limited: 429
+};
+
+/**
+ * Applies the caller's daily usage budget to a model-backed route and runs
+ * the rest of the request in a context that attributes token usage to the
+ * caller and route. Once the budget is used up the request is either
+ * rejected or limited to keyword fallback results.
+ */
+export const enforceBudget = (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const client = req.apiClient?.name || ANONYMOUS_CLIENT;
+  const budget = req.apiClient?.budget || config.usageBudget;
+  const status = getBudgetStatus(client, budget);
+
+  if (status.exceeded) {
+    logger.warn('Usage budget exceeded', {
+      correlationId: req.correlationId,
+      client,
+      tokensUsed: status.tokensUsed,
+      costUsd: status.costUsd,
+      action: budget.action
+    });
+
+    if (budget.action !== 'fallback') {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: { message: 'Daily usage budget exceeded', code: 'BUDGET_EXCEEDED' },
+        correlationId: req.correlationId
+      };
+      res.status(REJECT_STATUS[budget.action]).json(response);
+      return;
+    }
+
+    res.setHeader('X-Budget-Exceeded', 'fallback');
+  }
+
+  runWithRequestContext(
+    {
+      client,
+      endpoint: `${req.baseUrl}${req.route?.path || req.path}`,
+      fallbackOnly: status.exceeded
+    },
+    next
+  );
+};
@@ -1,20 +1,357 @@
 import { Router, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import {
+  checkSchema,
+  ParamSchema,
+  Schema,
+  validationResult
+} from 'express-validator';
 import * as aiController from '../controllers/aiController';
+import { requireScope } from '../middleware/apiKeyAuth';
+import { enforceBudget } from '../middleware/usageBudget';
+import { config } from '../config';
 import { CorrelatedRequest, ApiResponse } from '../types';
 
 const router = Router();
 
-// Validation rules for text input
-const validateText = [
-  body('text')
-    .notEmpty()
-    .withMessage('Text is required')
-    .isString()
-    .withMessage('Text must be a string')
-    .isLength({ min: 1, max: 10000 })
-    .withMessage('Text must be between 1 and 10000 characters')
-];
+// Request schemas. They drive the validators below and the request side of
+// the OpenAPI document, so each rule is declared once.
+
+// Schema for a text field
+const textField: ParamSchema = {
+  notEmpty: { errorMessage: 'Text is required' },
+  isString: { errorMessage: 'Text must be a string' },
+  isLength: {
+    options: { min: 1, max: 10000 },
+    errorMessage: 'Text must be between 1 and 10000 characters'
+  }
+};
+
+// Schema for an optional pinned prompt version
+const promptVersionField: ParamSchema = {
+  optional: true,
+  isString: true,
+  matches: {
+    options: /^[\w.-]+$/,
+    errorMessage: 'promptVersion must be a version name such as "v1"'
+  }
+};
+
+// Schema for the language of generated insights text
+const outputLanguageField: ParamSchema = {
+  optional: true,
+  isString: true,
+  matches: {
+    options: /^[a-z]{2}$/,
+    errorMessage: 'outputLanguage must be an ISO 639-1 code such as "es"'
+  }
+};
+
+// Schema for taxonomy tag terms
+const taxonomyTermField = (field: string): ParamSchema => ({
+  isString: true,
+  trim: true,
+  toLowerCase: true,
+  isLength: {
+    options: { min: 1, max: 50 },
+    errorMessage: `${field} must be a string of 1 to 50 characters`
+  }
+});
+
+const isoDateField: ParamSchema = {
+  optional: true,
+  isISO8601: { errorMessage: 'Date filters must be ISO 8601 timestamps' }
+};
+
+const sentimentFilterField: ParamSchema = {
+  optional: true,
+  isFloat: {
+    options: { min: -1, max: 1 },
+    errorMessage: 'Sentiment filters must be between -1 and 1'
+  },
+  toFloat: true
+};
+
+// Stored-feedback filters
+const filterFields: Schema = {
+  filters: {
+    optional: true,
+    isObject: { errorMessage: 'Filters must be an object' }
+  },
+  'filters.userId': {
+    optional: true,
+    isString: { errorMessage: 'userId filter must be a string' }
+  },
+  'filters.minSentiment': sentimentFilterField,
+  'filters.maxSentiment': sentimentFilterField,
+  'filters.tags': {
+    optional: true,
+    isArray: { errorMessage: 'Tags filter must be an array of strings' }
+  },
+  'filters.tags.*': {
+    isString: { errorMessage: 'Tags filter must be an array of strings' }
+  },
+  'filters.from': isoDateField,
+  'filters.to': isoDateField,
+  'filters.spam': {
+    optional: true,
+    isBoolean: { errorMessage: 'Spam filter must be a boolean' },
+    toBoolean: true
+  },
+  'filters.duplicates': {
+    optional: true,
+    isBoolean: { errorMessage: 'Duplicates filter must be a boolean' },
+    toBoolean: true
+  }
+};
+
+const analysisSchema: Schema = {
+  text: textField,
+  promptVersion: promptVersionField
+};
+
+const usageDateField: ParamSchema = {
+  optional: true,
+  matches: {
+    options: /^\d{4}-\d{2}-\d{2}$/,
+    errorMessage: 'Dates must be formatted as YYYY-MM-DD'
+  },
+  isISO8601: {
+    options: { strict: true },
+    errorMessage: 'Dates must be valid calendar dates'
+  }
+};
+
+const usageFilterField: ParamSchema = {
+  optional: true,
+  isString: { errorMessage: 'Client and endpoint filters must be strings' }
+};
+
+const taxonomyTagSchema: Schema = {
+  description: {
+    optional: true,
+    isString: true,
+    isLength: {
+      options: { max: 500 },
+      errorMessage: 'Description must be a string of at most 500 characters'
+    }
+  },
+  synonyms: {
+    optional: true,
+    isArray: {
+      options: { max: 100 },
+      errorMessage: 'Synonyms must be an array of at most 100 entries'
+    }
+  },
+  'synonyms.*': taxonomyTermField('synonyms.*'),
+  parent: { optional: true, ...taxonomyTermField('parent') }
+};
+
+export const requestSchemas = {
+  text: { text: textField } as Schema,
+  analysis: analysisSchema,
+  // Insights can be written in another language
+  insights: { ...analysisSchema, outputLanguage: outputLanguageField } as Schema,
+  aspects: {
+    ...analysisSchema,
+    aspects: {
+      optional: true,
+      isArray: {
+        options: { min: 1, max: 20 },
+        errorMessage: 'Aspects must be an array of 1 to 20 names'
+      }
+    },
+    'aspects.*': {
+      isString: true,
+      trim: true,
+      isLength: {
+        options: { min: 1, max: 50 },
+        errorMessage: 'Each aspect must be a string of 1 to 50 characters'
+      }
+    },
+    freeForm: {
+      optional: true,
+      isBoolean: { errorMessage: 'freeForm must be a boolean' },
+      toBoolean: true
+    }
+  } as Schema,
+  // The batch envelope; items are checked one by one against batchItem
+  batch: {
+    items: {
+      isArray: {
+        options: { min: 1, max: config.batchMaxItems },
+        errorMessage: `Items must be an array of 1 to ${config.batchMaxItems} entries`
+      }
+    },
+    fallback: {
+      optional: true,
+      isBoolean: { errorMessage: 'Fallback must be a boolean' },
+      toBoolean: true
+    },
+    promptVersion: promptVersionField,
+    outputLanguage: outputLanguageField
+  } as Schema,
+  batchItem: {
+    id: {
+      notEmpty: { errorMessage: 'Item id is required' },
+      isString: { errorMessage: 'Item id must be a string' }
+    },
+    text: textField,
+    userId: {
+      optional: true,
+      isString: { errorMessage: 'userId must be a string' }
+    }
+  } as Schema,
+  search: {
+    text: textField,
+    limit: {
+      optional: true,
+      isInt: {
+        options: { min: 1, max: 50 },
+        errorMessage: 'Limit must be an integer between 1 and 50'
+      },
+      toInt: true
+    },
+    scoreThreshold: {
+      optional: true,
+      isFloat: {
+        options: { min: 0, max: 1 },
+        errorMessage: 'Score threshold must be between 0 and 1'
+      },
+      toFloat: true
+    },
+    ...filterFields
+  } as Schema,
+  ask: {
+    question: {
+      notEmpty: { errorMessage: 'Question is required' },
+      isString: { errorMessage: 'Question must be a string' },
+      isLength: {
+        options: { min: 1, max: 1000 },
+        errorMessage: 'Question must be between 1 and 1000 characters'
+      }
+    },
+    limit: {
+      optional: true,
+      isInt: {
+        options: { min: 1, max: 20 },
+        errorMessage: 'Limit must be an integer between 1 and 20'
+      },
+      toInt: true
+    },
+    scoreThreshold: {
+      optional: true,
+      isFloat: {
+        options: { min: 0, max: 1 },
+        errorMessage: 'Score threshold must be between 0 and 1'
+      },
+      toFloat: true
+    },
+    ...filterFields
+  } as Schema,
+  themeDiscovery: {
+    k: {
+      optional: true,
+      isInt: {
+        options: { min: 2, max: 20 },
+        errorMessage: 'k must be an integer between 2 and 20'
+      },
+      toInt: true
+    },
+    limit: {
+      optional: true,
+      isInt: {
+        options: { min: 1, max: config.themeMaxPoints },
+        errorMessage: `Limit must be an integer between 1 and ${config.themeMaxPoints}`
+      },
+      toInt: true
+    },
+    examplesPerCluster: {
+      optional: true,
+      isInt: {
+        options: { min: 1, max: 10 },
+        errorMessage: 'examplesPerCluster must be an integer between 1 and 10'
+      },
+      toInt: true
+    },
+    ...filterFields
+  } as Schema,
+  trends: {
+    interval: {
+      optional: true,
+      isIn: {
+        options: [['day', 'week', 'month']],
+        errorMessage: 'Interval must be one of: day, week, month'
+      }
+    },
+    from: isoDateField,
+    to: isoDateField
+  } as Schema,
+  // The id comes from the path on update
+  taxonomyTag: taxonomyTagSchema,
+  taxonomyCreate: { id: taxonomyTermField('id'), ...taxonomyTagSchema } as Schema,
+  usage: {
+    from: usageDateField,
+    to: usageDateField,
+    client: usageFilterField,
+    endpoint: usageFilterField
+  } as Schema
+};
+
+const validateText = checkSchema(requestSchemas.text, ['body']);
+const validateAnalysis = checkSchema(requestSchemas.analysis, ['body']);
+const validateInsights = checkSchema(requestSchemas.insights, ['body']);
+const validateAspects = checkSchema(requestSchemas.aspects, ['body']);
+const validateBatch = checkSchema(requestSchemas.batch, ['body']);
+const batchItemRules = checkSchema(requestSchemas.batchItem, ['body']);
+const validateSearch = checkSchema(requestSchemas.search, ['body']);
+const validateAsk = checkSchema(requestSchemas.ask, ['body']);
+const validateThemeDiscovery = checkSchema(requestSchemas.themeDiscovery, [
+  'body'
+]);
+const validateTrends = checkSchema(requestSchemas.trends, ['query']);
+const validateTaxonomyTag = checkSchema(requestSchemas.taxonomyTag, ['body']);
+const validateTaxonomyCreate = checkSchema(requestSchemas.taxonomyCreate, [
+  'body'
+]);
+const validateUsage = checkSchema(requestSchemas.usage, ['query']);
+
+// Runs the item rules against every batch item and records failures in
+// res.locals.invalidItems instead of rejecting the whole request
+const validateBatchItems = async (
+  req: CorrelatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const items = req.body.items as unknown[];
+    const invalidItems: Record<number, string> = {};
+
+    await Promise.all(
+      items.map(async (item, index) => {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+          // Replaced so later steps can read the (missing) item fields
+          items[index] = {};
+          invalidItems[index] = 'Item must be an object';
+          return;
+        }
+
+        const messages: string[] = [];
+        for (const rule of batchItemRules) {
+          const result = await rule.run({ body: item });
+          messages.push(...result.array().map((error) => String(error.msg)));
+        }
+        if (messages.length > 0) {
+          invalidItems[index] = messages.join('; ');
+        }
+      })
+    );
+
+    res.locals.invalidItems = invalidItems;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
 // Validation error handler
 const handleValidation = (
@@ -41,23 +378,205 @@ const handleValidation = (
 // Routes
 router.post(
   '/sentiment',
-  validateText,
+  requireScope('sentiment'),
+  enforceBudget,
+  validateAnalysis,
   handleValidation,
   aiController.analyzeSentiment
 );
 
+router.post(
+  '/sentiment/aspects',
+  requireScope('sentiment'),
+  enforceBudget,
+  validateAspects,
+  handleValidation,
+  aiController.analyzeAspects
+);
+
 router.post(
   '/tags',
-  validateText,
+  requireScope('tags'),
+  enforceBudget,
+  validateAnalysis,
   handleValidation,
   aiController.extractTags
 );
 
 router.post(
   '/insights',
-  validateText,
+  requireScope('insights'),
+  enforceBudget,
+  validateInsights,
   handleValidation,
   aiController.generateInsights
 );
 
+router.post(
+  '/insights/stream',
+  requireScope('insights'),
+  enforceBudget,
+  validateInsights,
+  handleValidation,
+  aiController.streamInsights
+);
+
+router.post(
+  '/sentiment/batch',
+  requireScope('sentiment'),
+  enforceBudget,
+  validateBatch,
+  handleValidation,
+  validateBatchItems,
+  aiController.analyzeSentimentBatch
+);
+
+router.post(
+  '/tags/batch',
+  requireScope('tags'),
+  enforceBudget,
+  validateBatch,
+  handleValidation,
+  validateBatchItems,
+  aiController.extractTagsBatch
+);
+
+router.post(
+  '/insights/batch',
+  requireScope('insights'),
+  enforceBudget,
+  validateBatch,
+  handleValidation,
+  validateBatchItems,
+  aiController.generateInsightsBatch
+);
+
+router.post(
+  '/search',
+  requireScope('search'),
+  enforceBudget,
+  validateSearch,
+  handleValidation,
+  aiController.searchFeedback
+);
+
+router.post(
+  '/ask',
+  requireScope('search'),
+  enforceBudget,
+  validateAsk,
+  handleValidation,
+  aiController.askQuestion
+);
+
+router.post(
+  '/themes/discover',
+  requireScope('search'),
+  enforceBudget,
+  validateThemeDiscovery,
+  handleValidation,
+  aiController.discoverThemes
+);
+
+router.get(
+  '/users/:userId/trends',
+  requireScope('search'),
+  validateTrends,
+  handleValidation,
+  aiController.getUserTrends
+);
+
+router.get(
+  '/users/:userId/data',
+  requireScope('privacy'),
+  aiController.exportUserData
+);
+
+router.delete(
+  '/users/:userId/data',
+  requireScope('privacy'),
+  aiController.purgeUserData
+);
+
+router.post(
+  '/pii',
+  validateText,
+  handleValidation,
+  aiController.scanPii
+);
+
+router.get('/prompts', aiController.listPrompts);
+
+router.get(
+  '/jobs/dead-letter',
+  requireScope('insights'),
+  aiController.listDeadLetterJobs
+);
+
+router.post(
+  '/jobs/dead-letter/replay',
+  requireScope('insights'),
+  aiController.replayDeadLetterJobs
+);
+
+router.get('/jobs/:id', requireScope('insights'), aiController.getEmbeddingJob);
+
+router.post(
+  '/jobs/:id/replay',
+  requireScope('insights'),
+  aiController.replayEmbeddingJob
+);
+
+router.get(
+  '/collection',
+  requireScope('admin'),
+  aiController.getCollectionStatus
+);
+
+router.post(
+  '/collection/reindex',
+  requireScope('admin'),
+  aiController.reindexCollection
+);
+
+router.get('/usage', validateUsage, handleValidation, aiController.getUsage);
+
+router.get('/taxonomy', requireScope('taxonomy'), aiController.listTaxonomy);
+
+router.get(
+  '/taxonomy/candidates',
+  requireScope('taxonomy'),
+  aiController.listTaxonomyCandidates
+);
+
+router.delete(
+  '/taxonomy/candidates/:tag',
+  requireScope('taxonomy'),
+  aiController.dismissTaxonomyCandidate
+);
+
+router.post(
+  '/taxonomy',
+  requireScope('taxonomy'),
+  validateTaxonomyCreate,
+  handleValidation,
+  aiController.createTaxonomyTag
+);
+
+router.get('/taxonomy/:id', requireScope('taxonomy'), aiController.getTaxonomyTag);
+
+router.put(
+  '/taxonomy/:id',
+  requireScope('taxonomy'),
+  validateTaxonomyTag,
+  handleValidation,
+  aiController.updateTaxonomyTag
+);
+
+router.delete(
+  '/taxonomy/:id',
+  requireScope('taxonomy'),
+  aiController.deleteTaxonomyTag
+);
+
 export default router;
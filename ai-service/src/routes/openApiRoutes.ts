@@ -0,0 +1,321 @@
+import { Router, Request, Response } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { requestSchemas } from './aiRoutes';
+import {
+  buildOpenApiDocument,
+  JsonSchema,
+  RouteDoc
+} from '../services/openApiService';
+
+const router = Router();
+
+// One entry per route; the contract tests check this list against the
+// routers so a new route cannot ship undocumented
+export const routeDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/health',
+    summary: 'Service health',
+    tag: 'Operations',
+    public: true,
+    response: 'HealthStatus'
+  },
+  {
+    method: 'get',
+    path: '/metrics',
+    summary: 'Prometheus metrics',
+    tag: 'Operations',
+    public: true,
+    contentType: 'text/plain'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/sentiment',
+    summary: 'Analyze sentiment',
+    tag: 'Analysis',
+    scope: 'sentiment',
+    budget: true,
+    body: requestSchemas.analysis,
+    response: 'SentimentResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/sentiment/aspects',
+    summary: 'Analyze sentiment per aspect',
+    tag: 'Analysis',
+    scope: 'sentiment',
+    budget: true,
+    body: requestSchemas.aspects,
+    response: 'AspectSentimentResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/tags',
+    summary: 'Extract tags',
+    tag: 'Analysis',
+    scope: 'tags',
+    budget: true,
+    body: requestSchemas.analysis,
+    response: 'TagExtractionResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/insights',
+    summary: 'Generate insights',
+    tag: 'Analysis',
+    scope: 'insights',
+    budget: true,
+    body: requestSchemas.insights,
+    response: 'InsightsResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/insights/stream',
+    summary: 'Stream insights as server-sent events',
+    tag: 'Analysis',
+    scope: 'insights',
+    budget: true,
+    body: requestSchemas.insights,
+    contentType: 'text/event-stream'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/sentiment/batch',
+    summary: 'Analyze sentiment for a batch of texts',
+    tag: 'Batch',
+    scope: 'sentiment',
+    budget: true,
+    body: requestSchemas.batch,
+    response: 'SentimentBatchResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/tags/batch',
+    summary: 'Extract tags for a batch of texts',
+    tag: 'Batch',
+    scope: 'tags',
+    budget: true,
+    body: requestSchemas.batch,
+    response: 'TagsBatchResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/insights/batch',
+    summary: 'Generate insights for a batch of texts',
+    tag: 'Batch',
+    scope: 'insights',
+    budget: true,
+    body: requestSchemas.batch,
+    response: 'InsightsBatchResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/search',
+    summary: 'Search stored feedback by similarity',
+    tag: 'Search',
+    scope: 'search',
+    budget: true,
+    body: requestSchemas.search,
+    response: 'FeedbackSearchResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/ask',
+    summary: 'Answer a question from stored feedback, citing sources',
+    tag: 'Search',
+    scope: 'search',
+    budget: true,
+    body: requestSchemas.ask,
+    response: 'AskResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/themes/discover',
+    summary: 'Cluster stored feedback into themes',
+    tag: 'Search',
+    scope: 'search',
+    budget: true,
+    body: requestSchemas.themeDiscovery,
+    response: 'ThemeDiscoveryResult'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/users/:userId/trends',
+    summary: 'Sentiment and engagement trends for a user',
+    tag: 'Search',
+    scope: 'search',
+    query: requestSchemas.trends,
+    response: 'UserTrendsResult'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/users/:userId/data',
+    summary: "Export a user's stored feedback",
+    tag: 'Privacy',
+    scope: 'privacy',
+    response: 'UserDataExport'
+  },
+  {
+    method: 'delete',
+    path: '/api/ai/users/:userId/data',
+    summary: "Erase a user's stored feedback",
+    tag: 'Privacy',
+    scope: 'privacy',
+    response: 'UserDataPurgeResult'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/pii',
+    summary: 'Detect and redact personal data',
+    tag: 'Analysis',
+    body: requestSchemas.text,
+    response: 'PiiScanResult'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/prompts',
+    summary: 'List loaded prompt templates',
+    tag: 'Operations',
+    response: 'PromptTemplateList'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/jobs/dead-letter',
+    summary: 'List dead-lettered embedding jobs',
+    tag: 'Jobs',
+    scope: 'insights',
+    response: 'EmbeddingJobSummaryList'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/jobs/dead-letter/replay',
+    summary: 'Replay all dead-lettered embedding jobs',
+    tag: 'Jobs',
+    scope: 'insights',
+    response: 'EmbeddingJobSummaryList',
+    status: 202
+  },
+  {
+    method: 'get',
+    path: '/api/ai/jobs/:id',
+    summary: 'Get an embedding job',
+    tag: 'Jobs',
+    scope: 'insights',
+    response: 'EmbeddingJobSummary'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/jobs/:id/replay',
+    summary: 'Replay a dead-lettered embedding job',
+    tag: 'Jobs',
+    scope: 'insights',
+    response: 'EmbeddingJobSummary',
+    status: 202
+  },
+  {
+    method: 'get',
+    path: '/api/ai/collection',
+    summary: 'Embedding collection state and re-index progress',
+    tag: 'Operations',
+    scope: 'admin',
+    response: 'CollectionStatus'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/collection/reindex',
+    summary: 'Re-embed stored feedback into a new collection version',
+    tag: 'Operations',
+    scope: 'admin',
+    response: 'ReindexProgress',
+    status: 202
+  },
+  {
+    method: 'get',
+    path: '/api/ai/usage',
+    summary: 'Token usage and cost report',
+    tag: 'Operations',
+    query: requestSchemas.usage,
+    response: 'UsageReport'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/taxonomy',
+    summary: 'List canonical tags',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    response: 'TaxonomyTagList'
+  },
+  {
+    method: 'get',
+    path: '/api/ai/taxonomy/candidates',
+    summary: 'List tags awaiting review',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    response: 'TaxonomyCandidateList'
+  },
+  {
+    method: 'delete',
+    path: '/api/ai/taxonomy/candidates/:tag',
+    summary: 'Dismiss a candidate tag',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    response: 'DismissedCandidate'
+  },
+  {
+    method: 'post',
+    path: '/api/ai/taxonomy',
+    summary: 'Create a canonical tag',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    body: requestSchemas.taxonomyCreate,
+    response: 'TaxonomyTag',
+    status: 201
+  },
+  {
+    method: 'get',
+    path: '/api/ai/taxonomy/:id',
+    summary: 'Get a canonical tag and its children',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    response: 'TaxonomyTagDetail'
+  },
+  {
+    method: 'put',
+    path: '/api/ai/taxonomy/:id',
+    summary: 'Update a canonical tag',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    body: requestSchemas.taxonomyTag,
+    response: 'TaxonomyTag'
+  },
+  {
+    method: 'delete',
+    path: '/api/ai/taxonomy/:id',
+    summary: 'Delete a canonical tag',
+    tag: 'Taxonomy',
+    scope: 'taxonomy',
+    response: 'DeletedTaxonomyTag'
+  }
+];
+
+let document: JsonSchema | null = null;
+
+// Built on first use; the routes and schemas are fixed at startup
+export const getOpenApiDocument = (): JsonSchema => {
+  if (!document) {
+    document = buildOpenApiDocument(routeDocs);
+  }
+  return document;
+};
+
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  res.json(getOpenApiDocument());
+});
+
+router.use(
+  '/docs',
+  swaggerUi.serve,
+  swaggerUi.setup(undefined, { swaggerOptions: { url: '/openapi.json' } })
+);
+
+export default router;
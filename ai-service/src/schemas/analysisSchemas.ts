@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+// Runtime contracts for the JSON the model is asked to return. Anything that
+// doesn't match is rejected rather than coerced into a plausible default.
+
+const score = z.number().min(-1).max(1);
+
+const tag = z.string().trim().min(1).max(50);
+
+export const sentimentOutputSchema = z
+  .object({
+    score,
+    label: z.enum(["positive", "negative", "neutral", "mixed"]),
+    confidence: z.number().min(0).max(1),
+  })
+  .strict();
+
+export const tagsOutputSchema = z
+  .object({
+    tags: z.array(tag).max(5),
+    primaryTheme: z.string().trim().min(1),
+  })
+  .strict();
+
+export const insightsOutputSchema = z
+  .object({
+    sentimentScore: score,
+    sentimentLabel: z.enum(["positive", "negative", "neutral", "mixed"]),
+    tags: z.array(tag).max(5),
+    engagementLevel: z.enum(["Low", "Medium", "High", "VeryHigh"]),
+    summary: z.string().trim().min(1),
+    actionItems: z.array(z.string().trim().min(1)).max(3),
+  })
+  .strict();
+
+export const aspectsOutputSchema = z
+  .object({
+    aspects: z
+      .array(
+        z
+          .object({
+            aspect: tag,
+            score,
+            label: z.enum(["positive", "negative", "neutral", "mixed"]),
+            span: z.string().trim().min(1),
+          })
+          .strict(),
+      )
+      .max(15),
+  })
+  .strict();
+
+export const themeLabelOutputSchema = z
+  .object({
+    label: z.string().trim().min(1).max(60),
+    description: z.string().trim().min(1).max(300),
+  })
+  .strict();
+
+// Citations are checked against the ids of the sources that were retrieved,
+// so an answer pointing at anything else goes through the repair loop
+export const createAskOutputSchema = (sourceIds: string[]) =>
+  z
+    .object({
+      answered: z.boolean(),
+      answer: z.string().trim().min(1).max(2000),
+      citations: z.array(z.string()).max(sourceIds.length),
+    })
+    .strict()
+    .superRefine((output, ctx) => {
+      output.citations.forEach((citation, index) => {
+        if (!sourceIds.includes(citation)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["citations", index],
+            message: `Unknown source id "${citation}"`,
+          });
+        }
+      });
+      if (output.answered && output.citations.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["citations"],
+          message: "An answer must cite at least one source",
+        });
+      }
+    });
+
+export type SentimentOutput = z.infer<typeof sentimentOutputSchema>;
+export type TagsOutput = z.infer<typeof tagsOutputSchema>;
+export type InsightsOutput = z.infer<typeof insightsOutputSchema>;
+export type AspectsOutput = z.infer<typeof aspectsOutputSchema>;
+export type ThemeLabelOutput = z.infer<typeof themeLabelOutputSchema>;
+export type AskOutput = z.infer<ReturnType<typeof createAskOutputSchema>>;
+
+export const formatSchemaErrors = (error: z.ZodError): string[] =>
+  error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
@@ -0,0 +1,552 @@
+import { z } from "zod";
+import {
+  AskResult,
+  AspectSentimentResult,
+  BatchResult,
+  CollectionStatus,
+  FeedbackSearchResult,
+  HealthStatus,
+  InsightsResult,
+  PiiScanResult,
+  PromptTemplateInfo,
+  ReindexProgress,
+  SentimentResult,
+  TagExtractionResult,
+  TaxonomyCandidate,
+  TaxonomyTag,
+  ThemeDiscoveryResult,
+  UsageReport,
+  UserDataExport,
+  UserDataPurgeResult,
+  UserTrendsResult,
+} from "../types";
+import { EmbeddingJobSummary } from "../worker/embeddingWorker";
+
+// Response contracts for the OpenAPI document. Each schema is a hand-written
+// mirror of a result type from ../types, not generated from it; the checks
+// at the bottom fail the type-check when the two drift apart, so a changed
+// type needs its schema updated here.
+
+const label = z.enum(["positive", "negative", "neutral", "mixed"]);
+
+const riskFlag = z.enum([
+  "instruction_override",
+  "role_manipulation",
+  "prompt_leak",
+  "output_manipulation",
+  "delimiter_injection",
+  "hidden_characters",
+]);
+
+// Provenance fields shared by the analysis results
+const analysisMeta = {
+  detectedLanguage: z.string().optional(),
+  model: z.string(),
+  promptVersion: z.string().optional(),
+  riskFlags: z.array(riskFlag).optional(),
+  repaired: z.boolean().optional(),
+  isFallback: z.boolean().optional(),
+};
+
+export const sentimentResultSchema = z
+  .object({
+    score: z.number(),
+    label,
+    confidence: z.number(),
+    ...analysisMeta,
+  })
+  .strict();
+
+export const aspectSentimentResultSchema = z
+  .object({
+    aspects: z.array(
+      z
+        .object({
+          aspect: z.string(),
+          score: z.number(),
+          label,
+          span: z
+            .object({
+              text: z.string(),
+              start: z.number().int().optional(),
+              end: z.number().int().optional(),
+            })
+            .strict(),
+        })
+        .strict(),
+    ),
+    configuredAspects: z.array(z.string()),
+    ...analysisMeta,
+  })
+  .strict();
+
+export const tagExtractionResultSchema = z
+  .object({
+    tags: z.array(z.string()),
+    primaryTheme: z.string(),
+    candidateTags: z.array(z.string()).optional(),
+    ...analysisMeta,
+  })
+  .strict();
+
+export const insightsResultSchema = z
+  .object({
+    sentimentScore: z.number(),
+    sentimentLabel: z.string(),
+    tags: z.array(z.string()),
+    candidateTags: z.array(z.string()).optional(),
+    engagementLevel: z.enum(["Low", "Medium", "High", "VeryHigh"]),
+    summary: z.string(),
+    actionItems: z.array(z.string()),
+    analyzedAt: z.string().datetime(),
+    feedbackId: z.string().optional(),
+    spam: z
+      .object({
+        isSpam: z.boolean(),
+        score: z.number().min(0).max(1),
+        reasons: z.array(
+          z.enum(["repetition", "low_entropy", "link_density"]),
+        ),
+      })
+      .strict(),
+    duplicateOf: z.string().optional(),
+    ...analysisMeta,
+  })
+  .strict();
+
+const batchResultSchema = <T extends z.ZodTypeAny>(data: T) =>
+  z
+    .object({
+      total: z.number().int(),
+      succeeded: z.number().int(),
+      failed: z.number().int(),
+      results: z.array(
+        z
+          .object({
+            index: z.number().int(),
+            id: z.string().optional(),
+            success: z.boolean(),
+            data: data.optional(),
+            error: z
+              .object({ message: z.string(), code: z.string() })
+              .strict()
+              .optional(),
+          })
+          .strict(),
+      ),
+    })
+    .strict();
+
+export const sentimentBatchResultSchema = batchResultSchema(
+  sentimentResultSchema,
+);
+export const tagsBatchResultSchema = batchResultSchema(
+  tagExtractionResultSchema,
+);
+export const insightsBatchResultSchema = batchResultSchema(
+  insightsResultSchema,
+);
+
+const feedbackPayloadSchema = z
+  .object({
+    userId: z.string().optional(),
+    rawText: z.string(),
+    sentimentScore: z.number().optional(),
+    sentimentLabel: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    engagementLevel: z.string().optional(),
+    analyzedAt: z.string(),
+    model: z.string(),
+    embeddingsModel: z.string().optional(),
+    promptVersion: z.string().optional(),
+    isSpam: z.boolean().optional(),
+    spamScore: z.number().optional(),
+    duplicateOf: z.string().optional(),
+  })
+  .strict();
+
+const feedbackSearchHitSchema = z
+  .object({
+    id: z.string(),
+    score: z.number(),
+    payload: feedbackPayloadSchema,
+  })
+  .strict();
+
+export const feedbackSearchResultSchema = z
+  .object({
+    query: z.string(),
+    results: z.array(feedbackSearchHitSchema),
+  })
+  .strict();
+
+export const askResultSchema = z
+  .object({
+    question: z.string(),
+    answered: z.boolean(),
+    answer: z.string(),
+    citations: z.array(z.string()),
+    refusalReason: z
+      .enum(["no_relevant_feedback", "insufficient_sources"])
+      .optional(),
+    answerSource: z.enum(["model", "extractive"]).optional(),
+    sources: z.array(feedbackSearchHitSchema),
+    model: z.string().optional(),
+    promptVersion: z.string().optional(),
+    riskFlags: z.array(riskFlag).optional(),
+    repaired: z.boolean().optional(),
+    isFallback: z.boolean().optional(),
+  })
+  .strict();
+
+export const themeDiscoveryResultSchema = z
+  .object({
+    totalPoints: z.number().int(),
+    k: z.number().int(),
+    clusters: z.array(
+      z
+        .object({
+          id: z.number().int(),
+          label: z.string(),
+          description: z.string().optional(),
+          labelSource: z.enum(["model", "keywords"]),
+          size: z.number().int(),
+          averageSentimentScore: z.number().nullable(),
+          tagDistribution: z.record(z.number()),
+          examples: z.array(
+            z
+              .object({
+                id: z.string(),
+                text: z.string(),
+                similarity: z.number(),
+              })
+              .strict(),
+          ),
+        })
+        .strict(),
+    ),
+  })
+  .strict();
+
+export const userDataExportSchema = z
+  .object({
+    userId: z.string(),
+    exportedAt: z.string(),
+    total: z.number().int(),
+    feedback: z.array(
+      z.object({ id: z.string(), payload: feedbackPayloadSchema }).strict(),
+    ),
+  })
+  .strict();
+
+export const userDataPurgeResultSchema = z
+  .object({
+    userId: z.string(),
+    deletedPoints: z.number().int(),
+    deletedJobs: z.number().int(),
+    purgedAt: z.string(),
+  })
+  .strict();
+
+export const userTrendsResultSchema = z
+  .object({
+    userId: z.string(),
+    interval: z.enum(["day", "week", "month"]),
+    totalFeedback: z.number().int(),
+    averageSentimentScore: z.number().nullable(),
+    buckets: z.array(
+      z
+        .object({
+          start: z.string(),
+          count: z.number().int(),
+          averageSentimentScore: z.number().nullable(),
+          engagementDistribution: z.record(z.number()),
+          topTags: z.array(
+            z.object({ tag: z.string(), count: z.number().int() }).strict(),
+          ),
+        })
+        .strict(),
+    ),
+    sentimentDrops: z.array(
+      z
+        .object({
+          from: z.string(),
+          to: z.string(),
+          previousScore: z.number(),
+          currentScore: z.number(),
+          change: z.number(),
+        })
+        .strict(),
+    ),
+    atRisk: z.boolean(),
+    truncated: z.boolean(),
+  })
+  .strict();
+
+export const piiScanResultSchema = z
+  .object({
+    entities: z.array(
+      z
+        .object({
+          type: z.enum(["email", "phone", "credit_card", "iban", "ip_address"]),
+          start: z.number().int(),
+          end: z.number().int(),
+        })
+        .strict(),
+    ),
+    redactedText: z.string(),
+  })
+  .strict();
+
+export const promptTemplateListSchema = z.array(
+  z
+    .object({
+      name: z.string(),
+      version: z.string(),
+      description: z.string(),
+      variables: z.array(z.string()),
+    })
+    .strict(),
+);
+
+export const embeddingJobSummarySchema = z
+  .object({
+    id: z.string(),
+    userId: z.string().optional(),
+    status: z.enum(["pending", "processing", "completed", "dead"]),
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    nextAttemptAt: z.string(),
+    lastError: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    completedAt: z.string().optional(),
+    duplicateOf: z.string().optional(),
+  })
+  .strict();
+
+export const embeddingJobSummaryListSchema = z.array(embeddingJobSummarySchema);
+
+export const reindexProgressSchema = z
+  .object({
+    status: z.enum(["running", "completed", "failed"]),
+    source: z.string().optional(),
+    target: z.string().optional(),
+    total: z.number().int(),
+    processed: z.number().int(),
+    skipped: z.number().int(),
+    startedAt: z.string(),
+    updatedAt: z.string(),
+    completedAt: z.string().optional(),
+    error: z.string().optional(),
+  })
+  .strict();
+
+export const collectionStatusSchema = z
+  .object({
+    alias: z.string(),
+    state: z.enum(["unprovisioned", "ready", "reindex_required", "reindexing"]),
+    collection: z.string().optional(),
+    vectorSize: z.number().int().optional(),
+    embeddingsModel: z.string().optional(),
+    activeEmbeddingsModel: z.string(),
+    reindex: reindexProgressSchema.optional(),
+  })
+  .strict();
+
+export const taxonomyTagSchema = z
+  .object({
+    id: z.string(),
+    description: z.string().optional(),
+    synonyms: z.array(z.string()),
+    parent: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .strict();
+
+export const taxonomyTagListSchema = z.array(taxonomyTagSchema);
+
+export const taxonomyTagDetailSchema = taxonomyTagSchema
+  .extend({ children: z.array(z.string()) })
+  .strict();
+
+export const taxonomyCandidateListSchema = z.array(
+  z
+    .object({
+      tag: z.string(),
+      count: z.number().int(),
+      firstSeen: z.string(),
+      lastSeen: z.string(),
+    })
+    .strict(),
+);
+
+export const deletedTaxonomyTagSchema = z.object({ id: z.string() }).strict();
+
+export const dismissedCandidateSchema = z.object({ tag: z.string() }).strict();
+
+const usageTotals = {
+  calls: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  costUsd: z.number(),
+};
+
+const budgetAction = z.enum(["fallback", "payment_required", "rate_limited"]);
+
+export const usageReportSchema = z
+  .object({
+    from: z.string(),
+    to: z.string(),
+    records: z.array(
+      z
+        .object({
+          date: z.string(),
+          client: z.string(),
+          endpoint: z.string(),
+          estimatedCalls: z.number().int(),
+          ...usageTotals,
+        })
+        .strict(),
+    ),
+    totals: z.object(usageTotals).strict(),
+    budget: z
+      .object({
+        client: z.string(),
+        date: z.string(),
+        tokensUsed: z.number().int(),
+        costUsd: z.number(),
+        dailyTokens: z.number(),
+        dailyCostUsd: z.number(),
+        exceeded: z.boolean(),
+        action: budgetAction,
+      })
+      .strict(),
+  })
+  .strict();
+
+export const healthStatusSchema = z
+  .object({
+    status: z.enum(["healthy", "degraded", "unhealthy"]),
+    timestamp: z.string().datetime(),
+    service: z.string(),
+    version: z.string(),
+    geminiConfigured: z.boolean(),
+    llmProvider: z.enum(["gemini", "local"]),
+    cache: z
+      .object({
+        enabled: z.boolean(),
+        backend: z.enum(["memory", "redis"]),
+        hits: z.number().int(),
+        misses: z.number().int(),
+        errors: z.number().int(),
+        hitRate: z.number(),
+        size: z.number().int().optional(),
+        maxEntries: z.number().int().optional(),
+        ttlSeconds: z.number(),
+      })
+      .strict(),
+    circuitBreaker: z
+      .object({
+        state: z.enum(["closed", "open", "half_open"]),
+        consecutiveFailures: z.number().int(),
+        openedAt: z.string().nullable(),
+      })
+      .strict(),
+  })
+  .strict();
+
+// Schemas published under components/schemas, by name
+export const responseSchemas = {
+  SentimentResult: sentimentResultSchema,
+  AspectSentimentResult: aspectSentimentResultSchema,
+  TagExtractionResult: tagExtractionResultSchema,
+  InsightsResult: insightsResultSchema,
+  SentimentBatchResult: sentimentBatchResultSchema,
+  TagsBatchResult: tagsBatchResultSchema,
+  InsightsBatchResult: insightsBatchResultSchema,
+  FeedbackSearchResult: feedbackSearchResultSchema,
+  AskResult: askResultSchema,
+  ThemeDiscoveryResult: themeDiscoveryResultSchema,
+  UserTrendsResult: userTrendsResultSchema,
+  UserDataExport: userDataExportSchema,
+  UserDataPurgeResult: userDataPurgeResultSchema,
+  PiiScanResult: piiScanResultSchema,
+  PromptTemplateList: promptTemplateListSchema,
+  EmbeddingJobSummary: embeddingJobSummarySchema,
+  EmbeddingJobSummaryList: embeddingJobSummaryListSchema,
+  CollectionStatus: collectionStatusSchema,
+  ReindexProgress: reindexProgressSchema,
+  TaxonomyTag: taxonomyTagSchema,
+  TaxonomyTagList: taxonomyTagListSchema,
+  TaxonomyTagDetail: taxonomyTagDetailSchema,
+  TaxonomyCandidateList: taxonomyCandidateListSchema,
+  DeletedTaxonomyTag: deletedTaxonomyTagSchema,
+  DismissedCandidate: dismissedCandidateSchema,
+  UsageReport: usageReportSchema,
+  HealthStatus: healthStatusSchema,
+};
+
+export type ResponseSchemaName = keyof typeof responseSchemas;
+
+// Mutually assignable, so a missing, extra or differently typed field fails
+type Matches<S extends z.ZodTypeAny, T> = [z.infer<S>] extends [T]
+  ? [T] extends [z.infer<S>]
+    ? true
+    : never
+  : never;
+
+// Compile-time only: every line must type-check to true
+export const contractChecks: true[] = [
+  true satisfies Matches<typeof sentimentResultSchema, SentimentResult>,
+  true satisfies Matches<
+    typeof aspectSentimentResultSchema,
+    AspectSentimentResult
+  >,
+  true satisfies Matches<typeof tagExtractionResultSchema, TagExtractionResult>,
+  true satisfies Matches<typeof insightsResultSchema, InsightsResult>,
+  true satisfies Matches<
+    typeof sentimentBatchResultSchema,
+    BatchResult<SentimentResult>
+  >,
+  true satisfies Matches<
+    typeof tagsBatchResultSchema,
+    BatchResult<TagExtractionResult>
+  >,
+  true satisfies Matches<
+    typeof insightsBatchResultSchema,
+    BatchResult<InsightsResult>
+  >,
+  true satisfies Matches<
+    typeof feedbackSearchResultSchema,
+    FeedbackSearchResult
+  >,
+  true satisfies Matches<typeof askResultSchema, AskResult>,
+  true satisfies Matches<
+    typeof themeDiscoveryResultSchema,
+    ThemeDiscoveryResult
+  >,
+  true satisfies Matches<typeof userTrendsResultSchema, UserTrendsResult>,
+  true satisfies Matches<typeof userDataExportSchema, UserDataExport>,
+  true satisfies Matches<
+    typeof userDataPurgeResultSchema,
+    UserDataPurgeResult
+  >,
+  true satisfies Matches<typeof piiScanResultSchema, PiiScanResult>,
+  true satisfies Matches<typeof promptTemplateListSchema, PromptTemplateInfo[]>,
+  true satisfies Matches<typeof embeddingJobSummarySchema, EmbeddingJobSummary>,
+  true satisfies Matches<typeof collectionStatusSchema, CollectionStatus>,
+  true satisfies Matches<typeof reindexProgressSchema, ReindexProgress>,
+  true satisfies Matches<typeof taxonomyTagSchema, TaxonomyTag>,
+  true satisfies Matches<
+    typeof taxonomyTagDetailSchema,
+    TaxonomyTag & { children: string[] }
+  >,
+  true satisfies Matches<
+    typeof taxonomyCandidateListSchema,
+    TaxonomyCandidate[]
+  >,
+  true satisfies Matches<typeof usageReportSchema, UsageReport>,
+  true satisfies Matches<typeof healthStatusSchema, HealthStatus>,
+];
@@ -0,0 +1,122 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { API_SCOPES, config } from "../config";
+import { logger } from "../utils/logger";
+import { ApiClient, ApiClientConfig, ApiScope } from "../types";
+
+// Keys file format (API_KEYS_PATH):
+//
+//   [
+//     { "name": "dotnet-api", "key": "...", "scopes": ["sentiment", "insights"],
+//       "rateLimit": { "capacity": 120, "refillPerSecond": 2 },
+//       "budget": { "dailyTokens": 500000, "action": "fallback" } }
+//   ]
+//
+// Clients from the file are merged with those from API_KEYS. Keys are only
+// kept as SHA-256 digests in memory.
+
+const keysFileSchema = z.array(
+  z
+    .object({
+      name: z.string().min(1),
+      key: z.string().min(1),
+      scopes: z.array(z.enum(API_SCOPES as [ApiScope, ...ApiScope[]])),
+      rateLimit: z
+        .object({
+          capacity: z.number().int().positive().optional(),
+          refillPerSecond: z.number().positive().optional(),
+        })
+        .strict()
+        .optional(),
+      budget: z
+        .object({
+          dailyTokens: z.number().int().nonnegative().optional(),
+          dailyCostUsd: z.number().nonnegative().optional(),
+          action: z
+            .enum(["fallback", "payment_required", "rate_limited"])
+            .optional(),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict(),
+);
+
+let clientsByDigest: Map<string, ApiClient> | undefined;
+
+// The only environments allowed to run without keys
+const OPEN_ENVIRONMENTS = ["development", "test"];
+
+const allowsAnonymous = (): boolean =>
+  OPEN_ENVIRONMENTS.includes(config.nodeEnv);
+
+const digest = (key: string): string =>
+  createHash("sha256").update(key).digest("hex");
+
+const readKeysFile = (filePath: string): ApiClientConfig[] => {
+  const parsed = keysFileSchema.safeParse(
+    JSON.parse(fs.readFileSync(filePath, "utf8")),
+  );
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid API keys file ${filePath}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+};
+
+const loadClients = (): Map<string, ApiClient> => {
+  const configs = [
+    ...config.apiKeys,
+    ...(config.apiKeysPath ? readKeysFile(config.apiKeysPath) : []),
+  ];
+
+  const clients = new Map<string, ApiClient>();
+  configs.forEach(({ name, key, scopes, rateLimit, budget }) => {
+    clients.set(digest(key), {
+      name,
+      scopes,
+      rateLimit: { ...config.rateLimit, ...rateLimit },
+      budget: { ...config.usageBudget, ...budget },
+    });
+  });
+
+  if (clients.size === 0 && allowsAnonymous()) {
+    logger.warn(
+      "No API keys configured, AI endpoints are unauthenticated; admin and privacy endpoints are refused",
+      { environment: config.nodeEnv },
+    );
+  } else if (clients.size === 0) {
+    logger.error(
+      "No API keys configured, every AI request is refused until API_KEYS or API_KEYS_PATH is set",
+      { environment: config.nodeEnv },
+    );
+  } else {
+    logger.info("API keys loaded", {
+      clients: [...clients.values()].map((client) => client.name),
+    });
+  }
+
+  return clients;
+};
+
+const getClients = (): Map<string, ApiClient> => {
+  if (!clientsByDigest) {
+    clientsByDigest = loadClients();
+  }
+  return clientsByDigest;
+};
+
+/**
+ * Authentication is enforced as soon as at least one key is configured, and
+ * always outside development and test: there, a missing key configuration
+ * refuses every request instead of opening the API.
+ */
+export const isAuthEnabled = (): boolean =>
+  getClients().size > 0 || !allowsAnonymous();
+
+export const findClientByKey = (key: string): ApiClient | undefined =>
+  getClients().get(digest(key));
@@ -0,0 +1,59 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { searchFeedback } from "./embeddingService";
+import { answerFromFeedback } from "./geminiService";
+import { applyPiiPolicy } from "./piiService";
+import { guardUserText } from "./promptSafety";
+import { AskResult, FeedbackSearchFilters } from "../types";
+
+const NO_RELEVANT_FEEDBACK =
+  "No stored feedback is relevant enough to answer this question.";
+
+/**
+ * Answers a question from stored feedback. The closest points at or above
+ * the relevance threshold are the only sources the answer may use; when
+ * none qualify the question is refused without calling the model. Spam and
+ * duplicates are left out unless the filters ask for them.
+ */
+export const askQuestion = async (params: {
+  question: string;
+  limit: number;
+  scoreThreshold?: number;
+  filters?: FeedbackSearchFilters;
+}): Promise<AskResult> => {
+  const { sanitized, riskFlags } = guardUserText(
+    applyPiiPolicy(params.question),
+  );
+
+  const sources = await searchFeedback({
+    text: params.question,
+    limit: params.limit,
+    scoreThreshold: params.scoreThreshold ?? config.askMinScore,
+    filters: { spam: false, duplicates: false, ...params.filters },
+  });
+
+  if (sources.length === 0) {
+    logger.info("Question refused, no relevant feedback", {
+      scoreThreshold: params.scoreThreshold ?? config.askMinScore,
+    });
+    return {
+      question: params.question,
+      answered: false,
+      answer: NO_RELEVANT_FEEDBACK,
+      citations: [],
+      refusalReason: "no_relevant_feedback",
+      sources,
+      riskFlags,
+    };
+  }
+
+  const grounded = await answerFromFeedback(sanitized, sources);
+
+  return {
+    question: params.question,
+    ...grounded,
+    ...(!grounded.answered && { refusalReason: "insufficient_sources" }),
+    sources,
+    riskFlags,
+  };
+};
@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { AuditEntry } from "../types";
+
+// Append-only JSON Lines log of every deletion of stored feedback. Entries
+// hold ids and counts only, never the deleted text.
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+export const recordAuditEntry = (
+  entry: Omit<AuditEntry, "id" | "at">,
+): Promise<AuditEntry> => {
+  const recorded: AuditEntry = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    ...entry,
+  };
+
+  // The queue keeps lines whole and in order under concurrent purges; a
+  // failed append fails its own purge without blocking later ones
+  writeQueue = writeQueue.catch(() => undefined).then(async () => {
+    await fs.promises.mkdir(path.dirname(config.auditLogPath), {
+      recursive: true,
+    });
+    await fs.promises.appendFile(
+      config.auditLogPath,
+      `${JSON.stringify(recorded)}\n`,
+    );
+  });
+
+  logger.info("Audit entry recorded", { ...recorded });
+  return writeQueue.then(() => recorded);
+};
@@ -0,0 +1,144 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { AppError } from "../utils/errors";
+import { mapWithConcurrency } from "../utils/concurrency";
+import * as geminiService from "./geminiService";
+import { withCache } from "./cacheService";
+import { getTaxonomyVersion } from "./taxonomyService";
+import {
+  AnalysisOptions,
+  BatchItem,
+  BatchItemResult,
+  BatchOperation,
+  BatchResult,
+  InsightsResult,
+  SentimentResult,
+  TagExtractionResult,
+} from "../types";
+
+type BatchOutput = {
+  sentiment: SentimentResult;
+  tags: TagExtractionResult;
+  insights: InsightsResult;
+};
+
+const analyzers: {
+  [K in BatchOperation]: (
+    item: BatchItem,
+    options: AnalysisOptions,
+  ) => Promise<BatchOutput[K]>;
+} = {
+  sentiment: async (item, options) =>
+    (
+      await withCache("sentiment", [item.text, options.promptVersion], () =>
+        geminiService.analyzeSentiment(item.text, options),
+      )
+    ).value,
+  tags: async (item, options) =>
+    (
+      await withCache(
+        "tags",
+        [item.text, options.promptVersion, getTaxonomyVersion()],
+        () => geminiService.extractTags(item.text, options),
+      )
+    ).value,
+  insights: async (item, options) =>
+    (
+      await withCache(
+        "insights",
+        [
+          item.text,
+          item.userId,
+          options.promptVersion,
+          options.outputLanguage,
+          getTaxonomyVersion(),
+        ],
+        () => geminiService.generateInsights(item.text, item.userId, options),
+        item.userId,
+      )
+    ).value,
+};
+
+const fallbacks: {
+  [K in BatchOperation]: (item: BatchItem) => BatchOutput[K];
+} = {
+  sentiment: (item) => geminiService.getFallbackSentiment(item.text),
+  tags: (item) => geminiService.getFallbackTags(item.text),
+  insights: (item) => geminiService.getFallbackInsights(item.text),
+};
+
+// Rejections of the input itself (PII, suspected injection, unknown prompt
+// version) are 4xx errors and must not be answered from the raw text; only
+// provider and availability failures fall back
+const isRequestRejection = (error: AppError): boolean =>
+  error.statusCode !== undefined && error.statusCode < 500;
+
+export const runBatch = async <K extends BatchOperation>(
+  operation: K,
+  items: BatchItem[],
+  options: {
+    fallbackOnError: boolean;
+    promptVersion?: string;
+    outputLanguage?: string;
+    invalidItems?: Record<number, string>;
+  },
+): Promise<BatchResult<BatchOutput[K]>> => {
+  const results = await mapWithConcurrency(
+    items,
+    config.batchConcurrency,
+    async (item, index): Promise<BatchItemResult<BatchOutput[K]>> => {
+      const validationError = options.invalidItems?.[index];
+      if (validationError) {
+        return {
+          index,
+          id: item.id,
+          success: false,
+          error: { message: validationError, code: "VALIDATION_ERROR" },
+        };
+      }
+
+      try {
+        const data = await analyzers[operation](item, {
+          promptVersion: options.promptVersion,
+          outputLanguage: options.outputLanguage,
+        });
+        return { index, id: item.id, success: true, data };
+      } catch (error) {
+        const err = error as AppError;
+        logger.warn("Batch item failed", {
+          operation,
+          id: item.id,
+          error: err.message,
+        });
+
+        if (options.fallbackOnError && !isRequestRejection(err)) {
+          return {
+            index,
+            id: item.id,
+            success: true,
+            data: fallbacks[operation](item),
+          };
+        }
+
+        return {
+          index,
+          id: item.id,
+          success: false,
+          error: {
+            message: err.message || "Analysis failed",
+            code: err.code || "ANALYSIS_FAILED",
+          },
+        };
+      }
+    },
+  );
+
+  const succeeded = results.filter((result) => result.success).length;
+
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+};
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { config } from "../config";
+import { getRedisClient } from "../infra/redisClient";
+import { llmProvider } from "../infra/llmProvider";
+import { logger } from "../utils/logger";
+import { CacheStats, CacheStatus } from "../types";
+
+interface CacheStore {
+  get(key: string): Promise<string | undefined>;
+  // owner is the user the entry belongs to, so it can be erased with them
+  set(key: string, value: string, ttlMs: number, owner?: string): Promise<void>;
+  deleteOwned(owner: string): Promise<void>;
+  size(): Promise<number | undefined>;
+}
+
+const createMemoryStore = (maxEntries: number): CacheStore => {
+  const entries = new Map<
+    string,
+    { value: string; expiresAt: number; owner?: string }
+  >();
+  const owned = new Map<string, Set<string>>();
+
+  const remove = (key: string): void => {
+    const owner = entries.get(key)?.owner;
+    entries.delete(key);
+    if (owner) {
+      owned.get(owner)?.delete(key);
+      if (owned.get(owner)?.size === 0) owned.delete(owner);
+    }
+  };
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+
+      // Re-insert so Map order tracks recency for LRU eviction
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: async (key, value, ttlMs, owner) => {
+      remove(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs, owner });
+      if (owner) {
+        owned.set(owner, (owned.get(owner) || new Set()).add(key));
+      }
+
+      while (entries.size > maxEntries) {
+        remove(entries.keys().next().value as string);
+      }
+    },
+    deleteOwned: async (owner) => {
+      [...(owned.get(owner) || [])].forEach(remove);
+    },
+    size: async () => entries.size,
+  };
+};
+
+const ownerKey = (owner: string): string =>
+  `ai-cache:owner:${createHash("sha256").update(owner).digest("hex")}`;
+
+// Entry limits are left to the Redis server's maxmemory policy. Each owner's
+// keys are kept in a set that lives as long as their newest entry.
+const createRedisStore = (): CacheStore => {
+  const client = getRedisClient();
+
+  return {
+    get: async (key) => (await client.get(key)) ?? undefined,
+    set: async (key, value, ttlMs, owner) => {
+      const write = client.multi().set(key, value, "PX", ttlMs);
+      if (owner) {
+        write.sadd(ownerKey(owner), key).pexpire(ownerKey(owner), ttlMs);
+      }
+      await write.exec();
+    },
+    deleteOwned: async (owner) => {
+      const keys = await client.smembers(ownerKey(owner));
+      await client.del(...keys, ownerKey(owner));
+    },
+    size: async () => undefined,
+  };
+};
+
+const store: CacheStore =
+  config.cacheBackend === "redis"
+    ? createRedisStore()
+    : createMemoryStore(config.cacheMaxEntries);
+
+const counters = { hits: 0, misses: 0, errors: 0 };
+
+export const buildCacheKey = (operation: string, parts: unknown[]): string => {
+  const hash = createHash("sha256")
+    .update(JSON.stringify([llmProvider.name, llmProvider.model, ...parts]))
+    .digest("hex");
+
+  return `ai-cache:${operation}:${hash}`;
+};
+
+/**
+ * Returns the cached result for identical input, or computes and stores it.
+ * Fallback results are never cached so recovery is picked up immediately,
+ * and cache backend errors degrade to a miss rather than failing the request.
+ * Results computed for a user should name them as `owner`.
+ */
+export const withCache = async <T extends { isFallback?: boolean }>(
+  operation: string,
+  parts: unknown[],
+  compute: () => Promise<T>,
+  owner?: string,
+): Promise<{ value: T; cacheStatus: CacheStatus }> => {
+  if (!config.cacheEnabled) {
+    return { value: await compute(), cacheStatus: "MISS" };
+  }
+
+  const key = buildCacheKey(operation, parts);
+
+  try {
+    const cached = await store.get(key);
+    if (cached !== undefined) {
+      counters.hits++;
+      return { value: JSON.parse(cached) as T, cacheStatus: "HIT" };
+    }
+  } catch (error) {
+    counters.errors++;
+    logger.warn("Cache read failed", {
+      operation,
+      error: (error as Error).message,
+    });
+  }
+
+  counters.misses++;
+  const value = await compute();
+
+  if (!value.isFallback) {
+    try {
+      await store.set(
+        key,
+        JSON.stringify(value),
+        config.cacheTtlSeconds * 1000,
+        owner,
+      );
+    } catch (error) {
+      counters.errors++;
+      logger.warn("Cache write failed", {
+        operation,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return { value, cacheStatus: "MISS" };
+};
+
+/**
+ * Drops every cached result computed for the user. Errors are thrown, since
+ * an erasure must not report success while their data is still cached.
+ */
+export const invalidateUserCache = async (userId: string): Promise<void> => {
+  if (config.cacheEnabled) await store.deleteOwned(userId);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const lookups = counters.hits + counters.misses;
+  let size: number | undefined;
+
+  try {
+    size = await store.size();
+  } catch {
+    size = undefined;
+  }
+
+  return {
+    enabled: config.cacheEnabled,
+    backend: config.cacheBackend,
+    hits: counters.hits,
+    misses: counters.misses,
+    errors: counters.errors,
+    hitRate: lookups > 0 ? counters.hits / lookups : 0,
+    size,
+    maxEntries: config.cacheBackend === "memory" ? config.cacheMaxEntries : undefined,
+    ttlSeconds: config.cacheTtlSeconds,
+  };
+};
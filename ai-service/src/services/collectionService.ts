@@ -0,0 +1,518 @@
+import { Schemas } from "@qdrant/js-client-rest";
+import { config } from "../config";
+import { llmProvider } from "../infra/llmProvider";
+import { qdrantClient } from "../infra/qdrantClient";
+import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { COLLECTION_NAME, generateEmbedding } from "./embeddingService";
+import {
+  CollectionMetadata,
+  CollectionState,
+  CollectionStatus,
+  FeedbackPayload,
+  ReindexProgress,
+} from "../types";
+
+// Feedback embeddings live in versioned collections (feedback_embeddings_v1,
+// _v2, ...) behind the COLLECTION_NAME alias, which every read and write goes
+// through. A re-index fills the next version with fresh embeddings and then
+// moves the alias in one atomic operation. A collection created before
+// aliases were used holds the alias name itself; provisioning migrates it
+// into the first version before anything else touches the alias.
+
+const REINDEX_PAGE_SIZE = 256;
+const VERSION_PATTERN = new RegExp(`^${COLLECTION_NAME}_v(\\d+)$`);
+
+type ActiveCollection = {
+  name: string;
+  vectorSize?: number;
+  embeddingsModel?: string;
+};
+
+let state: CollectionState = "unprovisioned";
+let active: ActiveCollection | undefined;
+let reindex: ReindexProgress | undefined;
+let provisioning: Promise<void> | null = null;
+// Deletions made while points are copied, replayed on the copy's target
+let copying = false;
+let pendingDeletions: Schemas["Filter"][] = [];
+
+// The active model reports no dimension, so one embedding is measured
+const resolveVectorSize = async (): Promise<number> => {
+  const vector = await generateEmbedding("vector size probe");
+  if (vector.length === 0) {
+    throw createAppError(
+      "Embeddings model is not configured",
+      503,
+      "EMBEDDINGS_UNAVAILABLE",
+    );
+  }
+  return vector.length;
+};
+
+const collectionMetadata = (vectorSize: number): CollectionMetadata => ({
+  embeddingsModel: llmProvider.embeddingsModel,
+  vectorSize,
+  createdAt: new Date().toISOString(),
+});
+
+const findActiveCollection = async (): Promise<string | undefined> => {
+  const { aliases } = await qdrantClient.getAliases();
+  const alias = aliases.find(
+    (description) => description.alias_name === COLLECTION_NAME,
+  );
+  if (alias) return alias.collection_name;
+
+  const { exists } = await qdrantClient.collectionExists(COLLECTION_NAME);
+  return exists ? COLLECTION_NAME : undefined;
+};
+
+const describeCollection = async (
+  name: string,
+): Promise<ActiveCollection> => {
+  const info = await qdrantClient.getCollection(name);
+  const vectors = info.config.params.vectors;
+  const metadata = info.config.metadata as
+    | Partial<CollectionMetadata>
+    | null
+    | undefined;
+
+  return {
+    name,
+    vectorSize:
+      vectors && "size" in vectors ? Number(vectors.size) : undefined,
+    embeddingsModel: metadata?.embeddingsModel,
+  };
+};
+
+const versionOf = (name: string): number =>
+  Number(VERSION_PATTERN.exec(name)?.[1] ?? 0);
+
+// Trends read the newest points first, and ordering by a payload field
+// needs an index on it
+const ensurePayloadIndexes = async (name: string): Promise<void> => {
+  await qdrantClient.createPayloadIndex(name, {
+    field_name: "analyzedAt",
+    field_schema: "datetime",
+    wait: true,
+  });
+};
+
+const createVersionedCollection = async (
+  vectorSize: number,
+  metadata: Partial<CollectionMetadata> = collectionMetadata(vectorSize),
+): Promise<string> => {
+  const { collections } = await qdrantClient.getCollections();
+  const latest = Math.max(
+    0,
+    ...collections.map((c) => versionOf(c.name)),
+  );
+  const name = `${COLLECTION_NAME}_v${latest + 1}`;
+
+  await qdrantClient.createCollection(name, {
+    vectors: { size: vectorSize, distance: "Cosine" },
+    metadata: { ...metadata },
+  });
+  await ensurePayloadIndexes(name);
+
+  logger.info("Qdrant collection created", { collection: name, vectorSize });
+  return name;
+};
+
+// Moves the alias in a single request, so readers see one collection or
+// the other
+const pointAliasAt = async (
+  target: string,
+  previous?: string,
+): Promise<void> => {
+  const actions: Schemas["AliasOperations"][] = [];
+  if (previous) {
+    actions.push({ delete_alias: { alias_name: COLLECTION_NAME } });
+  }
+  actions.push({
+    create_alias: { collection_name: target, alias_name: COLLECTION_NAME },
+  });
+
+  await qdrantClient.updateCollectionAliases({ actions });
+  logger.info("Collection alias switched", {
+    alias: COLLECTION_NAME,
+    collection: target,
+    previous,
+  });
+};
+
+const forEachPage = async (
+  source: string,
+  withVector: boolean,
+  handle: (points: Schemas["Record"][]) => Promise<void>,
+): Promise<void> => {
+  let offset: Schemas["ExtendedPointId"] | null | undefined = undefined;
+
+  do {
+    const page = await qdrantClient.scroll(source, {
+      limit: REINDEX_PAGE_SIZE,
+      offset: offset ?? undefined,
+      with_payload: true,
+      with_vector: withVector,
+    });
+    await handle(page.points);
+    offset = page.next_page_offset as Schemas["ExtendedPointId"] | null;
+  } while (offset !== null && offset !== undefined);
+};
+
+// Runs a copy into `target`, recording deletions made meanwhile and
+// replaying them on the target afterwards. A failed copy drops the target.
+const copyInto = async (
+  target: string,
+  copy: () => Promise<void>,
+): Promise<void> => {
+  copying = true;
+  pendingDeletions = [];
+  try {
+    await copy();
+    for (const filter of pendingDeletions) {
+      await qdrantClient.delete(target, { filter, wait: true });
+    }
+  } catch (error) {
+    await qdrantClient.deleteCollection(target).catch(() => false);
+    throw error;
+  } finally {
+    copying = false;
+    pendingDeletions = [];
+  }
+};
+
+/**
+ * Copies the pre-alias collection, vectors included, into the next version
+ * and then hands its name to the alias. Qdrant cannot turn a collection into
+ * an alias in one step, so searches fail between deleting the collection and
+ * creating the alias. Embedding writes wait for provisioning, and the copy
+ * is complete before the original is deleted, so no feedback is lost.
+ */
+const migrateLegacyCollection = async (
+  vectorSize: number,
+): Promise<string> => {
+  const legacy = await describeCollection(COLLECTION_NAME);
+  const legacySize = legacy.vectorSize ?? vectorSize;
+  const target = await createVersionedCollection(
+    legacySize,
+    legacy.embeddingsModel
+      ? {
+          ...collectionMetadata(legacySize),
+          embeddingsModel: legacy.embeddingsModel,
+        }
+      : {},
+  );
+
+  await copyInto(target, () =>
+    forEachPage(COLLECTION_NAME, true, async (points) => {
+      const stored = points.filter((point) => point.vector);
+      if (stored.length === 0) return;
+      await qdrantClient.upsert(target, {
+        points: stored.map((point) => ({
+          id: point.id,
+          vector: point.vector as Schemas["VectorStruct"],
+          payload: point.payload,
+        })),
+      });
+    }),
+  );
+
+  await qdrantClient.deleteCollection(COLLECTION_NAME);
+  await pointAliasAt(target);
+  logger.info("Pre-alias collection migrated", {
+    from: COLLECTION_NAME,
+    to: target,
+  });
+  return target;
+};
+
+const provision = async (): Promise<void> => {
+  const vectorSize = await resolveVectorSize();
+  let name = await findActiveCollection();
+  if (name === COLLECTION_NAME) {
+    name = await migrateLegacyCollection(vectorSize);
+  }
+
+  if (!name) {
+    const created = await createVersionedCollection(vectorSize);
+    await pointAliasAt(created);
+    active = {
+      name: created,
+      vectorSize,
+      embeddingsModel: llmProvider.embeddingsModel,
+    };
+    state = "ready";
+    return;
+  }
+
+  active = await describeCollection(name);
+
+  const modelChanged =
+    active.embeddingsModel !== undefined &&
+    active.embeddingsModel !== llmProvider.embeddingsModel;
+  if (active.vectorSize !== vectorSize || modelChanged) {
+    state = "reindex_required";
+    logger.warn("Embedding collection does not match the embedding model", {
+      collection: name,
+      vectorSize: active.vectorSize,
+      embeddingsModel: active.embeddingsModel,
+      expectedVectorSize: vectorSize,
+      expectedEmbeddingsModel: llmProvider.embeddingsModel,
+    });
+    return;
+  }
+
+  if (active.embeddingsModel === undefined) {
+    // Collections from before metadata was recorded are assumed to match
+    await qdrantClient.updateCollection(name, {
+      metadata: { ...collectionMetadata(vectorSize) },
+    });
+    active.embeddingsModel = llmProvider.embeddingsModel;
+  }
+
+  // Collections from before the index existed get it now
+  await ensurePayloadIndexes(name);
+  state = "ready";
+  logger.info("Embedding collection ready", {
+    collection: name,
+    vectorSize,
+  });
+};
+
+/**
+ * Creates the feedback collection and alias when missing and checks that the
+ * active collection matches the embedding model. Run once at startup;
+ * concurrent calls share one attempt.
+ */
+export const provisionCollection = (): Promise<void> => {
+  provisioning =
+    provisioning ||
+    provision().finally(() => {
+      provisioning = null;
+    });
+  return provisioning;
+};
+
+/**
+ * Whether embeddings can be written. Retries provisioning when the startup
+ * attempt failed, e.g. because Qdrant was not reachable yet.
+ */
+export const ensureCollectionReady = async (): Promise<boolean> => {
+  if (state === "unprovisioned") {
+    try {
+      await provisionCollection();
+    } catch (error) {
+      logger.error("Embedding collection provisioning failed", {
+        error: (error as Error).message,
+      });
+    }
+  }
+  return state === "ready";
+};
+
+export const getCollectionStatus = (): CollectionStatus => ({
+  alias: COLLECTION_NAME,
+  state,
+  collection: active?.name,
+  vectorSize: active?.vectorSize,
+  embeddingsModel: active?.embeddingsModel,
+  activeEmbeddingsModel: llmProvider.embeddingsModel,
+  reindex: reindex && { ...reindex },
+});
+
+const copyPoints = async (
+  source: string,
+  target: string,
+  progress: ReindexProgress,
+): Promise<void> =>
+  forEachPage(source, false, async (page) => {
+    const points = await mapWithConcurrency(
+      page,
+      config.reindexConcurrency,
+      async (point) => {
+        const payload = point.payload as unknown as FeedbackPayload;
+        if (!payload?.rawText) return undefined;
+
+        return {
+          id: point.id,
+          vector: await generateEmbedding(payload.rawText),
+          payload: { ...payload, embeddingsModel: llmProvider.embeddingsModel },
+        };
+      },
+    );
+
+    const embedded = points.filter(
+      (point): point is NonNullable<typeof point> => point !== undefined,
+    );
+    if (embedded.length > 0) {
+      await qdrantClient.upsert(target, { points: embedded });
+    }
+
+    progress.processed += page.length;
+    progress.skipped += page.length - embedded.length;
+    progress.updatedAt = new Date().toISOString();
+    logger.info("Re-index progress", {
+      target,
+      processed: progress.processed,
+      total: progress.total,
+    });
+  });
+
+const reindexRunning = (): boolean => reindex?.status === "running";
+
+/**
+ * Every collection holding feedback: the alias target, versions kept from
+ * earlier re-indexes for rollback and, during a re-index, the version being
+ * filled.
+ */
+export const getFeedbackCollections = async (): Promise<string[]> => {
+  const { collections } = await qdrantClient.getCollections();
+  return collections
+    .map((collection) => collection.name)
+    .filter((name) => name === COLLECTION_NAME || VERSION_PATTERN.test(name));
+};
+
+/**
+ * Deletes matching points from every feedback collection, so erased
+ * feedback cannot come back through a rollback. A copy in progress applies
+ * the deletion again to its target before the alias moves, since it may
+ * have read the points before they were deleted.
+ */
+export const deleteFeedbackPoints = async (
+  filter: Schemas["Filter"],
+): Promise<void> => {
+  if (copying) {
+    pendingDeletions.push(filter);
+  }
+
+  for (const collection of await getFeedbackCollections()) {
+    await qdrantClient.delete(collection, { filter, wait: true });
+  }
+};
+
+// Keeps the REINDEX_KEEP_VERSIONS newest versions before `current` for
+// rollback and deletes the older ones
+const pruneVersions = async (current: string): Promise<void> => {
+  const { collections } = await qdrantClient.getCollections();
+  const older = collections
+    .map((collection) => collection.name)
+    .filter(
+      (name) =>
+        VERSION_PATTERN.test(name) && versionOf(name) < versionOf(current),
+    )
+    .sort((a, b) => versionOf(b) - versionOf(a));
+
+  for (const name of older.slice(Math.max(0, config.reindexKeepVersions))) {
+    await qdrantClient.deleteCollection(name);
+    logger.info("Old collection version deleted", { collection: name });
+  }
+};
+
+/**
+ * Re-embeds the rawText of every stored point with the active embedding
+ * model into a new versioned collection, then points the alias at it. The
+ * REINDEX_KEEP_VERSIONS previous versions are kept for rollback and older
+ * ones deleted. On failure the new collection is dropped and the alias is
+ * left untouched.
+ */
+export const reindexCollection = async (): Promise<ReindexProgress> => {
+  if (reindexRunning()) {
+    throw createAppError(
+      "A re-index is already running",
+      409,
+      "REINDEX_IN_PROGRESS",
+    );
+  }
+
+  const startedAt = new Date().toISOString();
+  const progress: ReindexProgress = {
+    status: "running",
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    startedAt,
+    updatedAt: startedAt,
+  };
+  const previousState = state;
+  reindex = progress;
+  state = "reindexing";
+
+  try {
+    const vectorSize = await resolveVectorSize();
+    progress.source = await findActiveCollection();
+    if (progress.source === COLLECTION_NAME) {
+      // Provisioning has not managed to migrate it yet
+      progress.source = await migrateLegacyCollection(vectorSize);
+    }
+    const { source } = progress;
+    const target = await createVersionedCollection(vectorSize);
+    progress.target = target;
+
+    await copyInto(target, async () => {
+      if (!source) return;
+      const { count } = await qdrantClient.count(source, { exact: true });
+      progress.total = count;
+      await copyPoints(source, target, progress);
+    });
+
+    await pointAliasAt(target, source);
+    active = {
+      name: progress.target,
+      vectorSize,
+      embeddingsModel: llmProvider.embeddingsModel,
+    };
+    state = "ready";
+
+    progress.status = "completed";
+    progress.completedAt = new Date().toISOString();
+    progress.updatedAt = progress.completedAt;
+    logger.info("Re-index completed", {
+      source: progress.source,
+      target: progress.target,
+      processed: progress.processed,
+      skipped: progress.skipped,
+    });
+
+    await pruneVersions(target).catch((error) => {
+      logger.warn("Old collection versions could not be deleted", {
+        error: (error as Error).message,
+      });
+    });
+    return { ...progress };
+  } catch (error) {
+    state = previousState;
+    progress.status = "failed";
+    progress.error = (error as Error).message;
+    progress.updatedAt = new Date().toISOString();
+
+    if (progress.target) {
+      await qdrantClient.deleteCollection(progress.target).catch(() => false);
+    }
+
+    logger.error("Re-index failed", {
+      target: progress.target,
+      error: progress.error,
+    });
+    throw error;
+  }
+};
+
+/**
+ * Starts a re-index in the background and returns its initial progress;
+ * follow it through getCollectionStatus.
+ */
+export const startReindex = (): ReindexProgress => {
+  if (reindexRunning()) {
+    throw createAppError(
+      "A re-index is already running",
+      409,
+      "REINDEX_IN_PROGRESS",
+    );
+  }
+
+  // Failures are recorded on the progress and logged
+  reindexCollection().catch(() => undefined);
+  return { ...(reindex as ReindexProgress) };
+};
@@ -1,34 +1,109 @@
-import { embeddingsModel } from "../infra/geminiClient";
+import { Schemas } from "@qdrant/js-client-rest";
+import { llmProvider } from "../infra/llmProvider";
 import { qdrantClient } from "../infra/qdrantClient";
+import {
+  llmErrorsTotal,
+  llmRequestDuration,
+  qdrantUpsertDuration,
+} from "../infra/metrics";
+import { config } from "../config";
 import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { assessSpam } from "../utils/spamDetection";
+import { applyPiiPolicy, redactForStorage } from "./piiService";
+import {
+  FeedbackPayload,
+  FeedbackSearchFilters,
+  FeedbackSearchHit,
+  StoredFeedbackPoint,
+} from "../types";
 
-const COLLECTION_NAME = "feedback_embeddings";
-const VECTOR_SIZE = 768;
-
-export const ensureCollectionExists = async () => {
-  const collections = await qdrantClient.getCollections();
-  const exists = collections.collections.some(
-    (c) => c.name === COLLECTION_NAME,
-  );
-
-  if (!exists) {
-    await qdrantClient.createCollection(COLLECTION_NAME, {
-      vectors: {
-        size: VECTOR_SIZE,
-        distance: "Cosine",
-      },
-    });
+// Alias of the active versioned collection, see collectionService
+export const COLLECTION_NAME = "feedback_embeddings";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const generateEmbedding = async (text: string): Promise<number[]> => {
+  const labels = { provider: llmProvider.name, operation: "embedding" };
+  const stopTimer = llmRequestDuration.startTimer(labels);
 
-    logger.info(`Qdrant collection created: ${COLLECTION_NAME}`);
+  try {
+    const vector = await llmProvider.embed(text);
+    stopTimer({ outcome: "success" });
+    return vector;
+  } catch (error) {
+    stopTimer({ outcome: "error" });
+    llmErrorsTotal.inc(labels);
+    throw error;
   }
 };
 
-const generateEmbedding = async (text: string): Promise<number[]> => {
-  const embeddings = embeddingsModel?.embedContent(text);
+/**
+ * Id of the stored feedback that `vector` nearly repeats: the most similar
+ * point analyzed within DUPLICATE_WINDOW_DAYS, if it reaches
+ * DUPLICATE_SIMILARITY_THRESHOLD. A match that is itself a duplicate resolves
+ * to its original.
+ */
+export const findDuplicate = async (
+  vector: number[],
+  excludeId?: string,
+): Promise<string | undefined> => {
+  const from = new Date(
+    Date.now() - config.duplicateWindowDays * DAY_MS,
+  ).toISOString();
+
+  const [match] = await qdrantClient.search(COLLECTION_NAME, {
+    vector,
+    limit: 1,
+    score_threshold: config.duplicateThreshold,
+    filter: {
+      must: [{ key: "analyzedAt", range: { gte: from } }],
+      ...(excludeId && { must_not: [{ has_id: [excludeId] }] }),
+    },
+    with_payload: true,
+  });
+
+  if (!match) return undefined;
+  const payload = match.payload as unknown as FeedbackPayload;
+  return payload.duplicateOf || String(match.id);
+};
+
+/**
+ * Request-time duplicate check for analysis results. Bounded by
+ * DUPLICATE_CHECK_TIMEOUT_MS and never throws; the check made when the
+ * embedding is stored is the authoritative one.
+ */
+export const detectDuplicate = async (
+  text: string,
+): Promise<string | undefined> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("Duplicate check timed out")),
+      config.duplicateCheckTimeoutMs,
+    );
+  });
+
+  const check = async () => {
+    const vector = await generateEmbedding(redactForStorage(text));
+    return vector.length > 0 ? findDuplicate(vector) : undefined;
+  };
 
-  return (await embeddings)?.embedding.values || [];
+  try {
+    return await Promise.race([check(), timeout]);
+  } catch (error) {
+    logger.warn("Duplicate check skipped", {
+      error: (error as Error).message,
+    });
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
 };
 
+/**
+ * Embeds feedback and upserts it with its spam verdict and, when it nearly
+ * repeats earlier feedback, the id of the original.
+ */
 export const storeFeedbackEmbedding = async (params: {
   feedbackId: string;
   userId?: string;
@@ -39,30 +114,177 @@ export const storeFeedbackEmbedding = async (params: {
     tags?: string[];
     engagementLevel?: string;
     analyzedAt: string;
+    model?: string;
+    promptVersion?: string;
   };
-}) => {
-  const vector = await generateEmbedding(params.text);
-
-  await qdrantClient.upsert(COLLECTION_NAME, {
-    points: [
-      {
-        id: params.feedbackId,
-        vector,
-        payload: {
-          userId: params.userId,
-          rawText: params.text,
-          sentimentScore: params.insights.sentimentScore,
-          sentimentLabel: params.insights.sentimentLabel,
-          tags: params.insights.tags,
-          engagementLevel: params.insights.engagementLevel,
-          analyzedAt: params.insights.analyzedAt,
-          model: "stub-v1",
+}): Promise<{ duplicateOf?: string }> => {
+  const text = redactForStorage(params.text);
+  const vector = await generateEmbedding(text);
+  const duplicateOf = await findDuplicate(vector, params.feedbackId);
+  const spam = assessSpam(text);
+
+  const stopTimer = qdrantUpsertDuration.startTimer();
+  try {
+    await qdrantClient.upsert(COLLECTION_NAME, {
+      points: [
+        {
+          id: params.feedbackId,
+          vector,
+          payload: {
+            userId: params.userId,
+            rawText: text,
+            sentimentScore: params.insights.sentimentScore,
+            sentimentLabel: params.insights.sentimentLabel,
+            tags: params.insights.tags,
+            engagementLevel: params.insights.engagementLevel,
+            analyzedAt: params.insights.analyzedAt,
+            model: params.insights.model || llmProvider.model,
+            embeddingsModel: llmProvider.embeddingsModel,
+            promptVersion: params.insights.promptVersion,
+            isSpam: spam.isSpam,
+            spamScore: spam.score,
+            duplicateOf,
+          },
         },
-      },
-    ],
-  });
+      ],
+    });
+    stopTimer({ outcome: "success" });
+  } catch (error) {
+    stopTimer({ outcome: "error" });
+    throw error;
+  }
 
   logger.info("Feedback embedding stored", {
     feedbackId: params.feedbackId,
+    duplicateOf,
+    isSpam: spam.isSpam,
+  });
+
+  return { duplicateOf };
+};
+
+export const buildFeedbackFilter = (
+  filters: FeedbackSearchFilters = {},
+): Schemas["Filter"] | undefined => {
+  const must: Schemas["Condition"][] = [];
+
+  if (filters.userId) {
+    must.push({ key: "userId", match: { value: filters.userId } });
+  }
+
+  if (filters.minSentiment !== undefined || filters.maxSentiment !== undefined) {
+    must.push({
+      key: "sentimentScore",
+      range: { gte: filters.minSentiment, lte: filters.maxSentiment },
+    });
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    must.push({ key: "tags", match: { any: filters.tags } });
+  }
+
+  if (filters.from || filters.to) {
+    must.push({
+      key: "analyzedAt",
+      range: { gte: filters.from, lte: filters.to },
+    });
+  }
+
+  // Points stored before spam scoring have no isSpam and count as clean
+  const mustNot: Schemas["Condition"][] = [];
+  if (filters.spam !== undefined) {
+    (filters.spam ? must : mustNot).push({
+      key: "isSpam",
+      match: { value: true },
+    });
+  }
+
+  if (filters.duplicates !== undefined) {
+    (filters.duplicates ? mustNot : must).push({
+      is_empty: { key: "duplicateOf" },
+    });
+  }
+
+  if (must.length === 0 && mustNot.length === 0) return undefined;
+  return {
+    ...(must.length > 0 && { must }),
+    ...(mustNot.length > 0 && { must_not: mustNot }),
+  };
+};
+
+export const searchFeedback = async (params: {
+  text: string;
+  limit: number;
+  scoreThreshold?: number;
+  filters?: FeedbackSearchFilters;
+}): Promise<FeedbackSearchHit[]> => {
+  const vector = await generateEmbedding(applyPiiPolicy(params.text));
+
+  if (vector.length === 0) {
+    throw createAppError(
+      "Embeddings model is not configured",
+      503,
+      "EMBEDDINGS_UNAVAILABLE",
+    );
+  }
+
+  const points = await qdrantClient.search(COLLECTION_NAME, {
+    vector,
+    limit: params.limit,
+    score_threshold: params.scoreThreshold,
+    filter: buildFeedbackFilter(params.filters),
+    with_payload: true,
   });
+
+  return points.map((point) => ({
+    id: String(point.id),
+    score: point.score,
+    payload: point.payload as unknown as FeedbackPayload,
+  }));
+};
+
+const SCROLL_PAGE_SIZE = 256;
+
+/**
+ * Pages through stored feedback matching the filters, up to `limit` points.
+ * With `newestFirst` the most recent points by analyzedAt are read in one
+ * request, since Qdrant does not page ordered scrolls by offset.
+ */
+export const scrollFeedback = async (params: {
+  limit: number;
+  filters?: FeedbackSearchFilters;
+  withVectors?: boolean;
+  newestFirst?: boolean;
+}): Promise<StoredFeedbackPoint[]> => {
+  const points: StoredFeedbackPoint[] = [];
+  let offset: Schemas["ExtendedPointId"] | null | undefined = undefined;
+
+  do {
+    const page = await qdrantClient.scroll(COLLECTION_NAME, {
+      filter: buildFeedbackFilter(params.filters),
+      limit: params.newestFirst
+        ? params.limit
+        : Math.min(SCROLL_PAGE_SIZE, params.limit - points.length),
+      offset: offset ?? undefined,
+      with_payload: true,
+      with_vector: params.withVectors ?? false,
+      ...(params.newestFirst && {
+        order_by: { key: "analyzedAt", direction: "desc" as const },
+      }),
+    });
+
+    page.points.forEach((point) => {
+      points.push({
+        id: String(point.id),
+        vector: Array.isArray(point.vector)
+          ? (point.vector as number[])
+          : undefined,
+        payload: point.payload as unknown as FeedbackPayload,
+      });
+    });
+
+    offset = page.next_page_offset as Schemas["ExtendedPointId"] | null;
+  } while (offset !== null && offset !== undefined && points.length < params.limit);
+
+  return points;
 };
@@ -1,45 +1,254 @@
+import { ZodType } from "zod";
 import { config } from "../config";
 import { logger } from "../utils/logger";
-import { SentimentResult, TagExtractionResult, InsightsResult } from "../types";
-import { processEmbeddingJob } from "../worker/embeddingWorker";
+import { createAppError } from "../utils/errors";
+import {
+  SentimentResult,
+  TagExtractionResult,
+  AspectSentimentResult,
+  AspectAnalysisOptions,
+  InsightsResult,
+  LlmOperation,
+  AnalysisOptions,
+  InsightsStreamEvent,
+  ThemeLabel,
+  GenerationRequest,
+  FeedbackSearchHit,
+  GroundedAnswer,
+} from "../types";
+import { enqueueEmbeddingJob } from "../worker/embeddingWorker";
 import { randomUUID } from "crypto";
-import { isConfigured, model } from "../infra/geminiClient";
+import { llmProvider } from "../infra/llmProvider";
+import {
+  analysisResultsTotal,
+  llmErrorsTotal,
+  llmRequestDuration,
+} from "../infra/metrics";
+import { renderPrompt, resolvePromptVersion } from "./promptRegistry";
+import { guardUserText, sanitizeUserText } from "./promptSafety";
+import { applyPiiPolicy } from "./piiService";
+import { detectDuplicate } from "./embeddingService";
+import {
+  GENERAL_TAG,
+  describeTaxonomy,
+  mapTags,
+  matchTaxonomy,
+  resolveTag,
+} from "./taxonomyService";
+import {
+  InsightsOutput,
+  AspectsOutput,
+  TagsOutput,
+  aspectsOutputSchema,
+  createAskOutputSchema,
+  formatSchemaErrors,
+  insightsOutputSchema,
+  sentimentOutputSchema,
+  tagsOutputSchema,
+  themeLabelOutputSchema,
+} from "../schemas/analysisSchemas";
+import { assessSpam } from "../utils/spamDetection";
+import {
+  canonicalizeTags,
+  estimateEngagement,
+  labelForScore,
+  matchThemes,
+  scoreSentiment,
+} from "../utils/keywordAnalysis";
+import { detectLanguage } from "../utils/languageDetection";
+import { getRequestContext } from "../utils/requestContext";
+import { analyzeAspectWindows, locateSpan } from "../utils/aspectAnalysis";
+import { extractPartialFields } from "../utils/partialJson";
+
+export const FALLBACK_MODEL = "keyword-fallback";
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+// "es" -> "Spanish"; unknown codes are passed through as-is
+const languageName = (code: string): string => {
+  try {
+    return languageNames.of(code) || code;
+  } catch {
+    return code;
+  }
+};
 
-export const analyzeSentiment = async (
-  text: string,
-): Promise<SentimentResult> => {
-  if (!isConfigured || !model) {
-    return getFallbackSentiment(text);
+// Keyword fallback results only: the provider is unconfigured, its circuit
+// is open (whatever AI_FALLBACK_ENABLED says) or the client is over budget
+const canCallModel = (): boolean =>
+  llmProvider.isConfigured() &&
+  llmProvider.isAvailable() &&
+  !getRequestContext()?.fallbackOnly;
+
+// Provider call with latency and error metrics per operation
+const generate = async (request: GenerationRequest): Promise<string> => {
+  const labels = { provider: llmProvider.name, operation: request.operation };
+  const stopTimer = llmRequestDuration.startTimer(labels);
+
+  try {
+    const text = await llmProvider.generateText(request);
+    stopTimer({ outcome: "success" });
+    return text;
+  } catch (error) {
+    stopTimer({ outcome: "error" });
+    llmErrorsTotal.inc(labels);
+    throw error;
   }
+};
 
+// Counts every analysis result so the fallback rate can be alerted on
+const countResult = <T extends { isFallback?: boolean }>(
+  operation: LlmOperation,
+  result: T,
+): T => {
+  analysisResultsTotal.inc({
+    operation,
+    fallback: String(result.isFallback === true),
+  });
+  return result;
+};
+
+const parseModelJson = (responseText: string): unknown => {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("Response did not contain a JSON object");
+  }
+  return JSON.parse(jsonMatch[0]);
+};
+
+const checkOutput = <T>(
+  responseText: string,
+  schema: ZodType<T>,
+): { data: T } | { errors: string[] } => {
+  let raw: unknown;
   try {
-    const prompt = `Analyze the sentiment of the following text and respond with ONLY a JSON object in this exact format:
-                    {"score": <number between -1 and 1>, "label": "<positive|negative|neutral>", "confidence": <number between 0 and 1>}
+    raw = parseModelJson(responseText);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
 
-                    Text to analyze: "${text}"
+  const result = schema.safeParse(raw);
+  return result.success
+    ? { data: result.data }
+    : { errors: formatSchemaErrors(result.error) };
+};
 
-                    Respond with only the JSON object, no other text.`;
+const buildRepairPrompt = (
+  prompt: string,
+  responseText: string,
+  errors: string[],
+): string => `${prompt}
+
+Your previous response was rejected because it did not match the required format.
+Previous response:
+${responseText}
+
+Validation errors:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Respond again with ONLY a corrected JSON object in the exact format requested above.`;
+
+/**
+ * Validates a model reply against `schema`. An invalid reply gets one repair
+ * re-prompt that includes the validation errors; if that also fails the call
+ * is rejected with INVALID_MODEL_OUTPUT.
+ */
+const validateOrRepair = async <T>(
+  operation: LlmOperation,
+  prompt: string,
+  text: string,
+  schema: ZodType<T>,
+  responseText: string,
+): Promise<{ data: T; repaired: boolean }> => {
+  const first = checkOutput(responseText, schema);
+  if ("data" in first) {
+    return { data: first.data, repaired: false };
+  }
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const responseText = response.text().trim();
+  logger.warn("Model output failed validation, requesting repair", {
+    operation,
+    errors: first.errors,
+  });
 
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        score: Math.max(-1, Math.min(1, parsed.score)),
-        label: parsed.label || "neutral",
-        confidence: parsed.confidence || 0.8,
-      };
-    }
+  const repairText = (
+    await generate({
+      operation,
+      prompt: buildRepairPrompt(prompt, responseText, first.errors),
+      text,
+    })
+  ).trim();
+
+  const second = checkOutput(repairText, schema);
+  if ("data" in second) {
+    return { data: second.data, repaired: true };
+  }
+
+  throw createAppError(
+    `Model returned invalid ${operation} output: ${second.errors.join("; ")}`,
+    502,
+    "INVALID_MODEL_OUTPUT",
+  );
+};
+
+const generateStructured = async <T>(
+  operation: LlmOperation,
+  prompt: string,
+  text: string,
+  schema: ZodType<T>,
+): Promise<{ data: T; repaired: boolean }> => {
+  const responseText = (
+    await generate({ operation, prompt, text })
+  ).trim();
+
+  return validateOrRepair(operation, prompt, text, schema, responseText);
+};
+
+export const analyzeSentiment = async (
+  text: string,
+  options: AnalysisOptions = {},
+): Promise<SentimentResult> => {
+  const promptVersion = resolvePromptVersion(
+    "sentiment",
+    options.promptVersion,
+  );
+  const redacted = applyPiiPolicy(text);
+  const { sanitized, riskFlags } = guardUserText(redacted);
+
+  if (!canCallModel()) {
+    return countResult("sentiment", {
+      ...getFallbackSentiment(redacted),
+      riskFlags,
+    });
+  }
 
-    throw new Error("Could not parse sentiment response");
+  try {
+    const prompt = renderPrompt("sentiment", promptVersion, {
+      text: sanitized,
+    });
+
+    const { data, repaired } = await generateStructured(
+      "sentiment",
+      prompt,
+      sanitized,
+      sentimentOutputSchema,
+    );
+
+    return countResult<SentimentResult>("sentiment", {
+      ...data,
+      detectedLanguage: detectLanguage(redacted),
+      model: llmProvider.model,
+      promptVersion,
+      riskFlags,
+      repaired,
+    });
   } catch (error) {
     const err = error as Error;
     logger.error("Sentiment analysis failed", { error: err.message });
     if (config.fallbackEnabled) {
-      return getFallbackSentiment(text);
+      return countResult("sentiment", {
+        ...getFallbackSentiment(redacted),
+        riskFlags,
+      });
     }
     throw error;
   }
@@ -47,224 +256,529 @@ export const analyzeSentiment = async (
 
 export const extractTags = async (
   text: string,
+  options: AnalysisOptions = {},
 ): Promise<TagExtractionResult> => {
-  if (!isConfigured || !model) {
-    return getFallbackTags(text);
+  const promptVersion = resolvePromptVersion("tags", options.promptVersion);
+  const redacted = applyPiiPolicy(text);
+  const { sanitized, riskFlags } = guardUserText(redacted);
+
+  if (!canCallModel()) {
+    return countResult("tags", { ...getFallbackTags(redacted), riskFlags });
   }
 
   try {
-    const prompt = `Extract key themes and tags from the following text. Respond with ONLY a JSON object in this exact format:
-                    {"tags": ["tag1", "tag2", "tag3"], "primaryTheme": "<main theme>"}
-                    Limit to 5 most relevant tags. Tags should be lowercase single words or short phrases.
-                    Text to analyze: "${text}"
-                    Respond with only the JSON object, no other text.`;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const responseText = response.text().trim();
-
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        tags: Array.isArray(parsed.tags) ? parsed.tags.slice(0, 5) : [],
-        primaryTheme: parsed.primaryTheme || "general",
-      };
+    const prompt = renderPrompt("tags", promptVersion, {
+      text: sanitized,
+      taxonomy: describeTaxonomy(),
+    });
+
+    const { data, repaired } = await generateStructured(
+      "tags",
+      prompt,
+      sanitized,
+      tagsOutputSchema,
+    );
+
+    return countResult<TagExtractionResult>("tags", {
+      ...normalizeTagOutput(data),
+      detectedLanguage: detectLanguage(redacted),
+      model: llmProvider.model,
+      promptVersion,
+      riskFlags,
+      repaired,
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error("Tag extraction failed", { error: err.message });
+    if (config.fallbackEnabled) {
+      return countResult("tags", { ...getFallbackTags(redacted), riskFlags });
     }
+    throw error;
+  }
+};
+
+// Maps model tags onto the taxonomy; the primary theme falls back to the
+// first canonical tag when it is not in the taxonomy itself
+const normalizeTagOutput = (
+  data: TagsOutput,
+): Pick<TagExtractionResult, "tags" | "primaryTheme" | "candidateTags"> => {
+  const { tags, candidateTags } = mapTags(data.tags);
+  const primaryTheme = resolveTag(data.primaryTheme);
 
-    throw new Error("Could not parse tags response");
+  return {
+    tags,
+    primaryTheme:
+      primaryTheme && tags.includes(primaryTheme)
+        ? primaryTheme
+        : tags[0] || GENERAL_TAG,
+    candidateTags,
+  };
+};
+
+// Canonical aspect names with spans located in the analyzed text. Aspects
+// outside the set are dropped unless free-form aspects are allowed.
+const normalizeAspectOutput = (
+  data: AspectsOutput,
+  text: string,
+  aspects: string[],
+  freeForm: boolean,
+): AspectSentimentResult["aspects"] => {
+  const seen = new Set<string>();
+
+  return data.aspects.flatMap(({ aspect, score, label, span }) => {
+    const name = canonicalizeTags([aspect])[0];
+    if (!name || seen.has(name) || (!freeForm && !aspects.includes(name))) {
+      return [];
+    }
+    seen.add(name);
+    return [{ aspect: name, score, label, span: locateSpan(text, span) }];
+  });
+};
+
+/**
+ * Sentiment per aspect (product, support, ...) with the passage supporting
+ * each score. Span offsets refer to the text after PII redaction.
+ */
+export const analyzeAspects = async (
+  text: string,
+  options: AspectAnalysisOptions = {},
+): Promise<AspectSentimentResult> => {
+  const promptVersion = resolvePromptVersion("aspects", options.promptVersion);
+  const aspects = options.aspects
+    ? canonicalizeTags(options.aspects)
+    : config.sentimentAspects;
+  const freeForm = options.freeForm ?? true;
+  const redacted = applyPiiPolicy(text);
+  const { sanitized, riskFlags } = guardUserText(redacted);
+
+  if (!canCallModel()) {
+    return countResult("aspects", {
+      ...getFallbackAspects(redacted, aspects),
+      riskFlags,
+    });
+  }
+
+  try {
+    const prompt = renderPrompt("aspects", promptVersion, {
+      text: sanitized,
+      aspects: aspects.join(", "),
+    });
+
+    const { data, repaired } = await generateStructured(
+      "aspects",
+      prompt,
+      sanitized,
+      aspectsOutputSchema,
+    );
+
+    return countResult<AspectSentimentResult>("aspects", {
+      aspects: normalizeAspectOutput(data, redacted, aspects, freeForm),
+      configuredAspects: aspects,
+      detectedLanguage: detectLanguage(redacted),
+      model: llmProvider.model,
+      promptVersion,
+      riskFlags,
+      repaired,
+    });
   } catch (error) {
     const err = error as Error;
-    logger.error("Tag extraction failed", { error: err.message });
+    logger.error("Aspect sentiment analysis failed", { error: err.message });
     if (config.fallbackEnabled) {
-      return getFallbackTags(text);
+      return countResult("aspects", {
+        ...getFallbackAspects(redacted, aspects),
+        riskFlags,
+      });
     }
     throw error;
   }
 };
 
+// Stamps validated insights, checks them for spam and duplicates and queues
+// them for embedding
+const recordInsights = async (
+  data: InsightsOutput,
+  promptVersion: string,
+  text: string,
+  userId?: string,
+  persist = true,
+): Promise<InsightsResult> => {
+  const insights = {
+    ...data,
+    ...mapTags(data.tags),
+    detectedLanguage: detectLanguage(text),
+    analyzedAt: new Date().toISOString(),
+    model: llmProvider.model,
+    promptVersion,
+  };
+
+  const feedbackId = randomUUID();
+  if (!persist) {
+    return { ...insights, feedbackId, spam: assessSpam(text) };
+  }
+
+  const duplicateOf = await detectDuplicate(text);
+
+  // Persisted for the embedding worker; a failure here must not fail the analysis
+  await enqueueEmbeddingJob({
+    feedbackId,
+    userId,
+    text,
+    insights,
+  }).catch((error) => {
+    logger.error("Failed to enqueue embedding job", {
+      feedbackId,
+      error: (error as Error).message,
+    });
+  });
+
+  return { ...insights, feedbackId, spam: assessSpam(text), duplicateOf };
+};
+
 export const generateInsights = async (
   text: string,
   userId?: string,
+  options: AnalysisOptions = {},
 ): Promise<InsightsResult> => {
-  if (!isConfigured || !model) {
-    return getFallbackInsights(text);
+  const promptVersion = resolvePromptVersion(
+    "insights",
+    options.promptVersion,
+  );
+  const redacted = applyPiiPolicy(text);
+  const { sanitized, riskFlags } = guardUserText(redacted);
+
+  if (!canCallModel()) {
+    return countResult("insights", {
+      ...getFallbackInsights(redacted),
+      riskFlags,
+    });
   }
 
   try {
-    const prompt = `Analyze the following user feedback and provide comprehensive insights. Respond with ONLY a JSON object in this exact format:
-                    {
-                      "sentimentScore": <number between -1 and 1>,
-                      "sentimentLabel": "<positive|negative|neutral|mixed>",
-                      "tags": ["tag1", "tag2", "tag3"],
-                      "engagementLevel": "<Low|Medium|High|VeryHigh>",
-                      "summary": "<brief 1-2 sentence summary>",
-                      "actionItems": ["suggestion1", "suggestion2"]
-                    }
-
-                    Guidelines:
-                    - sentimentScore: -1 is very negative, 0 is neutral, 1 is very positive
-                    - engagementLevel: Based on how engaged/invested the user seems
-                    - tags: Extract 3-5 key themes, lowercase
-                    - actionItems: 1-2 actionable suggestions based on feedback
-
-                    User feedback: "${text}"
-
-                    Respond with only the JSON object, no other text.`;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const responseText = response.text().trim();
-
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      const insights = {
-        sentimentScore: Math.max(-1, Math.min(1, parsed.sentimentScore || 0)),
-        sentimentLabel: parsed.sentimentLabel || "neutral",
-        tags: Array.isArray(parsed.tags) ? parsed.tags.slice(0, 5) : [],
-        engagementLevel: validateEngagementLevel(parsed.engagementLevel),
-        summary: parsed.summary || "",
-        actionItems: Array.isArray(parsed.actionItems)
-          ? parsed.actionItems.slice(0, 3)
-          : [],
-        analyzedAt: new Date().toISOString(),
-      };
-
-      const feedbackId = randomUUID();
-
-      //Async worker
-      processEmbeddingJob({
-        feedbackId,
+    const prompt = renderPrompt("insights", promptVersion, {
+      text: sanitized,
+      outputLanguage: languageName(options.outputLanguage || "en"),
+      taxonomy: describeTaxonomy(),
+    });
+
+    const { data, repaired } = await generateStructured(
+      "insights",
+      prompt,
+      sanitized,
+      insightsOutputSchema,
+    );
+
+    return countResult("insights", {
+      ...(await recordInsights(
+        data,
+        promptVersion,
+        redacted,
         userId,
-        text,
-        insights,
-      }).catch(() => {});
-
-      return {
-        sentimentScore: Math.max(-1, Math.min(1, parsed.sentimentScore || 0)),
-        sentimentLabel: parsed.sentimentLabel || "neutral",
-        tags: Array.isArray(parsed.tags) ? parsed.tags.slice(0, 5) : [],
-        engagementLevel: validateEngagementLevel(parsed.engagementLevel),
-        summary: parsed.summary || "",
-        actionItems: Array.isArray(parsed.actionItems)
-          ? parsed.actionItems.slice(0, 3)
-          : [],
-        analyzedAt: new Date().toISOString(),
-      };
-    }
-
-    throw new Error("Could not parse insights response");
+        options.persist,
+      )),
+      riskFlags,
+      repaired,
+    });
   } catch (error) {
     const err = error as Error;
     logger.error("Insights generation failed", { error: err.message, userId });
     if (config.fallbackEnabled) {
-      return getFallbackInsights(text);
+      return countResult("insights", {
+        ...getFallbackInsights(redacted),
+        riskFlags,
+      });
     }
     throw error;
   }
 };
 
-const validateEngagementLevel = (
-  level: string,
-): "Low" | "Medium" | "High" | "VeryHigh" => {
-  const validLevels: Array<"Low" | "Medium" | "High" | "VeryHigh"> = [
-    "Low",
-    "Medium",
-    "High",
-    "VeryHigh",
-  ];
-  if (validLevels.includes(level as "Low" | "Medium" | "High" | "VeryHigh")) {
-    return level as "Low" | "Medium" | "High" | "VeryHigh";
+/**
+ * Names the theme shared by a cluster of feedback. Labels are descriptive
+ * only, so any model failure falls back to the cluster's top tags.
+ */
+export const labelTheme = async (
+  examples: string[],
+  topTags: string[],
+): Promise<ThemeLabel> => {
+  const fallback: ThemeLabel = {
+    label: topTags.slice(0, 2).join(" / ") || "general",
+    labelSource: "keywords",
+  };
+
+  if (!canCallModel() || examples.length === 0) {
+    return fallback;
+  }
+
+  try {
+    const prompt = renderPrompt("themes", resolvePromptVersion("themes"), {
+      examples: examples
+        .map((example) => `<user_text>\n${sanitizeUserText(example)}\n</user_text>`)
+        .join("\n"),
+      tags: topTags.join(", ") || "none",
+    });
+
+    const { data } = await generateStructured(
+      "themes",
+      prompt,
+      examples.join("\n"),
+      themeLabelOutputSchema,
+    );
+
+    return { ...data, labelSource: "model" };
+  } catch (error) {
+    logger.warn("Theme labelling failed, using keywords", {
+      error: (error as Error).message,
+    });
+    return fallback;
   }
-  return "Medium";
 };
 
-const getFallbackSentiment = (text: string): SentimentResult => {
-  const positiveWords = [
-    "good",
-    "great",
-    "excellent",
-    "love",
-    "enjoy",
-    "happy",
-    "amazing",
-    "wonderful",
-  ];
-  const negativeWords = [
-    "bad",
-    "poor",
-    "terrible",
-    "hate",
-    "confusing",
-    "frustrated",
-    "awful",
-    "horrible",
-  ];
-
-  const lowerText = text.toLowerCase();
-  let score = 0;
-
-  positiveWords.forEach((word) => {
-    if (lowerText.includes(word)) score += 0.2;
-  });
-  negativeWords.forEach((word) => {
-    if (lowerText.includes(word)) score -= 0.2;
-  });
+/**
+ * Answers a question from the given feedback only. The model must cite the
+ * ids of the sources it used and may decline when they are not enough.
+ * Without the model the closest sources are quoted instead.
+ */
+export const answerFromFeedback = async (
+  question: string,
+  sources: FeedbackSearchHit[],
+): Promise<GroundedAnswer> => {
+  if (!canCallModel()) {
+    return countResult("ask", getExtractiveAnswer(sources));
+  }
+
+  const promptVersion = resolvePromptVersion("ask");
+  try {
+    const prompt = renderPrompt("ask", promptVersion, {
+      question: sanitizeUserText(question),
+      sources: sources
+        .map(
+          (source) =>
+            `<user_text id="${source.id}">\n${sanitizeUserText(source.payload.rawText)}\n</user_text>`,
+        )
+        .join("\n"),
+    });
+
+    const { data, repaired } = await generateStructured(
+      "ask",
+      prompt,
+      question,
+      createAskOutputSchema(sources.map((source) => source.id)),
+    );
+
+    return countResult<GroundedAnswer>("ask", {
+      answered: data.answered,
+      answer: data.answer,
+      citations: data.answered ? [...new Set(data.citations)] : [],
+      answerSource: "model",
+      model: llmProvider.model,
+      promptVersion,
+      repaired,
+    });
+  } catch (error) {
+    logger.error("Question answering failed", {
+      error: (error as Error).message,
+    });
+    if (config.fallbackEnabled) {
+      return countResult("ask", getExtractiveAnswer(sources));
+    }
+    throw error;
+  }
+};
+
+const STREAMED_INSIGHT_FIELDS = [
+  "sentimentScore",
+  "sentimentLabel",
+  "tags",
+  "engagementLevel",
+  "summary",
+  "actionItems",
+];
+
+/**
+ * Streaming variant of generateInsights. Yields a "partial" event whenever a
+ * field's value appears or grows (the summary grows token by token) and ends
+ * with one "result" event carrying the validated InsightsResult.
+ */
+export async function* streamInsights(
+  text: string,
+  userId?: string,
+  options: AnalysisOptions = {},
+): AsyncGenerator<InsightsStreamEvent> {
+  const promptVersion = resolvePromptVersion(
+    "insights",
+    options.promptVersion,
+  );
+  const redacted = applyPiiPolicy(text);
+  const { sanitized, riskFlags } = guardUserText(redacted);
+
+  if (!canCallModel()) {
+    yield {
+      type: "result",
+      data: countResult("insights", {
+        ...getFallbackInsights(redacted),
+        riskFlags,
+      }),
+    };
+    return;
+  }
+
+  let result: InsightsResult;
+  try {
+    const prompt = renderPrompt("insights", promptVersion, {
+      text: sanitized,
+      outputLanguage: languageName(options.outputLanguage || "en"),
+      taxonomy: describeTaxonomy(),
+    });
+
+    let buffer = "";
+    const emitted: Record<string, string> = {};
+    const labels = { provider: llmProvider.name, operation: "insights" };
+    const stopTimer = llmRequestDuration.startTimer(labels);
+
+    const stream = llmProvider.generateTextStream({
+      operation: "insights",
+      prompt,
+      text: sanitized,
+    });
+    try {
+      for await (const chunk of stream) {
+        buffer += chunk;
+
+        const fields = extractPartialFields(buffer, STREAMED_INSIGHT_FIELDS, [
+          "summary",
+        ]);
+        for (const [field, value] of Object.entries(fields)) {
+          const serialized = JSON.stringify(value);
+          if (emitted[field] !== serialized) {
+            emitted[field] = serialized;
+            yield { type: "partial", field, value };
+          }
+        }
+      }
+      stopTimer({ outcome: "success" });
+    } catch (error) {
+      stopTimer({ outcome: "error" });
+      llmErrorsTotal.inc(labels);
+      throw error;
+    }
+
+    const { data, repaired } = await validateOrRepair(
+      "insights",
+      prompt,
+      sanitized,
+      insightsOutputSchema,
+      buffer.trim(),
+    );
+
+    result = {
+      ...(await recordInsights(
+        data,
+        promptVersion,
+        redacted,
+        userId,
+        options.persist,
+      )),
+      riskFlags,
+      repaired,
+    };
+  } catch (error) {
+    const err = error as Error;
+    logger.error("Streaming insights failed", { error: err.message, userId });
+    if (!config.fallbackEnabled) {
+      throw error;
+    }
+    result = { ...getFallbackInsights(redacted), riskFlags };
+  }
 
-  score = Math.max(-1, Math.min(1, score));
+  yield { type: "result", data: countResult("insights", result) };
+}
+
+export const getFallbackSentiment = (text: string): SentimentResult => {
+  const detectedLanguage = detectLanguage(text);
+  const score = scoreSentiment(text, detectedLanguage);
 
   return {
     score,
-    label: score > 0.1 ? "positive" : score < -0.1 ? "negative" : "neutral",
+    label: labelForScore(score),
     confidence: 0.5,
+    detectedLanguage,
+    model: FALLBACK_MODEL,
     isFallback: true,
   };
 };
 
-const getFallbackTags = (text: string): TagExtractionResult => {
-  const commonThemes: Record<string, string[]> = {
-    product: ["product", "feature", "functionality"],
-    usability: ["usability", "easy", "difficult", "confusing", "intuitive"],
-    support: ["support", "help", "service", "response"],
-    onboarding: ["onboarding", "getting started", "tutorial", "learning"],
-    performance: ["fast", "slow", "performance", "speed"],
-    pricing: ["price", "cost", "expensive", "cheap", "value"],
-  };
+export const getFallbackTags = (text: string): TagExtractionResult => {
+  const detectedLanguage = detectLanguage(text);
+  const { tags, candidateTags } = mapTags([
+    ...matchThemes(text, detectedLanguage),
+    ...matchTaxonomy(text),
+  ]);
 
-  const lowerText = text.toLowerCase();
-  const tags: string[] = [];
+  return {
+    tags,
+    primaryTheme: tags[0] || GENERAL_TAG,
+    candidateTags,
+    detectedLanguage,
+    model: FALLBACK_MODEL,
+    isFallback: true,
+  };
+};
 
-  Object.entries(commonThemes).forEach(([theme, keywords]) => {
-    if (keywords.some((kw) => lowerText.includes(kw))) {
-      tags.push(theme);
-    }
-  });
+export const getFallbackAspects = (
+  text: string,
+  aspects: string[] = config.sentimentAspects,
+): AspectSentimentResult => {
+  const detectedLanguage = detectLanguage(text);
 
   return {
-    tags: tags.length > 0 ? tags : ["general"],
-    primaryTheme: tags[0] || "general",
+    aspects: analyzeAspectWindows(text, aspects, detectedLanguage),
+    configuredAspects: aspects,
+    detectedLanguage,
+    model: FALLBACK_MODEL,
     isFallback: true,
   };
 };
 
-const getFallbackInsights = (text: string): InsightsResult => {
+export const getFallbackInsights = (text: string): InsightsResult => {
   const sentiment = getFallbackSentiment(text);
   const tagsResult = getFallbackTags(text);
 
-  let engagementLevel: "Low" | "Medium" | "High" | "VeryHigh" = "Medium";
-  if (text.length > 200) engagementLevel = "High";
-  if (text.length < 50) engagementLevel = "Low";
-
   return {
     sentimentScore: sentiment.score,
     sentimentLabel: sentiment.label,
     tags: tagsResult.tags,
-    engagementLevel,
+    candidateTags: tagsResult.candidateTags,
+    engagementLevel: estimateEngagement(text),
     summary: "Fallback analysis - AI service unavailable",
     actionItems: ["Review feedback manually"],
     analyzedAt: new Date().toISOString(),
+    spam: assessSpam(text),
+    detectedLanguage: sentiment.detectedLanguage,
+    model: FALLBACK_MODEL,
+    isFallback: true,
+  };
+};
+
+const EXTRACTIVE_SOURCES = 3;
+
+const quote = (text: string): string => {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  return `"${trimmed.length > 200 ? `${trimmed.slice(0, 197)}...` : trimmed}"`;
+};
+
+// Quotes the closest sources verbatim rather than composing an answer
+export const getExtractiveAnswer = (
+  sources: FeedbackSearchHit[],
+): GroundedAnswer => {
+  const quoted = sources.slice(0, EXTRACTIVE_SOURCES);
+
+  return {
+    answered: true,
+    answer: `The most relevant feedback says: ${quoted
+      .map((source) => quote(source.payload.rawText))
+      .join(" ")}`,
+    citations: quoted.map((source) => source.id),
+    answerSource: "extractive",
+    model: FALLBACK_MODEL,
     isFallback: true,
   };
 };
@@ -0,0 +1,354 @@
+import { ParamSchema, Schema } from "express-validator";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { config } from "../config";
+import {
+  ResponseSchemaName,
+  responseSchemas,
+} from "../schemas/responseSchemas";
+import { ApiScope } from "../types";
+
+// Builds the OpenAPI 3.1 document. Request schemas are derived from the
+// express-validator schemas the routes validate with. Response schemas come
+// from the hand-written zod mirrors of the result types in responseSchemas.
+
+type ZodToJsonSchemaInput = Parameters<typeof zodToJsonSchema>[0];
+
+export type JsonSchema = Record<string, unknown>;
+
+export type HttpMethod = "get" | "post" | "put" | "delete";
+
+export type RouteDoc = {
+  method: HttpMethod;
+  // Express-style path, e.g. /api/ai/taxonomy/:id
+  path: string;
+  summary: string;
+  tag: string;
+  // Routes outside /api/ai need no API key
+  public?: boolean;
+  scope?: ApiScope;
+  // Whether the route is subject to the daily usage budget
+  budget?: boolean;
+  body?: Schema;
+  query?: Schema;
+  // Success payload inside the ApiResponse envelope
+  response?: ResponseSchemaName;
+  status?: number;
+  // Non-JSON success bodies, e.g. server-sent events
+  contentType?: string;
+};
+
+type ValidatorEntry = { options?: unknown; errorMessage?: unknown };
+
+const VALIDATOR_KEYS = [
+  "notEmpty",
+  "isString",
+  "isLength",
+  "matches",
+  "isISO8601",
+  "isIn",
+  "isInt",
+  "isFloat",
+  "isBoolean",
+  "isArray",
+  "isObject",
+] as const;
+
+const optionsOf = (entry: unknown): Record<string, unknown> => {
+  const options = (entry as ValidatorEntry | undefined)?.options;
+  return typeof options === "object" && options !== null
+    ? (options as Record<string, unknown>)
+    : {};
+};
+
+const bounds = (
+  entry: unknown,
+  minKey: string,
+  maxKey: string,
+): JsonSchema => {
+  const { min, max } = optionsOf(entry);
+  return {
+    ...(min !== undefined && { [minKey]: min }),
+    ...(max !== undefined && { [maxKey]: max }),
+  };
+};
+
+/**
+ * JSON schema for one field of an express-validator schema. Sanitizers are
+ * ignored; the last validator message becomes the description.
+ */
+export const fieldToJsonSchema = (param: ParamSchema): JsonSchema => {
+  const schema: JsonSchema = {};
+  let description: string | undefined;
+
+  VALIDATOR_KEYS.forEach((key) => {
+    const entry = param[key];
+    if (!entry) return;
+
+    const message = (entry as ValidatorEntry).errorMessage;
+    if (typeof message === "string") description = message;
+
+    switch (key) {
+      case "notEmpty":
+        schema.minLength = 1;
+        break;
+      case "isString":
+        schema.type = "string";
+        break;
+      case "isLength":
+        Object.assign(schema, bounds(entry, "minLength", "maxLength"));
+        break;
+      case "matches": {
+        const pattern = (entry as ValidatorEntry).options;
+        schema.pattern = pattern instanceof RegExp ? pattern.source : pattern;
+        break;
+      }
+      case "isISO8601":
+        // A pattern, checked first, narrows the field to a calendar date
+        Object.assign(schema, {
+          type: "string",
+          format: schema.pattern === undefined ? "date-time" : "date",
+        });
+        break;
+      case "isIn": {
+        const [values] = (entry as ValidatorEntry).options as unknown[][];
+        Object.assign(schema, { type: "string", enum: values });
+        break;
+      }
+      case "isInt":
+        schema.type = "integer";
+        Object.assign(schema, bounds(entry, "minimum", "maximum"));
+        break;
+      case "isFloat":
+        schema.type = "number";
+        Object.assign(schema, bounds(entry, "minimum", "maximum"));
+        break;
+      case "isBoolean":
+        schema.type = "boolean";
+        break;
+      case "isArray":
+        schema.type = "array";
+        Object.assign(schema, bounds(entry, "minItems", "maxItems"));
+        break;
+      case "isObject":
+        schema.type = "object";
+        break;
+    }
+  });
+
+  if (schema.type === undefined && schema.pattern !== undefined) {
+    schema.type = "string";
+  }
+
+  return description ? { ...schema, description } : schema;
+};
+
+/**
+ * Object schema for a request body. Dotted field paths become nested
+ * properties and "*" segments become array items.
+ */
+export const bodyToJsonSchema = (body: Schema): JsonSchema => {
+  const root: JsonSchema = { type: "object", properties: {} };
+
+  Object.entries(body).forEach(([fieldPath, param]) => {
+    const segments = fieldPath.split(".");
+    let node = root;
+
+    segments.forEach((segment, index) => {
+      if (segment === "*") {
+        node.type = node.type || "array";
+        node.items = node.items || {};
+        node = node.items as JsonSchema;
+        return;
+      }
+
+      node.type = node.type || "object";
+      const properties = (node.properties = node.properties || {}) as Record<
+        string,
+        JsonSchema
+      >;
+      properties[segment] = properties[segment] || {};
+
+      if (index === segments.length - 1 && !param.optional) {
+        node.required = [...((node.required as string[]) || []), segment];
+      }
+      node = properties[segment];
+    });
+
+    Object.assign(node, fieldToJsonSchema(param));
+  });
+
+  return root;
+};
+
+const toOpenApiPath = (path: string): string =>
+  path.replace(/:(\w+)/g, "{$1}");
+
+const pathParameters = (path: string): JsonSchema[] =>
+  [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+const queryParameters = (query: Schema): JsonSchema[] =>
+  Object.entries(query).map(([name, param]) => {
+    const { description, ...schema } = fieldToJsonSchema(param);
+    return {
+      name,
+      in: "query",
+      required: !param.optional,
+      ...(description !== undefined && { description }),
+      schema,
+    };
+  });
+
+const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const errorResponse = (description: string): JsonSchema => ({
+  description,
+  content: { "application/json": { schema: ref("ErrorResponse") } },
+});
+
+const successResponse = (route: RouteDoc): JsonSchema => {
+  if (route.contentType) {
+    return {
+      description: route.summary,
+      content: { [route.contentType]: { schema: { type: "string" } } },
+    };
+  }
+
+  const data = route.response ? ref(route.response) : { type: "null" };
+  return {
+    description: route.summary,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            success: { const: true },
+            data,
+            correlationId: { type: "string" },
+          },
+          required: ["success", "data"],
+          additionalProperties: false,
+        },
+      },
+    },
+  };
+};
+
+const buildOperation = (route: RouteDoc): JsonSchema => {
+  const responses: JsonSchema = {
+    [String(route.status || 200)]: successResponse(route),
+  };
+  if (route.body || route.query) {
+    responses["400"] = errorResponse("Validation failed");
+  }
+  if (!route.public) {
+    responses["401"] = errorResponse("Missing or invalid API key");
+  }
+  if (route.scope) {
+    responses["403"] = errorResponse(`API key lacks the '${route.scope}' scope`);
+  }
+  if (route.budget) {
+    responses["402"] = errorResponse("Daily usage budget exceeded");
+    responses["429"] = errorResponse("Rate limit or daily usage budget exceeded");
+  } else if (!route.public) {
+    responses["429"] = errorResponse("Rate limit exceeded");
+  }
+  responses.default = errorResponse("Error");
+
+  const parameters = [
+    ...pathParameters(route.path),
+    ...(route.query ? queryParameters(route.query) : []),
+  ];
+
+  return {
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.scope && { description: `Requires the \`${route.scope}\` scope.` }),
+    ...(route.public && { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: bodyToJsonSchema(route.body) },
+        },
+      },
+    }),
+    responses,
+  };
+};
+
+const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    success: { const: false },
+    error: {
+      type: "object",
+      properties: {
+        message: { type: "string" },
+        code: { type: "string" },
+      },
+      required: ["message", "code"],
+      additionalProperties: false,
+    },
+    correlationId: { type: "string" },
+    // Field-level details of a VALIDATION_ERROR
+    errors: { type: "array", items: { type: "object" } },
+  },
+  required: ["success", "error"],
+  additionalProperties: false,
+};
+
+const componentSchemas = (): Record<string, JsonSchema> => {
+  const schemas: Record<string, JsonSchema> = {};
+
+  Object.entries(responseSchemas).forEach(([name, schema]) => {
+    // zod-to-json-schema resolves zod's types through another entry point,
+    // which TypeScript cannot compare with these schemas structurally
+    const jsonSchema: JsonSchema = {
+      ...zodToJsonSchema(schema as unknown as ZodToJsonSchemaInput, {
+        $refStrategy: "none",
+      }),
+    };
+    // The component lives inside the document, not as a standalone draft
+    delete jsonSchema.$schema;
+    schemas[name] = jsonSchema;
+  });
+
+  return { ...schemas, ErrorResponse: ERROR_RESPONSE_SCHEMA };
+};
+
+export const buildOpenApiDocument = (routes: RouteDoc[]): JsonSchema => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  routes.forEach((route) => {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: buildOperation(route) };
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "ShapeGlobal AI Service",
+      description:
+        "Sentiment, tagging and insight analysis of user feedback, backed by Gemini with a keyword fallback.",
+      version: config.serviceVersion,
+    },
+    servers: [{ url: "/" }],
+    security: [{ ApiKeyHeader: [] }, { BearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        ApiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+        BearerAuth: { type: "http", scheme: "bearer" },
+      },
+      schemas: componentSchemas(),
+    },
+  };
+};
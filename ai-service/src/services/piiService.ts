@@ -0,0 +1,139 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { PiiEntity, PiiEntityType, PiiScanResult } from "../types";
+
+// Patterns run in this order and later matches that overlap an earlier
+// one are dropped, so a card number is never also reported as a phone.
+const PII_PATTERNS: Array<{
+  type: PiiEntityType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}> = [
+  {
+    type: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => luhnValid(match.replace(/\D/g, "")),
+  },
+  {
+    type: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    type: "ip_address",
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+  {
+    type: "phone",
+    pattern: /(?<![\w+])\+?\d[\d\s().-]{5,18}\d(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return (
+        digits >= 7 &&
+        digits <= 15 &&
+        !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$/.test(match) &&
+        !/^\d{1,2}[-./]\d{1,2}[-./]\d{2,4}$/.test(match)
+      );
+    },
+  },
+];
+
+const REDACTION_LABELS: Record<PiiEntityType, string> = {
+  email: "[EMAIL]",
+  credit_card: "[CARD_NUMBER]",
+  iban: "[IBAN]",
+  ip_address: "[IP_ADDRESS]",
+  phone: "[PHONE]",
+};
+
+const luhnValid = (digits: string): boolean => {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+};
+
+export const detectPii = (text: string): PiiEntity[] => {
+  const entities: PiiEntity[] = [];
+  const overlaps = (start: number, end: number) =>
+    entities.some((entity) => start < entity.end && end > entity.start);
+
+  PII_PATTERNS.forEach(({ type, pattern, accept }) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+
+      if ((!accept || accept(match[0])) && !overlaps(start, end)) {
+        entities.push({ type, start, end });
+      }
+    }
+  });
+
+  return entities.sort((a, b) => a.start - b.start);
+};
+
+export const redactPii = (text: string, entities: PiiEntity[]): string =>
+  [...entities]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (redacted, entity) =>
+        redacted.slice(0, entity.start) +
+        REDACTION_LABELS[entity.type] +
+        redacted.slice(entity.end),
+      text,
+    );
+
+export const scanPii = (text: string): PiiScanResult => {
+  const entities = detectPii(text);
+  return { entities, redactedText: redactPii(text, entities) };
+};
+
+/**
+ * Applies PII_MODE to text that is about to leave the service or be stored:
+ * "off" passes it through, "redact" replaces entities with placeholders and
+ * "reject" refuses the request.
+ */
+export const applyPiiPolicy = (text: string): string => {
+  if (config.piiMode === "off") {
+    return text;
+  }
+
+  const { entities, redactedText } = scanPii(text);
+  if (entities.length === 0) {
+    return text;
+  }
+
+  const types = [...new Set(entities.map((entity) => entity.type))];
+
+  if (config.piiMode === "reject") {
+    throw createAppError(
+      `Text contains personal data: ${types.join(", ")}`,
+      422,
+      "PII_DETECTED",
+    );
+  }
+
+  logger.info("PII redacted from text", { types, count: entities.length });
+  return redactedText;
+};
+
+/**
+ * Redaction for text being persisted. Unlike applyPiiPolicy this never
+ * throws: in "reject" mode anything that still reaches storage is redacted.
+ */
+export const redactForStorage = (text: string): string =>
+  config.piiMode === "off" ? text : scanPii(text).redactedText;
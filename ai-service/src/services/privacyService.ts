@@ -0,0 +1,126 @@
+import { Schemas } from "@qdrant/js-client-rest";
+import { config } from "../config";
+import { qdrantClient } from "../infra/qdrantClient";
+import { logger } from "../utils/logger";
+import {
+  COLLECTION_NAME,
+  buildFeedbackFilter,
+  scrollFeedback,
+} from "./embeddingService";
+import { deleteFeedbackPoints } from "./collectionService";
+import { invalidateUserCache } from "./cacheService";
+import { recordAuditEntry } from "./auditService";
+import { deleteJobRecords, listJobRecords } from "../worker/jobStore";
+import {
+  AuditEntry,
+  UserDataExport,
+  UserDataPurgeResult,
+} from "../types";
+
+// Data subject operations on stored feedback: export and erasure per user,
+// plus the retention purge. Every deletion is written to the audit log.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Everything stored about a user's feedback, without the vectors.
+ */
+export const exportUserData = async (
+  userId: string,
+): Promise<UserDataExport> => {
+  const points = await scrollFeedback({
+    limit: Number.MAX_SAFE_INTEGER,
+    filters: { userId },
+  });
+
+  return {
+    userId,
+    exportedAt: new Date().toISOString(),
+    total: points.length,
+    feedback: points.map(({ id, payload }) => ({ id, payload })),
+  };
+};
+
+// Returns the number of matching points behind the alias
+const deletePoints = async (filter: Schemas["Filter"]): Promise<number> => {
+  const { count } = await qdrantClient.count(COLLECTION_NAME, {
+    filter,
+    exact: true,
+  });
+
+  await deleteFeedbackPoints(filter);
+  return count;
+};
+
+/**
+ * Deletes a user's stored feedback, the embedding jobs still holding their
+ * text and their cached insights. Jobs go first so the worker cannot store
+ * them again; a job already running notices its record is gone and removes
+ * what it stored.
+ */
+export const purgeUserData = async (
+  userId: string,
+  requestedBy: { actor?: string; correlationId?: string } = {},
+): Promise<UserDataPurgeResult> => {
+  const jobs = await listJobRecords((record) => record.job.userId === userId);
+  await deleteJobRecords(jobs.map((record) => record.id));
+
+  const deletedPoints = await deletePoints(
+    buildFeedbackFilter({ userId }) as Schemas["Filter"],
+  );
+  await invalidateUserCache(userId);
+
+  const entry = await recordAuditEntry({
+    action: "user_data_purge",
+    ...requestedBy,
+    userId,
+    deletedPoints,
+    deletedJobs: jobs.length,
+  });
+
+  return {
+    userId,
+    deletedPoints,
+    deletedJobs: jobs.length,
+    purgedAt: entry.at,
+  };
+};
+
+/**
+ * Deletes feedback analyzed more than FEEDBACK_RETENTION_DAYS ago, and
+ * finished embedding jobs created before then. Does nothing while retention
+ * is disabled.
+ */
+export const purgeExpiredFeedback = async (): Promise<
+  AuditEntry | undefined
+> => {
+  if (config.feedbackRetentionDays <= 0) return undefined;
+
+  const cutoff = new Date(
+    Date.now() - config.feedbackRetentionDays * DAY_MS,
+  ).toISOString();
+
+  const jobs = await listJobRecords(
+    (record) =>
+      (record.status === "completed" || record.status === "dead") &&
+      record.createdAt < cutoff,
+  );
+  await deleteJobRecords(jobs.map((record) => record.id));
+
+  const deletedPoints = await deletePoints({
+    must: [{ key: "analyzedAt", range: { lt: cutoff } }],
+  });
+
+  logger.info("Retention purge completed", {
+    cutoff,
+    deletedPoints,
+    deletedJobs: jobs.length,
+  });
+
+  return recordAuditEntry({
+    action: "retention_purge",
+    cutoff,
+    deletedPoints,
+    deletedJobs: jobs.length,
+  });
+};
@@ -0,0 +1,200 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { PromptName, PromptTemplateInfo } from "../types";
+
+// Templates live in <promptsDir>/<name>/<version>.txt with a small header:
+//
+//   ---
+//   description: what the prompt is for
+//   variables: text, outputLanguage
+//   ---
+//   Prompt body with {{text}} placeholders
+//
+// Every placeholder must be declared and every declared variable must be
+// supplied when rendering, so a typo fails at startup or loudly at call time.
+// Placeholders for user input must sit alone between <user_text> tags. A
+// version that leaves them outside stays loaded, since a version id names
+// one fixed prompt, but is retired: it cannot be selected, listed or used as
+// a default, so no request passes user input to the model undelimited.
+
+type PromptTemplate = PromptTemplateInfo & { body: string; retired: boolean };
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const USER_INPUT_VARIABLES = ["text", "question"];
+
+const parseTemplate = (
+  name: string,
+  version: string,
+  source: string,
+): PromptTemplate => {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`Prompt ${name}/${version} is missing its header`);
+  }
+
+  const header: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      header[line.slice(0, separator).trim()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  });
+
+  const variables = (header.variables || "")
+    .split(",")
+    .map((variable) => variable.trim())
+    .filter(Boolean);
+  const body = match[2].trim();
+
+  const undeclared = [...body.matchAll(PLACEHOLDER)]
+    .map((placeholder) => placeholder[1])
+    .filter((variable) => !variables.includes(variable));
+  if (undeclared.length > 0) {
+    throw new Error(
+      `Prompt ${name}/${version} uses undeclared variables: ${undeclared.join(", ")}`,
+    );
+  }
+
+  const count = (pattern: string): number =>
+    body.match(new RegExp(pattern, "g"))?.length ?? 0;
+  const undelimited = USER_INPUT_VARIABLES.filter((variable) => {
+    const placeholder = `\\{\\{\\s*${variable}\\s*\\}\\}`;
+    return (
+      count(`<user_text>\\r?\\n${placeholder}\\r?\\n</user_text>`) <
+      count(placeholder)
+    );
+  });
+
+  return {
+    name,
+    version,
+    description: header.description || "",
+    variables,
+    body,
+    retired: undelimited.length > 0,
+  };
+};
+
+const loadTemplates = (): Map<string, Map<string, PromptTemplate>> => {
+  const registry = new Map<string, Map<string, PromptTemplate>>();
+
+  fs.readdirSync(config.promptsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .forEach((entry) => {
+      const versions = new Map<string, PromptTemplate>();
+      const dir = path.join(config.promptsDir, entry.name);
+
+      fs.readdirSync(dir)
+        .filter((file) => file.endsWith(".txt"))
+        .forEach((file) => {
+          const version = path.basename(file, ".txt");
+          const source = fs.readFileSync(path.join(dir, file), "utf8");
+          versions.set(version, parseTemplate(entry.name, version, source));
+        });
+
+      registry.set(entry.name, versions);
+    });
+
+  const loaded = [...registry.values()].flatMap((versions) => [
+    ...versions.values(),
+  ]);
+  logger.info("Prompt templates loaded", {
+    promptsDir: config.promptsDir,
+    templates: [...registry.entries()].map(
+      ([name, versions]) => `${name}@${[...versions.keys()].join("|")}`,
+    ),
+    retired: loaded
+      .filter((template) => template.retired)
+      .map((template) => `${template.name}@${template.version}`),
+  });
+
+  return registry;
+};
+
+const templates = loadTemplates();
+
+const isSelectable = (name: PromptName, version: string): boolean => {
+  const template = templates.get(name)?.get(version);
+  return template !== undefined && !template.retired;
+};
+
+const latestVersion = (name: PromptName): string | undefined =>
+  [...(templates.get(name)?.keys() || [])]
+    .filter((version) => isSelectable(name, version))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .pop();
+
+/**
+ * Resolves the version to use for a prompt: the requested one, else the
+ * per-prompt override from PROMPT_VERSIONS, else PROMPT_DEFAULT_VERSION if
+ * this prompt has it, else the prompt's latest version. Retired versions are
+ * refused.
+ */
+export const resolvePromptVersion = (
+  name: PromptName,
+  requested?: string,
+): string => {
+  const fallbackVersion = isSelectable(name, config.defaultPromptVersion)
+    ? config.defaultPromptVersion
+    : latestVersion(name);
+  const version =
+    requested ||
+    config.promptVersionOverrides[name] ||
+    fallbackVersion ||
+    config.defaultPromptVersion;
+
+  if (!templates.get(name)?.has(version)) {
+    throw createAppError(
+      `Unknown prompt version "${version}" for ${name}`,
+      400,
+      "UNKNOWN_PROMPT_VERSION",
+    );
+  }
+  if (!isSelectable(name, version)) {
+    throw createAppError(
+      `Prompt version "${version}" for ${name} is retired because it does not delimit user text`,
+      400,
+      "RETIRED_PROMPT_VERSION",
+    );
+  }
+
+  return version;
+};
+
+export const renderPrompt = (
+  name: PromptName,
+  version: string,
+  variables: Record<string, string>,
+): string => {
+  const template = templates.get(name)?.get(resolvePromptVersion(name, version));
+  if (!template) {
+    throw new Error(`Prompt ${name}/${version} is not loaded`);
+  }
+
+  const missing = template.variables.filter(
+    (variable) => variables[variable] === undefined,
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Prompt ${name}/${version} is missing variables: ${missing.join(", ")}`,
+    );
+  }
+
+  return template.body.replace(
+    PLACEHOLDER,
+    (_placeholder, variable: string) => variables[variable],
+  );
+};
+
+export const listPromptTemplates = (): PromptTemplateInfo[] =>
+  [...templates.values()].flatMap((versions) =>
+    [...versions.values()]
+      .filter((template) => !template.retired)
+      .map(({ body: _body, retired: _retired, ...info }) => info),
+  );
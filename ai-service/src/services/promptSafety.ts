@@ -0,0 +1,91 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { RiskFlag } from "../types";
+
+// Zero-width and bidirectional control characters can hide instructions
+// from human reviewers while the model still reads them.
+const HIDDEN_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+const DELIMITER_TAG = /<\s*\/?\s*user_text\s*>/gi;
+
+const INJECTION_PATTERNS: Array<{ flag: RiskFlag; pattern: RegExp }> = [
+  {
+    flag: "instruction_override",
+    pattern:
+      /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|system)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|context)\b/i,
+  },
+  {
+    flag: "role_manipulation",
+    pattern:
+      /\b(you are now|act as|pretend (to be|you are)|from now on,? you|new instructions)\b|(^|\n)\s*(system|assistant|developer)\s*:/i,
+  },
+  {
+    flag: "prompt_leak",
+    pattern:
+      /\b(reveal|show|print|repeat|output)\b[^.\n]{0,20}\b(system prompt|your (prompt|instructions)|the (prompt|instructions) above)\b/i,
+  },
+  {
+    flag: "output_manipulation",
+    pattern:
+      /\b(respond|reply|answer|return|output)\b[^.\n]{0,20}\bwith\b[^.\n]{0,30}("(score|label|sentimentScore|sentimentLabel|tags|confidence)"|json)|"(score|sentimentScore|confidence)"\s*:/i,
+  },
+  {
+    flag: "delimiter_injection",
+    pattern: /<\s*\/?\s*user_text\s*>|```/i,
+  },
+];
+
+/**
+ * Flags heuristically suspicious input. This is a tripwire for obvious
+ * attempts, not a guarantee; the delimited prompts remain the main defence.
+ */
+export const detectInjection = (text: string): RiskFlag[] => {
+  const flags = INJECTION_PATTERNS.filter(({ pattern }) =>
+    pattern.test(text),
+  ).map(({ flag }) => flag);
+
+  if (text.match(HIDDEN_CHARACTERS)) {
+    flags.push("hidden_characters");
+  }
+
+  return flags;
+};
+
+/**
+ * Normalizes user text before it is placed inside <user_text> delimiters:
+ * strips control and invisible characters and defuses look-alike tags so
+ * the text cannot close the delimiter early.
+ */
+export const sanitizeUserText = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .replace(HIDDEN_CHARACTERS, "")
+    .replace(CONTROL_CHARACTERS, "")
+    .replace(DELIMITER_TAG, (tag) => tag.replace(/</g, "(").replace(/>/g, ")"))
+    .trim();
+
+export const guardUserText = (
+  text: string,
+): { sanitized: string; riskFlags: RiskFlag[] } => {
+  const riskFlags = detectInjection(text);
+
+  if (riskFlags.length > 0) {
+    logger.warn("Possible prompt injection detected", {
+      riskFlags,
+      mode: config.promptInjectionMode,
+    });
+
+    if (config.promptInjectionMode === "reject") {
+      throw createAppError(
+        `Input rejected as possible prompt injection: ${riskFlags.join(", ")}`,
+        422,
+        "PROMPT_INJECTION_SUSPECTED",
+      );
+    }
+  }
+
+  return { sanitized: sanitizeUserText(text), riskFlags };
+};
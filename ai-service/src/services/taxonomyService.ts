@@ -0,0 +1,400 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { createAppError } from "../utils/errors";
+import { COMMON_THEMES, canonicalizeTags } from "../utils/keywordAnalysis";
+import {
+  TaxonomyCandidate,
+  TaxonomyMapping,
+  TaxonomyTag,
+  TaxonomyTagInput,
+} from "../types";
+
+// Controlled vocabulary for tags. Each canonical tag has synonyms, an
+// optional parent and a description; model and fallback tags are mapped onto
+// it and anything unknown is kept as a review candidate. The store is one
+// JSON file (TAXONOMY_PATH), seeded from the keyword themes when missing.
+
+export const GENERAL_TAG = "general";
+
+type TaxonomyStore = {
+  tags: TaxonomyTag[];
+  candidates: TaxonomyCandidate[];
+};
+
+let store: TaxonomyStore | null = null;
+let version: string | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let pendingWrite: Promise<void> | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+
+const SEED_DESCRIPTIONS: Record<string, string> = {
+  product: "Features and overall product capabilities",
+  usability: "Ease of use, clarity and navigation",
+  support: "Customer support and help channels",
+  onboarding: "Getting started, tutorials and first-run experience",
+  performance: "Speed, responsiveness and reliability",
+  pricing: "Price, plans and value for money",
+};
+
+const normalize = (tag: string): string => tag.trim().toLowerCase();
+
+const seed = (): TaxonomyStore => {
+  const now = new Date().toISOString();
+  const tags = [
+    ...Object.entries(COMMON_THEMES).map(([id, keywords]) => ({
+      id,
+      description: SEED_DESCRIPTIONS[id],
+      synonyms: keywords.filter((keyword) => keyword !== id),
+    })),
+    {
+      id: GENERAL_TAG,
+      description: "Feedback without a more specific theme",
+      synonyms: [],
+    },
+  ];
+
+  return {
+    tags: tags.map((tag) => ({ ...tag, createdAt: now, updatedAt: now })),
+    candidates: [],
+  };
+};
+
+const load = (): TaxonomyStore => {
+  try {
+    const loaded = JSON.parse(
+      fs.readFileSync(config.taxonomyPath, "utf8"),
+    ) as TaxonomyStore;
+    logger.info("Tag taxonomy loaded", {
+      path: config.taxonomyPath,
+      tags: loaded.tags.length,
+    });
+    return loaded;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    return seed();
+  }
+};
+
+const getStore = (): TaxonomyStore => {
+  if (!store) {
+    store = load();
+  }
+  return store;
+};
+
+const writeStore = async (): Promise<void> => {
+  const tmpPath = `${config.taxonomyPath}.tmp`;
+
+  await fs.promises.mkdir(path.dirname(config.taxonomyPath), {
+    recursive: true,
+  });
+  await fs.promises.writeFile(tmpPath, JSON.stringify(getStore(), null, 2));
+  await fs.promises.rename(tmpPath, config.taxonomyPath);
+};
+
+// Same queued temp-file-and-rename scheme as the embedding job store: changes
+// made while a write is waiting share it, and a failed write fails its own
+// callers only
+const persist = (): Promise<void> => {
+  if (!config.persistState) return Promise.resolve();
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  if (!pendingWrite) {
+    pendingWrite = writeQueue
+      .catch(() => undefined)
+      .then(() => {
+        pendingWrite = null;
+        return writeStore();
+      });
+    writeQueue = pendingWrite;
+  }
+
+  return pendingWrite;
+};
+
+// Candidate counts change on every analysis, so they are written at most
+// once per TAXONOMY_FLUSH_MS
+const scheduleFlush = (): void => {
+  if (flushTimer || !config.persistState) return;
+
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    // Review bookkeeping only; a failed write must not fail the analysis
+    persist().catch((error) => {
+      logger.error("Failed to persist taxonomy candidates", {
+        error: (error as Error).message,
+      });
+    });
+  }, config.taxonomyFlushMs);
+  flushTimer.unref();
+};
+
+export const flushTaxonomy = (): Promise<void> => persist();
+
+/**
+ * Hash of the canonical tags. Results mapped through the taxonomy are cached
+ * under it, so an edit is never answered with tags from before it.
+ */
+export const getTaxonomyVersion = (): string => {
+  if (!version) {
+    version = createHash("sha256")
+      .update(JSON.stringify(getStore().tags))
+      .digest("hex")
+      .slice(0, 16);
+  }
+  return version;
+};
+
+// Every tag change goes through here
+const persistTags = (): Promise<void> => {
+  version = null;
+  return persist();
+};
+
+// Lowercased id or synonym -> canonical id
+const buildIndex = (tags: TaxonomyTag[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  tags.forEach((tag) => index.set(tag.id, tag.id));
+  tags.forEach((tag) =>
+    tag.synonyms.forEach((synonym) => {
+      if (!index.has(synonym)) index.set(synonym, tag.id);
+    }),
+  );
+  return index;
+};
+
+export const listTags = (): TaxonomyTag[] => [...getStore().tags];
+
+export const getTag = (id: string): TaxonomyTag => {
+  const tag = getStore().tags.find((entry) => entry.id === normalize(id));
+  if (!tag) {
+    throw createAppError(`Tag "${id}" not found`, 404, "TAG_NOT_FOUND");
+  }
+  return tag;
+};
+
+export const listChildren = (id: string): string[] =>
+  getStore()
+    .tags.filter((tag) => tag.parent === normalize(id))
+    .map((tag) => tag.id);
+
+export const listCandidates = (): TaxonomyCandidate[] =>
+  [...getStore().candidates].sort((a, b) => b.count - a.count);
+
+const checkTerms = (id: string, input: TaxonomyTagInput): string[] => {
+  const synonyms = [...new Set((input.synonyms || []).map(normalize))].filter(
+    (synonym) => synonym && synonym !== id,
+  );
+  const index = buildIndex(getStore().tags.filter((tag) => tag.id !== id));
+
+  const taken = [id, ...synonyms].filter((term) => index.has(term));
+  if (taken.length > 0) {
+    throw createAppError(
+      `Already used by another tag: ${taken.join(", ")}`,
+      409,
+      "TAG_CONFLICT",
+    );
+  }
+
+  return synonyms;
+};
+
+const checkParent = (id: string, parent?: string): string | undefined => {
+  if (!parent) return undefined;
+
+  const parentId = normalize(parent);
+  let current: string | undefined = parentId;
+  while (current) {
+    if (current === id) {
+      throw createAppError(
+        `Tag "${id}" cannot be its own ancestor`,
+        400,
+        "TAXONOMY_CYCLE",
+      );
+    }
+    const ancestor = getStore().tags.find((tag) => tag.id === current);
+    if (!ancestor) {
+      throw createAppError(
+        `Parent tag "${current}" not found`,
+        400,
+        "UNKNOWN_PARENT",
+      );
+    }
+    current = ancestor.parent;
+  }
+
+  return parentId;
+};
+
+/**
+ * Adds a canonical tag. Its id and synonyms must not already be in use, and
+ * any matching review candidates are resolved by it.
+ */
+export const createTag = async (
+  input: TaxonomyTagInput & { id: string },
+): Promise<TaxonomyTag> => {
+  const id = normalize(input.id);
+  const synonyms = checkTerms(id, input);
+  const now = new Date().toISOString();
+  const tag: TaxonomyTag = {
+    id,
+    description: input.description,
+    synonyms,
+    parent: checkParent(id, input.parent),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const current = getStore();
+  current.tags.push(tag);
+  current.candidates = current.candidates.filter(
+    (candidate) => ![id, ...synonyms].includes(candidate.tag),
+  );
+  await persistTags();
+
+  return tag;
+};
+
+export const updateTag = async (
+  id: string,
+  input: TaxonomyTagInput,
+): Promise<TaxonomyTag> => {
+  const tag = getTag(id);
+  const synonyms = checkTerms(tag.id, input);
+
+  Object.assign(tag, {
+    description: input.description,
+    synonyms,
+    parent: checkParent(tag.id, input.parent),
+    updatedAt: new Date().toISOString(),
+  });
+  await persistTags();
+
+  return tag;
+};
+
+/**
+ * Removes a tag. Tags with children are rejected so the hierarchy never
+ * points at a missing parent.
+ */
+export const deleteTag = async (id: string): Promise<void> => {
+  const tag = getTag(id);
+  const children = listChildren(tag.id);
+  if (children.length > 0) {
+    throw createAppError(
+      `Tag "${tag.id}" has child tags: ${children.join(", ")}`,
+      409,
+      "TAG_HAS_CHILDREN",
+    );
+  }
+
+  const current = getStore();
+  current.tags = current.tags.filter((entry) => entry.id !== tag.id);
+  await persistTags();
+};
+
+export const dismissCandidate = async (tag: string): Promise<void> => {
+  const current = getStore();
+  const remaining = current.candidates.filter(
+    (candidate) => candidate.tag !== normalize(tag),
+  );
+  if (remaining.length === current.candidates.length) {
+    throw createAppError(
+      `Candidate "${tag}" not found`,
+      404,
+      "CANDIDATE_NOT_FOUND",
+    );
+  }
+
+  current.candidates = remaining;
+  await persist();
+};
+
+const recordCandidates = (tags: string[]): void => {
+  const now = new Date().toISOString();
+  const current = getStore();
+
+  tags.forEach((tag) => {
+    const candidate = current.candidates.find((entry) => entry.tag === tag);
+    if (candidate) {
+      candidate.count += 1;
+      candidate.lastSeen = now;
+    } else {
+      current.candidates.push({ tag, count: 1, firstSeen: now, lastSeen: now });
+    }
+  });
+
+  // Beyond the cap, the rarest and then longest unseen candidates go first
+  if (current.candidates.length > config.taxonomyMaxCandidates) {
+    current.candidates = current.candidates
+      .sort(
+        (a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen),
+      )
+      .slice(0, config.taxonomyMaxCandidates);
+  }
+
+  scheduleFlush();
+};
+
+const lookup = (index: Map<string, string>, tag: string): string | undefined =>
+  index.get(tag) || index.get(canonicalizeTags([tag])[0]);
+
+// Canonical id for a single tag, without recording it as a candidate
+export const resolveTag = (tag: string): string | undefined =>
+  lookup(buildIndex(getStore().tags), normalize(tag));
+
+/**
+ * Maps tags onto canonical taxonomy ids: by id or synonym first, then via the
+ * multilingual keyword lexicons. Unmapped tags are returned as candidates and
+ * recorded for review. An empty mapping falls back to "general".
+ */
+export const mapTags = (tags: string[]): TaxonomyMapping => {
+  const index = buildIndex(getStore().tags);
+  const mapped = new Set<string>();
+  const candidates = new Set<string>();
+
+  tags.map(normalize).filter(Boolean).forEach((tag) => {
+    const id = lookup(index, tag);
+    if (id) {
+      mapped.add(id);
+    } else {
+      candidates.add(tag);
+    }
+  });
+
+  if (candidates.size > 0) {
+    recordCandidates([...candidates]);
+  }
+
+  const canonical =
+    mapped.size === 0 && index.has(GENERAL_TAG) ? [GENERAL_TAG] : [...mapped];
+
+  return { tags: canonical, candidateTags: [...candidates] };
+};
+
+// Tags whose id or a synonym occurs in the text, for the keyword fallback
+export const matchTaxonomy = (text: string): string[] => {
+  const lowerText = text.toLowerCase();
+
+  return getStore()
+    .tags.filter((tag) =>
+      [tag.id, ...tag.synonyms].some((term) => lowerText.includes(term)),
+    )
+    .map((tag) => tag.id);
+};
+
+// One "- id: description" line per tag, for the prompts
+export const describeTaxonomy = (): string =>
+  getStore()
+    .tags.map((tag) =>
+      tag.description ? `- ${tag.id}: ${tag.description}` : `- ${tag.id}`,
+    )
+    .join("\n");
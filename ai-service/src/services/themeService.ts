@@ -0,0 +1,95 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { dot, kMeans, normalize, suggestK } from "../utils/kmeans";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { averageSentiment, countTags } from "../utils/feedbackStats";
+import { scrollFeedback } from "./embeddingService";
+import { labelTheme } from "./geminiService";
+import {
+  FeedbackSearchFilters,
+  ThemeCluster,
+  ThemeDiscoveryResult,
+} from "../types";
+
+/**
+ * Clusters stored feedback embeddings and describes each cluster: size,
+ * the examples closest to its centroid, average sentiment, tag counts and
+ * a model-generated (or keyword) label. Largest clusters come first.
+ */
+export const discoverThemes = async (params: {
+  k?: number;
+  limit?: number;
+  filters?: FeedbackSearchFilters;
+  examplesPerCluster: number;
+}): Promise<ThemeDiscoveryResult> => {
+  const points = (
+    await scrollFeedback({
+      limit: Math.min(params.limit ?? config.themeMaxPoints, config.themeMaxPoints),
+      filters: params.filters,
+      withVectors: true,
+    })
+  ).filter((point) => point.vector && point.vector.length > 0);
+
+  if (points.length === 0) {
+    return { totalPoints: 0, k: 0, clusters: [] };
+  }
+
+  const k = Math.min(params.k ?? suggestK(points.length), points.length);
+  const { assignments, centroids } = await kMeans(
+    points.map((point) => point.vector as number[]),
+    k,
+  );
+
+  const groups = centroids
+    .map((centroid, index) => {
+      const members = points
+        .filter((_, i) => assignments[i] === index)
+        .map((point) => ({
+          point,
+          similarity: dot(normalize(point.vector as number[]), centroid),
+        }))
+        .sort((a, b) => b.similarity - a.similarity);
+
+      return { members };
+    })
+    .filter((group) => group.members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length);
+
+  const clusters = await mapWithConcurrency(
+    groups,
+    config.batchConcurrency,
+    async ({ members }, index): Promise<ThemeCluster> => {
+      const memberPoints = members.map((member) => member.point);
+      const tagDistribution = countTags(memberPoints);
+      const examples = members
+        .slice(0, params.examplesPerCluster)
+        .map(({ point, similarity }) => ({
+          id: point.id,
+          text: point.payload.rawText,
+          similarity,
+        }));
+
+      const label = await labelTheme(
+        examples.map((example) => example.text),
+        Object.keys(tagDistribution).slice(0, 5),
+      );
+
+      return {
+        id: index,
+        ...label,
+        size: members.length,
+        averageSentimentScore: averageSentiment(memberPoints),
+        tagDistribution,
+        examples,
+      };
+    },
+  );
+
+  logger.info("Theme discovery completed", {
+    totalPoints: points.length,
+    k,
+    clusters: clusters.length,
+  });
+
+  return { totalPoints: points.length, k, clusters };
+};
@@ -0,0 +1,168 @@
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { averageSentiment, countTags } from "../utils/feedbackStats";
+import { scrollFeedback } from "./embeddingService";
+import {
+  SentimentDrop,
+  StoredFeedbackPoint,
+  TrendBucket,
+  TrendInterval,
+  UserTrendsResult,
+} from "../types";
+
+const TOP_TAGS_PER_BUCKET = 5;
+
+/**
+ * Start date (UTC, YYYY-MM-DD) of the bucket containing `timestamp`. Weeks
+ * start on Monday.
+ */
+export const bucketStart = (
+  timestamp: string,
+  interval: TrendInterval,
+): string => {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  const start =
+    interval === "month"
+      ? new Date(Date.UTC(year, month, 1))
+      : interval === "week"
+        ? new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)))
+        : new Date(Date.UTC(year, month, day));
+
+  return start.toISOString().slice(0, 10);
+};
+
+const summarizeBucket = (
+  start: string,
+  points: StoredFeedbackPoint[],
+): TrendBucket => {
+  const engagementDistribution: Record<string, number> = {};
+  points.forEach(({ payload }) => {
+    if (payload.engagementLevel) {
+      engagementDistribution[payload.engagementLevel] =
+        (engagementDistribution[payload.engagementLevel] || 0) + 1;
+    }
+  });
+
+  return {
+    start,
+    count: points.length,
+    averageSentimentScore: averageSentiment(points),
+    engagementDistribution,
+    topTags: Object.entries(countTags(points))
+      .slice(0, TOP_TAGS_PER_BUCKET)
+      .map(([tag, count]) => ({ tag, count })),
+  };
+};
+
+// Compares each bucket with the previous bucket that had a sentiment score
+const findSentimentDrops = (
+  buckets: TrendBucket[],
+  threshold: number,
+): SentimentDrop[] => {
+  const drops: SentimentDrop[] = [];
+  let previous: TrendBucket | undefined;
+
+  buckets.forEach((bucket) => {
+    if (bucket.averageSentimentScore === null) return;
+
+    if (previous && previous.averageSentimentScore !== null) {
+      const change =
+        bucket.averageSentimentScore - previous.averageSentimentScore;
+      if (change <= -threshold) {
+        drops.push({
+          from: previous.start,
+          to: bucket.start,
+          previousScore: previous.averageSentimentScore,
+          currentScore: bucket.averageSentimentScore,
+          change,
+        });
+      }
+    }
+
+    previous = bucket;
+  });
+
+  return drops;
+};
+
+/**
+ * Groups a user's stored feedback into time buckets (empty buckets are
+ * omitted) and flags drops in average sentiment of at least `dropThreshold`
+ * between consecutive buckets. A user is at risk when the latest bucket is
+ * the end of such a drop.
+ */
+export const buildUserTrends = (
+  userId: string,
+  points: StoredFeedbackPoint[],
+  interval: TrendInterval,
+  dropThreshold: number = config.trendDropThreshold,
+): UserTrendsResult => {
+  const grouped = new Map<string, StoredFeedbackPoint[]>();
+  points
+    .filter((point) => point.payload.analyzedAt)
+    .forEach((point) => {
+      const start = bucketStart(point.payload.analyzedAt, interval);
+      grouped.set(start, [...(grouped.get(start) || []), point]);
+    });
+
+  const buckets = [...grouped.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([start, members]) => summarizeBucket(start, members));
+
+  const sentimentDrops = findSentimentDrops(buckets, dropThreshold);
+  const latest = buckets[buckets.length - 1];
+
+  return {
+    userId,
+    interval,
+    totalFeedback: points.length,
+    averageSentimentScore: averageSentiment(points),
+    buckets,
+    sentimentDrops,
+    atRisk:
+      latest !== undefined &&
+      sentimentDrops.some((drop) => drop.to === latest.start),
+    truncated: false,
+  };
+};
+
+/**
+ * Trends over the user's most recent TREND_MAX_POINTS points. When more are
+ * stored, the older ones are left out and `truncated` is set; the oldest
+ * bucket may then be incomplete.
+ */
+export const getUserTrends = async (
+  userId: string,
+  params: { interval: TrendInterval; from?: string; to?: string },
+): Promise<UserTrendsResult> => {
+  // One point beyond the cap tells whether anything was left out
+  const points = await scrollFeedback({
+    limit: config.trendMaxPoints + 1,
+    filters: { userId, from: params.from, to: params.to },
+    newestFirst: true,
+  });
+  const truncated = points.length > config.trendMaxPoints;
+
+  const trends = {
+    ...buildUserTrends(
+      userId,
+      points.slice(0, config.trendMaxPoints),
+      params.interval,
+    ),
+    truncated,
+  };
+
+  logger.info("User trends computed", {
+    userId,
+    interval: params.interval,
+    totalFeedback: trends.totalFeedback,
+    atRisk: trends.atRisk,
+    truncated,
+  });
+
+  return trends;
+};
@@ -0,0 +1,233 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { getRequestContext } from "../utils/requestContext";
+import {
+  BudgetStatus,
+  TokenUsage,
+  UsageBudget,
+  UsageRecord,
+  UsageReport,
+  UsageTotals,
+} from "../types";
+
+// Token and cost accounting per client, endpoint and UTC day. Records are
+// kept in memory and written to USAGE_PATH shortly after each change; days
+// older than USAGE_RETENTION_DAYS are dropped when the store loads.
+
+export const ANONYMOUS_CLIENT = "anonymous";
+// Calls made outside any client's request, e.g. embedding jobs enqueued
+// before jobs recorded their client
+export const BACKGROUND_CLIENT = "background";
+
+let records: Map<string, UsageRecord> | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+const recordKey = (date: string, client: string, endpoint: string): string =>
+  `${date}|${client}|${endpoint}`;
+
+// Rough count for providers that report no usage: ~4 characters per token
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+const load = (): Map<string, UsageRecord> => {
+  const cutoff = toDateKey(
+    new Date(Date.now() - config.usageRetentionDays * DAY_MS),
+  );
+  let stored: UsageRecord[] = [];
+
+  try {
+    stored = JSON.parse(fs.readFileSync(config.usagePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  return new Map(
+    stored
+      .filter((record) => record.date >= cutoff)
+      .map((record) => [
+        recordKey(record.date, record.client, record.endpoint),
+        record,
+      ]),
+  );
+};
+
+const getRecords = (): Map<string, UsageRecord> => {
+  if (!records) {
+    records = load();
+  }
+  return records;
+};
+
+// Same temp-file-and-rename scheme as the embedding job store
+export const flushUsage = (): Promise<void> => {
+  if (!config.persistState) return Promise.resolve();
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  // A failed write must not block the ones after it
+  writeQueue = writeQueue.catch(() => undefined).then(async () => {
+    const tmpPath = `${config.usagePath}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(config.usagePath), {
+      recursive: true,
+    });
+    await fs.promises.writeFile(
+      tmpPath,
+      JSON.stringify([...getRecords().values()], null, 2),
+    );
+    await fs.promises.rename(tmpPath, config.usagePath);
+  });
+
+  return writeQueue;
+};
+
+const scheduleFlush = (): void => {
+  if (flushTimer || !config.persistState) return;
+
+  flushTimer = setTimeout(() => {
+    flushUsage().catch((error) => {
+      logger.error("Failed to persist usage", {
+        error: (error as Error).message,
+      });
+    });
+  }, config.usageFlushMs);
+  flushTimer.unref();
+};
+
+const costOf = ({
+  operation,
+  promptTokens,
+  completionTokens,
+}: TokenUsage): number => {
+  const pricing = config.geminiPricing;
+  const promptPrice =
+    operation === "embedding"
+      ? pricing.embeddingPerMillionTokens
+      : pricing.promptPerMillionTokens;
+
+  return (
+    (promptTokens * promptPrice +
+      completionTokens * pricing.completionPerMillionTokens) /
+    1_000_000
+  );
+};
+
+/**
+ * Adds one provider call to today's record for the current request's client
+ * and endpoint.
+ */
+export const recordTokenUsage = (usage: TokenUsage): void => {
+  const context = getRequestContext();
+  const date = toDateKey(new Date());
+  const client = context?.client || BACKGROUND_CLIENT;
+  const endpoint = context?.endpoint || usage.operation;
+  const key = recordKey(date, client, endpoint);
+
+  const record = getRecords().get(key) || {
+    date,
+    client,
+    endpoint,
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    estimatedCalls: 0,
+    costUsd: 0,
+  };
+
+  record.calls += 1;
+  record.promptTokens += usage.promptTokens;
+  record.completionTokens += usage.completionTokens;
+  record.estimatedCalls += usage.estimated ? 1 : 0;
+  record.costUsd += costOf(usage);
+  getRecords().set(key, record);
+
+  scheduleFlush();
+};
+
+const sumRecords = (selected: UsageRecord[]): UsageTotals =>
+  selected.reduce(
+    (totals, record) => ({
+      calls: totals.calls + record.calls,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      costUsd: totals.costUsd + record.costUsd,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 },
+  );
+
+/**
+ * Today's usage for a client against its budget. A limit of 0 is unlimited;
+ * the budget is exceeded once either limit is reached.
+ */
+export const getBudgetStatus = (
+  client: string,
+  budget: UsageBudget,
+): BudgetStatus => {
+  const date = toDateKey(new Date());
+  const totals = sumRecords(
+    [...getRecords().values()].filter(
+      (record) => record.date === date && record.client === client,
+    ),
+  );
+  const tokensUsed = totals.promptTokens + totals.completionTokens;
+
+  return {
+    client,
+    date,
+    tokensUsed,
+    costUsd: totals.costUsd,
+    dailyTokens: budget.dailyTokens,
+    dailyCostUsd: budget.dailyCostUsd,
+    exceeded:
+      (budget.dailyTokens > 0 && tokensUsed >= budget.dailyTokens) ||
+      (budget.dailyCostUsd > 0 && totals.costUsd >= budget.dailyCostUsd),
+    action: budget.action,
+  };
+};
+
+export const getUsageReport = (options: {
+  from?: string;
+  to?: string;
+  client?: string;
+  endpoint?: string;
+  budget: { client: string; settings: UsageBudget };
+}): UsageReport => {
+  const to = options.to || toDateKey(new Date());
+  const from =
+    options.from || toDateKey(new Date(Date.parse(to) - 6 * DAY_MS));
+
+  const selected = [...getRecords().values()]
+    .filter(
+      (record) =>
+        record.date >= from &&
+        record.date <= to &&
+        (!options.client || record.client === options.client) &&
+        (!options.endpoint || record.endpoint === options.endpoint),
+    )
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.client.localeCompare(b.client) ||
+        a.endpoint.localeCompare(b.endpoint),
+    );
+
+  return {
+    from,
+    to,
+    records: selected,
+    totals: sumRecords(selected),
+    budget: getBudgetStatus(options.budget.client, options.budget.settings),
+  };
+};
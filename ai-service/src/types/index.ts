@@ -1,31 +1,503 @@
 import { Request } from "express";
+export type PromptName =
+  | "sentiment"
+  | "tags"
+  | "insights"
+  | "themes"
+  | "aspects"
+  | "ask";
+
+export interface PromptTemplateInfo {
+  name: string;
+  version: string;
+  description: string;
+  variables: string[];
+}
+
+export interface AnalysisOptions {
+  promptVersion?: string;
+  // ISO 639-1 code for the insights summary and action items
+  outputLanguage?: string;
+  // false skips the duplicate check and embedding job for insights
+  persist?: boolean;
+}
+
+export interface AspectAnalysisOptions extends AnalysisOptions {
+  // Replaces the configured aspect set for this request
+  aspects?: string[];
+  // Whether the model may report aspects outside the set
+  freeForm?: boolean;
+}
+
+export interface Lexicon {
+  // ISO 639-1 code
+  language: string;
+  positive: string[];
+  negative: string[];
+  // Canonical English tag -> keywords in this language
+  themes: Record<string, string[]>;
+}
+
 export interface CorrelatedRequest extends Request {
   correlationId?: string;
+  apiClient?: ApiClient;
+}
+
+export type ApiScope =
+  | "sentiment"
+  | "tags"
+  | "insights"
+  | "search"
+  | "taxonomy"
+  | "usage"
+  | "admin"
+  | "privacy";
+
+export interface RateLimitSettings {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// What happens once a client's daily budget is used up
+export type BudgetAction = "fallback" | "payment_required" | "rate_limited";
+
+// Daily limits per client; 0 means unlimited
+export interface UsageBudget {
+  dailyTokens: number;
+  dailyCostUsd: number;
+  action: BudgetAction;
+}
+
+export interface ApiClientConfig {
+  name: string;
+  key: string;
+  scopes: ApiScope[];
+  rateLimit?: Partial<RateLimitSettings>;
+  budget?: Partial<UsageBudget>;
+}
+
+export interface ApiClient {
+  name: string;
+  scopes: ApiScope[];
+  rateLimit: RateLimitSettings;
+  budget: UsageBudget;
+}
+
+// Per-request values needed deep in the call stack (the LLM client)
+export interface RequestContext {
+  client: string;
+  endpoint: string;
+  // Set once the client's budget is exhausted: keyword fallback only
+  fallbackOnly: boolean;
+}
+
+export interface TokenUsage {
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  // True when counted locally because the provider reported no usage
+  estimated: boolean;
 }
 
+export interface UsageRecord {
+  date: string;
+  client: string;
+  endpoint: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCalls: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  client: string;
+  date: string;
+  tokensUsed: number;
+  costUsd: number;
+  dailyTokens: number;
+  dailyCostUsd: number;
+  exceeded: boolean;
+  action: BudgetAction;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  records: UsageRecord[];
+  totals: UsageTotals;
+  budget: BudgetStatus;
+}
+
+export type RiskFlag =
+  | "instruction_override"
+  | "role_manipulation"
+  | "prompt_leak"
+  | "output_manipulation"
+  | "delimiter_injection"
+  | "hidden_characters";
+
 export interface SentimentResult {
   score: number;
   label: "positive" | "negative" | "neutral" | "mixed";
   confidence: number;
+  detectedLanguage?: string;
+  model: string;
+  promptVersion?: string;
+  riskFlags?: RiskFlag[];
+  repaired?: boolean;
+  isFallback?: boolean;
+}
+
+// Excerpt of the analyzed text; offsets are omitted when the excerpt could
+// not be found verbatim
+export interface TextSpan {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+export interface AspectSentiment {
+  aspect: string;
+  score: number;
+  label: "positive" | "negative" | "neutral" | "mixed";
+  span: TextSpan;
+}
+
+export interface AspectSentimentResult {
+  aspects: AspectSentiment[];
+  // The aspect set the text was checked against
+  configuredAspects: string[];
+  detectedLanguage?: string;
+  model: string;
+  promptVersion?: string;
+  riskFlags?: RiskFlag[];
+  repaired?: boolean;
   isFallback?: boolean;
 }
 
 export interface TagExtractionResult {
   tags: string[];
   primaryTheme: string;
+  // Tags outside the taxonomy, kept for review
+  candidateTags?: string[];
+  detectedLanguage?: string;
+  model: string;
+  promptVersion?: string;
+  riskFlags?: RiskFlag[];
+  repaired?: boolean;
   isFallback?: boolean;
 }
+
+export type SpamReason = "repetition" | "low_entropy" | "link_density";
+
+export interface SpamAssessment {
+  isSpam: boolean;
+  // Strongest signal, 0 (clean) to 1
+  score: number;
+  reasons: SpamReason[];
+}
+
 export interface InsightsResult {
   sentimentScore: number;
   sentimentLabel: string;
   tags: string[];
+  // Tags outside the taxonomy, kept for review
+  candidateTags?: string[];
   engagementLevel: "Low" | "Medium" | "High" | "VeryHigh";
   summary: string;
   actionItems: string[];
   analyzedAt: string;
+  feedbackId?: string;
+  spam: SpamAssessment;
+  // Id of the earlier feedback this text nearly repeats
+  duplicateOf?: string;
+  detectedLanguage?: string;
+  model: string;
+  promptVersion?: string;
+  riskFlags?: RiskFlag[];
+  repaired?: boolean;
+  isFallback?: boolean;
+}
+
+export interface TaxonomyTagInput {
+  description?: string;
+  synonyms?: string[];
+  // Id of the broader tag this one refines
+  parent?: string;
+}
+
+export interface TaxonomyTag extends TaxonomyTagInput {
+  id: string;
+  synonyms: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A tag produced by analysis that is not in the taxonomy
+export interface TaxonomyCandidate {
+  tag: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TaxonomyMapping {
+  tags: string[];
+  candidateTags: string[];
+}
+
+export type PiiEntityType =
+  | "email"
+  | "phone"
+  | "credit_card"
+  | "iban"
+  | "ip_address";
+
+export interface PiiEntity {
+  type: PiiEntityType;
+  start: number;
+  end: number;
+}
+
+export interface PiiScanResult {
+  entities: PiiEntity[];
+  redactedText: string;
+}
+
+export type PiiMode = "off" | "redact" | "reject";
+
+export interface FeedbackPayload {
+  userId?: string;
+  rawText: string;
+  sentimentScore?: number;
+  sentimentLabel?: string;
+  tags?: string[];
+  engagementLevel?: string;
+  analyzedAt: string;
+  model: string;
+  embeddingsModel?: string;
+  promptVersion?: string;
+  isSpam?: boolean;
+  spamScore?: number;
+  duplicateOf?: string;
+}
+
+export interface FeedbackSearchFilters {
+  userId?: string;
+  minSentiment?: number;
+  maxSentiment?: number;
+  tags?: string[];
+  from?: string;
+  to?: string;
+  // true keeps only spam (or duplicates), false excludes it
+  spam?: boolean;
+  duplicates?: boolean;
+}
+
+export interface FeedbackSearchHit {
+  id: string;
+  score: number;
+  payload: FeedbackPayload;
+}
+
+export interface FeedbackSearchResult {
+  query: string;
+  results: FeedbackSearchHit[];
+}
+
+export interface GroundedAnswer {
+  answered: boolean;
+  answer: string;
+  // Ids of the retrieved feedback the answer relies on
+  citations: string[];
+  answerSource: "model" | "extractive";
+  model: string;
+  promptVersion?: string;
+  repaired?: boolean;
   isFallback?: boolean;
 }
 
+export interface AskResult extends Partial<GroundedAnswer> {
+  question: string;
+  answered: boolean;
+  answer: string;
+  citations: string[];
+  // Set when answered is false
+  refusalReason?: "no_relevant_feedback" | "insufficient_sources";
+  sources: FeedbackSearchHit[];
+  riskFlags?: RiskFlag[];
+}
+
+export interface UserDataExport {
+  userId: string;
+  exportedAt: string;
+  total: number;
+  feedback: { id: string; payload: FeedbackPayload }[];
+}
+
+export interface UserDataPurgeResult {
+  userId: string;
+  deletedPoints: number;
+  // Embedding jobs still holding the user's text
+  deletedJobs: number;
+  purgedAt: string;
+}
+
+export type AuditAction = "user_data_purge" | "retention_purge";
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  at: string;
+  // API client that asked for the purge; absent for scheduled purges
+  actor?: string;
+  correlationId?: string;
+  userId?: string;
+  // Retention purges remove feedback analyzed before this time
+  cutoff?: string;
+  deletedPoints: number;
+  deletedJobs: number;
+}
+
+// Stored in the metadata of every versioned feedback collection
+export interface CollectionMetadata {
+  embeddingsModel: string;
+  vectorSize: number;
+  createdAt: string;
+}
+
+// reindex_required: the active collection was built with another embedding
+// model or vector size, so writes are held back until a re-index
+export type CollectionState =
+  | "unprovisioned"
+  | "ready"
+  | "reindex_required"
+  | "reindexing";
+
+export interface ReindexProgress {
+  status: "running" | "completed" | "failed";
+  source?: string;
+  target?: string;
+  total: number;
+  processed: number;
+  // Points without rawText, which cannot be re-embedded
+  skipped: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface CollectionStatus {
+  alias: string;
+  state: CollectionState;
+  collection?: string;
+  vectorSize?: number;
+  embeddingsModel?: string;
+  activeEmbeddingsModel: string;
+  reindex?: ReindexProgress;
+}
+
+export type BatchOperation = "sentiment" | "tags" | "insights";
+
+export interface BatchItem {
+  id: string;
+  text: string;
+  userId?: string;
+}
+
+export interface BatchItemResult<T> {
+  index: number;
+  id?: string;
+  success: boolean;
+  data?: T;
+  error?: {
+    message: string;
+    code: string;
+  };
+}
+
+export interface BatchResult<T> {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchItemResult<T>[];
+}
+
+export type InsightsStreamEvent =
+  | { type: "partial"; field: string; value: unknown }
+  | { type: "result"; data: InsightsResult };
+
+export interface StoredFeedbackPoint {
+  id: string;
+  vector?: number[];
+  payload: FeedbackPayload;
+}
+
+export interface ThemeExample {
+  id: string;
+  text: string;
+  similarity: number;
+}
+
+export interface ThemeLabel {
+  label: string;
+  description?: string;
+  labelSource: "model" | "keywords";
+}
+
+export interface ThemeCluster extends ThemeLabel {
+  id: number;
+  size: number;
+  averageSentimentScore: number | null;
+  tagDistribution: Record<string, number>;
+  examples: ThemeExample[];
+}
+
+export interface ThemeDiscoveryResult {
+  totalPoints: number;
+  k: number;
+  clusters: ThemeCluster[];
+}
+
+export type TrendInterval = "day" | "week" | "month";
+
+export interface TrendBucket {
+  start: string;
+  count: number;
+  averageSentimentScore: number | null;
+  engagementDistribution: Record<string, number>;
+  topTags: { tag: string; count: number }[];
+}
+
+export interface SentimentDrop {
+  from: string;
+  to: string;
+  previousScore: number;
+  currentScore: number;
+  change: number;
+}
+
+export interface UserTrendsResult {
+  userId: string;
+  interval: TrendInterval;
+  totalFeedback: number;
+  averageSentimentScore: number | null;
+  buckets: TrendBucket[];
+  sentimentDrops: SentimentDrop[];
+  atRisk: boolean;
+  // More than TREND_MAX_POINTS points matched; only the newest were used
+  truncated: boolean;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -36,20 +508,196 @@ export interface ApiResponse<T> {
   correlationId?: string;
 }
 
+export type CacheStatus = "HIT" | "MISS";
+
+export type CacheBackend = "memory" | "redis";
+
+export interface CacheStats {
+  enabled: boolean;
+  backend: CacheBackend;
+  hits: number;
+  misses: number;
+  errors: number;
+  hitRate: number;
+  size?: number;
+  maxEntries?: number;
+  ttlSeconds: number;
+}
+
+export interface CircuitBreakerStats {
+  state: "closed" | "open" | "half_open";
+  consecutiveFailures: number;
+  openedAt: string | null;
+}
+
 export interface HealthStatus {
-  status: "healthy" | "unhealthy";
+  status: "healthy" | "degraded" | "unhealthy";
   timestamp: string;
   service: string;
   version: string;
   geminiConfigured: boolean;
+  llmProvider: LlmProviderName;
+  cache: CacheStats;
+  circuitBreaker: CircuitBreakerStats;
+}
+
+export type LlmProviderName = "gemini" | "local";
+
+export type LlmOperation =
+  | "sentiment"
+  | "tags"
+  | "insights"
+  | "themes"
+  | "aspects"
+  | "ask";
+
+export interface GenerationRequest {
+  operation: LlmOperation;
+  prompt: string;
+  text: string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  embeddingsModel: string;
+  isConfigured(): boolean;
+  // false while calls would be refused, e.g. with the circuit open
+  isAvailable(): boolean;
+  generateText(request: GenerationRequest): Promise<string>;
+  generateTextStream(request: GenerationRequest): AsyncIterable<string>;
+  embed(text: string): Promise<number[]>;
 }
 
 export interface AppConfig {
   port: number;
   nodeEnv: string;
+  serviceVersion: string;
   geminiApiKey: string | undefined;
   fallbackEnabled: boolean;
   logLevel: string;
   geminiModel: string;
   geminiEmbeddingsModel: string;
+  llmProvider: LlmProviderName;
+  localEmbeddingDimensions: number;
+  batchMaxItems: number;
+  batchConcurrency: number;
+  embeddingJobsPath: string;
+  embeddingMaxAttempts: number;
+  embeddingRetryBaseMs: number;
+  embeddingRetryMaxMs: number;
+  embeddingWorkerIntervalMs: number;
+  embeddingJobRetentionHours: number;
+  reindexConcurrency: number;
+  reindexKeepVersions: number;
+  cacheEnabled: boolean;
+  cacheBackend: CacheBackend;
+  cacheTtlSeconds: number;
+  cacheMaxEntries: number;
+  redisUrl: string;
+  promptsDir: string;
+  defaultPromptVersion: string;
+  promptVersionOverrides: Record<string, string>;
+  promptInjectionMode: "flag" | "reject";
+  piiMode: PiiMode;
+  themeMaxPoints: number;
+  askMinScore: number;
+  trendMaxPoints: number;
+  trendDropThreshold: number;
+  duplicateThreshold: number;
+  duplicateWindowDays: number;
+  duplicateCheckTimeoutMs: number;
+  spamThreshold: number;
+  sentimentAspects: string[];
+  taxonomyPath: string;
+  taxonomyFlushMs: number;
+  taxonomyMaxCandidates: number;
+  usagePath: string;
+  usageRetentionDays: number;
+  usageFlushMs: number;
+  // false keeps taxonomy and usage changes in memory, for offline tooling
+  persistState: boolean;
+  // 0 keeps stored feedback forever
+  feedbackRetentionDays: number;
+  retentionIntervalHours: number;
+  auditLogPath: string;
+  usageBudget: UsageBudget;
+  geminiPricing: {
+    promptPerMillionTokens: number;
+    completionPerMillionTokens: number;
+    embeddingPerMillionTokens: number;
+  };
+  apiKeys: ApiClientConfig[];
+  apiKeysPath: string;
+  rateLimit: RateLimitSettings;
+  geminiTimeoutMs: number;
+  geminiMaxRetries: number;
+  geminiRetryBaseMs: number;
+  geminiRetryMaxMs: number;
+  geminiCircuitFailureThreshold: number;
+  geminiCircuitResetMs: number;
+}
+
+export type EvalOperation = "sentiment" | "tags" | "insights";
+
+export type EvalBackendName = LlmProviderName | "keyword";
+
+// One labeled line of an evaluation dataset
+export interface EvalExample {
+  id: string;
+  text: string;
+  label?: SentimentResult["label"];
+  score?: number;
+  tags?: string[];
+}
+
+export interface EvalPrediction {
+  id: string;
+  operation: EvalOperation;
+  label?: string;
+  score?: number;
+  tags?: string[];
+  isFallback: boolean;
+  error?: string;
+}
+
+export interface EvalMetrics {
+  examples: number;
+  errorRate: number;
+  fallbackRate: number;
+  // Metrics are omitted when no example carries the expected value
+  accuracy?: number;
+  mae?: number;
+  tagPrecision?: number;
+  tagRecall?: number;
+  tagF1?: number;
+}
+
+export interface EvalMetricDelta {
+  operation: EvalOperation;
+  metric: keyof EvalMetrics;
+  baseline: number;
+  current: number;
+  delta: number;
+  regressed: boolean;
+}
+
+export interface EvalComparison {
+  baseline: { backend: string; model: string; completedAt: string };
+  tolerance: number;
+  deltas: EvalMetricDelta[];
+  regressions: EvalMetricDelta[];
+}
+
+export interface EvalReport {
+  dataset: string;
+  backend: EvalBackendName;
+  model: string;
+  promptVersions: Partial<Record<EvalOperation, string>>;
+  startedAt: string;
+  completedAt: string;
+  examples: number;
+  metrics: Partial<Record<EvalOperation, EvalMetrics>>;
+  predictions: EvalPrediction[];
+  comparison?: EvalComparison;
 }
@@ -0,0 +1,101 @@
+import { getLexicon } from "../lexicons";
+import { AspectSentiment, TextSpan } from "../types";
+import { labelForScore, scoreSentiment } from "./keywordAnalysis";
+
+// Keyword-window aspect sentiment. The text is cut into clauses at
+// punctuation and contrastive conjunctions ("love the product, but support
+// was awful" -> two clauses); each clause that mentions an aspect keyword is
+// a window scored with the sentiment lexicon.
+
+const CLAUSE_BOUNDARY =
+  /[.!?;,\n]+|\s(?:but|however|although|though|whereas|pero|aunque|mais|aber|jedoch|mas|porém)\s/giu;
+
+const toSpan = (text: string, start: number, end: number): TextSpan | null => {
+  const raw = text.slice(start, end);
+  const trimmedStart = start + (raw.length - raw.trimStart().length);
+  const trimmedEnd = end - (raw.length - raw.trimEnd().length);
+  return trimmedEnd > trimmedStart
+    ? {
+        text: text.slice(trimmedStart, trimmedEnd),
+        start: trimmedStart,
+        end: trimmedEnd,
+      }
+    : null;
+};
+
+export const splitClauses = (text: string): TextSpan[] => {
+  const spans: (TextSpan | null)[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(CLAUSE_BOUNDARY)) {
+    spans.push(toSpan(text, start, match.index ?? start));
+    start = (match.index ?? start) + match[0].length;
+  }
+  spans.push(toSpan(text, start, text.length));
+
+  return spans.filter((span): span is TextSpan => span !== null);
+};
+
+/**
+ * Finds `quote` in `text` (case-insensitively) and returns it with offsets.
+ * Quotes that don't occur verbatim are returned without offsets.
+ */
+export const locateSpan = (text: string, quote: string): TextSpan => {
+  const start = text.toLowerCase().indexOf(quote.toLowerCase());
+  if (start < 0) return { text: quote };
+
+  const end = start + quote.length;
+  return { text: text.slice(start, end), start, end };
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Scores each aspect over the clauses mentioning it: the aspect name itself
+ * or one of its theme keywords in the lexicon for `language`. Aspects that
+ * are never mentioned are omitted. The span is the most opinionated clause;
+ * an aspect praised in one clause and criticised in another is "mixed".
+ */
+export const analyzeAspectWindows = (
+  text: string,
+  aspects: string[],
+  language?: string,
+): AspectSentiment[] => {
+  const themes = getLexicon(language).themes;
+  const clauses = splitClauses(text);
+
+  return aspects.flatMap((aspect) => {
+    const keywords = [aspect, ...(themes[aspect] || [])].map((keyword) =>
+      keyword.toLowerCase(),
+    );
+    const windows = clauses
+      .filter((clause) =>
+        keywords.some((keyword) => clause.text.toLowerCase().includes(keyword)),
+      )
+      .map((clause) => ({
+        clause,
+        score: scoreSentiment(clause.text, language),
+      }));
+
+    if (windows.length === 0) return [];
+
+    const score = round(
+      windows.reduce((sum, window) => sum + window.score, 0) / windows.length,
+    );
+    const strongest = [...windows].sort(
+      (a, b) => Math.abs(b.score) - Math.abs(a.score),
+    )[0];
+    const mixed =
+      windows.some((window) => window.score > 0.1) &&
+      windows.some((window) => window.score < -0.1);
+
+    return [
+      {
+        aspect,
+        score,
+        label: mixed ? "mixed" : labelForScore(score),
+        span: strongest.clause,
+      },
+    ];
+  });
+};
@@ -0,0 +1,102 @@
+import { createAppError } from "./errors";
+import { CircuitBreakerStats } from "../types";
+
+/**
+ * Consecutive-failure circuit breaker. After `failureThreshold` failures the
+ * circuit opens and calls are rejected with CIRCUIT_OPEN until
+ * `resetTimeoutMs` has passed; then a single trial call is let through
+ * (half-open) and its outcome closes or re-opens the circuit.
+ */
+export const createCircuitBreaker = (
+  name: string,
+  options: { failureThreshold: number; resetTimeoutMs: number },
+  now: () => number = Date.now,
+) => {
+  let state: CircuitBreakerStats["state"] = "closed";
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const open = (): void => {
+    state = "open";
+    openedAt = now();
+    trialInFlight = false;
+  };
+
+  // Throws when the call must not reach the provider
+  const acquire = (): void => {
+    if (state === "open" && now() - (openedAt ?? 0) >= options.resetTimeoutMs) {
+      state = "half_open";
+    }
+
+    if (state === "open" || (state === "half_open" && trialInFlight)) {
+      throw createAppError(
+        `${name} is unavailable (circuit open)`,
+        503,
+        "CIRCUIT_OPEN",
+      );
+    }
+
+    if (state === "half_open") {
+      trialInFlight = true;
+    }
+  };
+
+  // Whether acquire() would let a call through, without claiming the trial
+  const isCallAllowed = (): boolean =>
+    state === "closed" ||
+    (state === "half_open" && !trialInFlight) ||
+    (state === "open" && now() - (openedAt ?? 0) >= options.resetTimeoutMs);
+
+  const recordSuccess = (): void => {
+    state = "closed";
+    consecutiveFailures = 0;
+    openedAt = null;
+    trialInFlight = false;
+  };
+
+  const recordFailure = (): void => {
+    consecutiveFailures++;
+    if (state === "half_open" || consecutiveFailures >= options.failureThreshold) {
+      open();
+    }
+  };
+
+  const execute = async <T>(
+    fn: () => Promise<T>,
+    countsAsFailure: (error: unknown) => boolean = () => true,
+  ): Promise<T> => {
+    acquire();
+    try {
+      const result = await fn();
+      recordSuccess();
+      return result;
+    } catch (error) {
+      if (countsAsFailure(error)) {
+        recordFailure();
+      } else {
+        // The provider answered, just not successfully for this input
+        recordSuccess();
+      }
+      throw error;
+    }
+  };
+
+  const getStats = (): CircuitBreakerStats => ({
+    state:
+      state === "open" && now() - (openedAt ?? 0) >= options.resetTimeoutMs
+        ? "half_open"
+        : state,
+    consecutiveFailures,
+    openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+  });
+
+  return {
+    acquire,
+    isCallAllowed,
+    recordSuccess,
+    recordFailure,
+    execute,
+    getStats,
+  };
+};
@@ -0,0 +1,15 @@
+export interface AppError extends Error {
+  statusCode?: number;
+  code?: string;
+}
+
+export const createAppError = (
+  message: string,
+  statusCode: number,
+  code: string,
+): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = statusCode;
+  error.code = code;
+  return error;
+};
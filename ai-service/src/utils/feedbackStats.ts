@@ -0,0 +1,34 @@
+import { StoredFeedbackPoint } from "../types";
+
+/**
+ * Tag occurrence counts across stored feedback, most frequent first.
+ */
+export const countTags = (
+  points: StoredFeedbackPoint[],
+): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  points.forEach((point) =>
+    (point.payload.tags || []).forEach((tag) => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    }),
+  );
+
+  return Object.fromEntries(
+    Object.entries(counts).sort((a, b) => b[1] - a[1]),
+  );
+};
+
+/**
+ * Mean sentiment of the points that carry a score, or null when none do.
+ */
+export const averageSentiment = (
+  points: StoredFeedbackPoint[],
+): number | null => {
+  const scores = points
+    .map((point) => point.payload.sentimentScore)
+    .filter((score): score is number => typeof score === "number");
+
+  return scores.length > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : null;
+};
@@ -0,0 +1,65 @@
+import { englishLexicon } from "../lexicons/en";
+import { getLexicon, listLexicons } from "../lexicons";
+
+// Canonical English tags and their English keywords
+export const COMMON_THEMES: Record<string, string[]> = englishLexicon.themes;
+
+export const scoreSentiment = (text: string, language?: string): number => {
+  const lowerText = text.toLowerCase();
+  const lexicon = getLexicon(language);
+  let score = 0;
+
+  lexicon.positive.forEach((word) => {
+    if (lowerText.includes(word)) score += 0.2;
+  });
+  lexicon.negative.forEach((word) => {
+    if (lowerText.includes(word)) score -= 0.2;
+  });
+
+  return Math.max(-1, Math.min(1, score));
+};
+
+export const labelForScore = (
+  score: number,
+): "positive" | "negative" | "neutral" =>
+  score > 0.1 ? "positive" : score < -0.1 ? "negative" : "neutral";
+
+export const matchThemes = (text: string, language?: string): string[] => {
+  const lowerText = text.toLowerCase();
+
+  return Object.entries(getLexicon(language).themes)
+    .filter(([, keywords]) => keywords.some((kw) => lowerText.includes(kw)))
+    .map(([theme]) => theme);
+};
+
+/**
+ * Maps tags onto the canonical English themes: a tag that is a theme keyword
+ * in any registered language becomes that theme; other tags are kept,
+ * lowercased. Duplicates are dropped, first occurrence wins.
+ */
+export const canonicalizeTags = (tags: string[]): string[] => {
+  const canonical = new Map<string, string>();
+  listLexicons().forEach((lexicon) =>
+    Object.entries(lexicon.themes).forEach(([theme, keywords]) => {
+      canonical.set(theme, theme);
+      keywords.forEach((keyword) => {
+        if (!canonical.has(keyword)) canonical.set(keyword, theme);
+      });
+    }),
+  );
+
+  const normalized = tags.map((tag) => {
+    const lower = tag.trim().toLowerCase();
+    return canonical.get(lower) || lower;
+  });
+
+  return [...new Set(normalized)].filter(Boolean);
+};
+
+export const estimateEngagement = (
+  text: string,
+): "Low" | "Medium" | "High" | "VeryHigh" => {
+  if (text.length > 200) return "High";
+  if (text.length < 50) return "Low";
+  return "Medium";
+};
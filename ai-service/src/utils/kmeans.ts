@@ -0,0 +1,129 @@
+// Spherical k-means for unit-length embedding vectors: similarity is the dot
+// product and centroids are re-normalized after every update. Seeding uses
+// k-means++ with a fixed-seed PRNG so the same input gives the same clusters.
+// The passes over the vectors yield to the event loop every YIELD_EVERY
+// vectors, so clustering thousands of embeddings does not stall other
+// requests.
+
+export type KMeansResult = {
+  assignments: number[];
+  centroids: number[][];
+};
+
+const YIELD_EVERY = 250;
+
+const yieldToEventLoop = (): Promise<void> =>
+  new Promise((resolve) => setImmediate(resolve));
+
+const mapWithYields = async <T, R>(
+  items: T[],
+  fn: (item: T, index: number) => R,
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (i > 0 && i % YIELD_EVERY === 0) await yieldToEventLoop();
+    results.push(fn(items[i], i));
+  }
+  return results;
+};
+
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const dot = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+};
+
+const seedCentroids = async (
+  vectors: number[][],
+  k: number,
+  random: () => number,
+): Promise<number[][]> => {
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  let distances = new Array<number>(vectors.length).fill(Infinity);
+
+  while (centroids.length < k) {
+    // Distance for unit vectors: 1 - cosine similarity. Only the newest
+    // centroid can bring a vector closer.
+    const newest = centroids[centroids.length - 1];
+    distances = await mapWithYields(vectors, (vector, i) =>
+      Math.min(distances[i], Math.max(0, 1 - dot(vector, newest))),
+    );
+    const total = distances.reduce((sum, d) => sum + d * d, 0);
+
+    if (total === 0) break;
+
+    let target = random() * total;
+    const index = distances.findIndex((d) => (target -= d * d) <= 0);
+    centroids.push(vectors[index === -1 ? vectors.length - 1 : index]);
+  }
+
+  return centroids;
+};
+
+export const kMeans = async (
+  input: number[][],
+  k: number,
+  options: { maxIterations?: number; seed?: number } = {},
+): Promise<KMeansResult> => {
+  const vectors = await mapWithYields(input, normalize);
+  const random = mulberry32(options.seed ?? 42);
+  let centroids = await seedCentroids(
+    vectors,
+    Math.min(k, vectors.length),
+    random,
+  );
+  let assignments = new Array<number>(vectors.length).fill(-1);
+
+  for (let iteration = 0; iteration < (options.maxIterations ?? 50); iteration++) {
+    const next = await mapWithYields(vectors, (vector) => {
+      let best = 0;
+      let bestScore = -Infinity;
+      centroids.forEach((centroid, index) => {
+        const score = dot(vector, centroid);
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+        }
+      });
+      return best;
+    });
+
+    const changed = next.some((cluster, i) => cluster !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    // One pass sums every cluster's members
+    const sums = centroids.map((centroid) =>
+      new Array<number>(centroid.length).fill(0),
+    );
+    const sizes = new Array<number>(centroids.length).fill(0);
+    await mapWithYields(vectors, (vector, i) => {
+      sizes[assignments[i]] += 1;
+      vector.forEach((v, d) => (sums[assignments[i]][d] += v));
+    });
+
+    centroids = centroids.map((centroid, index) =>
+      sizes[index] === 0 ? centroid : normalize(sums[index]),
+    );
+  }
+
+  return { assignments, centroids };
+};
+
+/**
+ * Rule-of-thumb cluster count when the caller doesn't pick one.
+ */
+export const suggestK = (points: number): number =>
+  Math.max(1, Math.min(10, Math.round(Math.sqrt(points / 2))));
@@ -0,0 +1,92 @@
+import { listLexicons } from "../lexicons";
+
+// Lightweight language identification. Non-Latin scripts decide the language
+// on their own; Latin-script text is scored by hits on common function words
+// plus the vocabulary of the registered fallback lexicons. Returns an
+// ISO 639-1 code, or "und" when there is no usable signal.
+
+export const UNDETERMINED_LANGUAGE = "und";
+
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: "ja", pattern: /[\u3040-\u30ff]/gu },
+  { language: "ko", pattern: /[\uac00-\ud7af]/gu },
+  { language: "zh", pattern: /[\u4e00-\u9fff]/gu },
+  { language: "ru", pattern: /[\u0400-\u04ff]/gu },
+  { language: "ar", pattern: /[\u0600-\u06ff]/gu },
+  { language: "he", pattern: /[\u0590-\u05ff]/gu },
+  { language: "el", pattern: /[\u0370-\u03ff]/gu },
+  { language: "hi", pattern: /[\u0900-\u097f]/gu },
+  { language: "th", pattern: /[\u0e00-\u0e7f]/gu },
+];
+
+// Frequent function words per language
+const STOPWORDS: Record<string, string[]> = {
+  en: "the and is it to of this that not very but for with was are my you i in have".split(" "),
+  es: "el la los las que y es un una por para con no muy pero lo del al mi está".split(" "),
+  fr: "le la les des et est un une je pas très que qui pour dans ce avec mais du ne".split(" "),
+  de: "der die das und ist nicht ich es ein eine zu mit sehr aber auf für den dem sich auch".split(" "),
+  pt: "o os as que e é um uma não muito para com mas do da em eu por está meu".split(" "),
+  it: "il lo gli di che è un una non molto per con ma del della sono mi questo anche ho".split(" "),
+  nl: "de het een en is niet ik van dat met zeer heel maar voor op te zijn mijn ook erg".split(" "),
+};
+
+const countMatches = (text: string, pattern: RegExp): number =>
+  text.match(pattern)?.length ?? 0;
+
+const latinVocabulary = (): Map<string, Set<string>> => {
+  const vocabulary = new Map<string, Set<string>>(
+    Object.entries(STOPWORDS).map(([language, words]) => [
+      language,
+      new Set(words),
+    ]),
+  );
+
+  listLexicons().forEach((lexicon) => {
+    const words = vocabulary.get(lexicon.language) || new Set<string>();
+    [
+      ...lexicon.positive,
+      ...lexicon.negative,
+      ...Object.values(lexicon.themes).flat(),
+    ]
+      .filter((word) => !word.includes(" "))
+      .forEach((word) => words.add(word));
+    vocabulary.set(lexicon.language, words);
+  });
+
+  return vocabulary;
+};
+
+export const detectLanguage = (text: string): string => {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters === 0) return UNDETERMINED_LANGUAGE;
+
+  const script = SCRIPTS.map(({ language, pattern }) => ({
+    language,
+    count: countMatches(text, pattern),
+  })).sort((a, b) => b.count - a.count)[0];
+
+  // Kana mixed with kanji is Japanese, not Chinese
+  if (script.count / letters > 0.3) {
+    return script.language === "zh" && countMatches(text, SCRIPTS[0].pattern) > 0
+      ? "ja"
+      : script.language;
+  }
+
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = UNDETERMINED_LANGUAGE;
+  let bestScore = 0;
+  let tied = false;
+
+  latinVocabulary().forEach((words, language) => {
+    const score = tokens.filter((token) => words.has(token)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  });
+
+  return tied ? UNDETERMINED_LANGUAGE : best;
+};
@@ -0,0 +1,45 @@
+// Pulls field values out of a JSON object that is still being streamed.
+// Only scalars and arrays that are already complete are returned, except for
+// the string fields listed in `growing`, which are returned as far as they go.
+
+const unescapeJsonString = (value: string): string | undefined => {
+  // A dangling backslash means the escape sequence hasn't arrived yet
+  const safe = value.replace(/\\$/, "");
+  try {
+    return JSON.parse(`"${safe}"`) as string;
+  } catch {
+    return undefined;
+  }
+};
+
+export const extractPartialFields = (
+  buffer: string,
+  fields: string[],
+  growing: string[] = [],
+): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+
+  fields.forEach((field) => {
+    const key = `"${field}"\\s*:\\s*`;
+
+    const complete = buffer.match(
+      new RegExp(`${key}("(?:[^"\\\\]|\\\\.)*"|-?\\d+(?:\\.\\d+)?(?=\\s*[,}\\n])|\\[[^\\]]*\\])`),
+    );
+    if (complete) {
+      try {
+        values[field] = JSON.parse(complete[1]);
+        return;
+      } catch {
+        // Fall through to partial handling
+      }
+    }
+
+    if (growing.includes(field)) {
+      const partial = buffer.match(new RegExp(`${key}"((?:[^"\\\\]|\\\\.)*\\\\?)$`));
+      const value = partial && unescapeJsonString(partial[1]);
+      if (value) values[field] = value;
+    }
+  });
+
+  return values;
+};
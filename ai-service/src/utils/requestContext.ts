@@ -0,0 +1,17 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { RequestContext } from "../types";
+
+// Carries the calling client and endpoint through the async call chain of a
+// request, so the LLM client can attribute usage without every service
+// passing them along. Work outside a request (the embedding worker) has no
+// context.
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T,
+): T => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
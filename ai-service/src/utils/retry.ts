@@ -0,0 +1,36 @@
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn`, retrying retryable errors up to `retries` times. Delays use
+ * exponential backoff with full jitter: a random wait between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^attempt).
+ */
+export const retryWithJitter = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    isRetryable: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+    random?: () => number;
+  },
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !options.isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = Math.round(
+        (options.random ?? Math.random)() *
+          Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt),
+      );
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import { config } from "../config";
+import { SpamAssessment, SpamReason } from "../types";
+
+// Heuristics for bot-like or gibberish feedback. Each signal scores 0 to 1;
+// the text is spam when the strongest one reaches SPAM_THRESHOLD. Texts too
+// short to judge score 0.
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+const MIN_WORDS = 6;
+const MIN_CHARACTERS = 12;
+
+// Share of word trigrams that repeat an earlier trigram, so pasted phrases
+// score high while ordinary reuse of common words does not
+const repetitionScore = (words: string[]): number => {
+  if (words.length < MIN_WORDS) return 0;
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i + 2 < words.length; i++) {
+    const trigram = words.slice(i, i + 3).join(" ");
+    counts.set(trigram, (counts.get(trigram) || 0) + 1);
+  }
+
+  const total = words.length - 2;
+  const repeated = [...counts.values()].reduce(
+    (sum, count) => sum + count - 1,
+    0,
+  );
+  return repeated / total;
+};
+
+// Shannon entropy of the characters in bits; natural language sits around
+// 4, keyboard mashing of a few keys well below 3
+export const characterEntropy = (text: string): number => {
+  const characters = [...text.toLowerCase().replace(/\s+/g, "")];
+  if (characters.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  characters.forEach((character) =>
+    counts.set(character, (counts.get(character) || 0) + 1),
+  );
+
+  return [...counts.values()].reduce((entropy, count) => {
+    const p = count / characters.length;
+    return entropy - p * Math.log2(p);
+  }, 0);
+};
+
+const lowEntropyScore = (text: string): number => {
+  if (text.replace(/\s+/g, "").length < MIN_CHARACTERS) return 0;
+  return Math.min(1, Math.max(0, (3 - characterEntropy(text)) / 1.5));
+};
+
+// Links per whitespace-separated token; one link in every two tokens scores 1
+const linkDensityScore = (text: string): number => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return 0;
+
+  const links = text.match(URL_PATTERN)?.length ?? 0;
+  return Math.min(1, (links / tokens.length) * 2);
+};
+
+export const assessSpam = (text: string): SpamAssessment => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const signals: Record<SpamReason, number> = {
+    repetition: repetitionScore(words),
+    low_entropy: lowEntropyScore(text),
+    link_density: linkDensityScore(text),
+  };
+
+  const score = Math.max(...Object.values(signals));
+  const reasons = (Object.keys(signals) as SpamReason[]).filter(
+    (reason) => signals[reason] >= config.spamThreshold,
+  );
+
+  return {
+    isSpam: score >= config.spamThreshold,
+    score: Math.round(score * 100) / 100,
+    reasons,
+  };
+};
@@ -0,0 +1,50 @@
+// In-memory token buckets keyed by client. Each bucket starts full, refills
+// continuously at `refillPerSecond` and each request takes one token.
+
+import { RateLimitSettings } from "../types";
+
+export type TokenBucketResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next token is available, 0 when allowed
+  retryAfterSeconds: number;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+export const createTokenBucketLimiter = (now: () => number = Date.now) => {
+  const buckets = new Map<string, Bucket>();
+
+  const take = (key: string, settings: RateLimitSettings): TokenBucketResult => {
+    const { capacity, refillPerSecond } = settings;
+    const current = now();
+    const bucket = buckets.get(key) || { tokens: capacity, updatedAt: current };
+
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + ((current - bucket.updatedAt) / 1000) * refillPerSecond,
+    );
+    bucket.updatedAt = current;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    buckets.set(key, bucket);
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil((capacity - bucket.tokens) / refillPerSecond),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil((1 - bucket.tokens) / refillPerSecond),
+    };
+  };
+
+  return { take };
+};
@@ -1,8 +1,24 @@
+import { config } from "../config";
+import { storeFeedbackEmbedding } from "../services/embeddingService";
 import {
-  ensureCollectionExists,
-  storeFeedbackEmbedding,
-} from "../services/embeddingService";
+  deleteFeedbackPoints,
+  ensureCollectionReady,
+} from "../services/collectionService";
 import { logger } from "../utils/logger";
+import {
+  getRequestContext,
+  runWithRequestContext,
+} from "../utils/requestContext";
+import { embeddingJobsTotal } from "../infra/metrics";
+import { BACKGROUND_CLIENT } from "../services/usageService";
+import {
+  EmbeddingJobRecord,
+  EmbeddingJobStatus,
+  deleteJobRecords,
+  getJobRecord,
+  listJobRecords,
+  saveJobRecord,
+} from "./jobStore";
 
 export type EmbeddingJob = {
   feedbackId: string;
@@ -14,13 +30,33 @@ export type EmbeddingJob = {
     tags?: string[];
     engagementLevel?: string;
     analyzedAt: string;
+    model?: string;
+    promptVersion?: string;
   };
 };
 
-export const processEmbeddingJob = async (job: EmbeddingJob) => {
+export type EmbeddingJobSummary = {
+  id: string;
+  userId?: string;
+  status: EmbeddingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  duplicateOf?: string;
+};
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export const processEmbeddingJob = async (
+  job: EmbeddingJob,
+): Promise<{ duplicateOf?: string }> => {
   try {
-    await ensureCollectionExists();
-    await storeFeedbackEmbedding(job);
+    return await storeFeedbackEmbedding(job);
   } catch (error) {
     logger.error("Embedding job failed", {
       feedbackId: job.feedbackId,
@@ -30,3 +66,224 @@ export const processEmbeddingJob = async (job: EmbeddingJob) => {
     throw error;
   }
 };
+
+export const toJobSummary = (
+  record: EmbeddingJobRecord,
+): EmbeddingJobSummary => ({
+  id: record.id,
+  userId: record.job.userId,
+  status: record.status,
+  attempts: record.attempts,
+  maxAttempts: record.maxAttempts,
+  nextAttemptAt: record.nextAttemptAt,
+  lastError: record.lastError,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  completedAt: record.completedAt,
+  duplicateOf: record.duplicateOf,
+});
+
+const backoffDelay = (attempts: number): number =>
+  Math.min(
+    config.embeddingRetryBaseMs * 2 ** (attempts - 1),
+    config.embeddingRetryMaxMs,
+  );
+
+export const enqueueEmbeddingJob = async (
+  job: EmbeddingJob,
+): Promise<EmbeddingJobRecord> => {
+  const now = new Date().toISOString();
+
+  const record = await saveJobRecord({
+    id: job.feedbackId,
+    status: "pending",
+    attempts: 0,
+    maxAttempts: config.embeddingMaxAttempts,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+    client: getRequestContext()?.client,
+    job,
+  });
+
+  logger.info("Embedding job enqueued", { jobId: record.id });
+  return record;
+};
+
+const runJob = async (record: EmbeddingJobRecord): Promise<void> => {
+  // Only the outcome is written: after a crash the job is still pending on
+  // disk and simply runs again
+  record.status = "processing";
+  record.attempts += 1;
+  record.updatedAt = new Date().toISOString();
+
+  try {
+    const { duplicateOf } = await runWithRequestContext(
+      {
+        client: record.client || BACKGROUND_CLIENT,
+        endpoint: "embedding",
+        fallbackOnly: false,
+      },
+      () => processEmbeddingJob(record.job),
+    );
+
+    // The user's data was erased while the point was being stored
+    if ((await getJobRecord(record.id)) !== record) {
+      await deleteFeedbackPoints({
+        must: [{ has_id: [record.job.feedbackId] }],
+      });
+      logger.info("Embedding job dropped after user data purge", {
+        jobId: record.id,
+      });
+      return;
+    }
+
+    record.status = "completed";
+    record.duplicateOf = duplicateOf;
+    record.lastError = undefined;
+    record.completedAt = new Date().toISOString();
+    embeddingJobsTotal.inc({ outcome: "succeeded" });
+  } catch (error) {
+    if ((await getJobRecord(record.id)) !== record) return;
+    record.lastError = (error as Error).message;
+
+    embeddingJobsTotal.inc({
+      outcome: record.attempts >= record.maxAttempts ? "dead" : "failed",
+    });
+
+    if (record.attempts >= record.maxAttempts) {
+      record.status = "dead";
+      logger.error("Embedding job moved to dead-letter list", {
+        jobId: record.id,
+        attempts: record.attempts,
+      });
+    } else {
+      const delay = backoffDelay(record.attempts);
+      record.status = "pending";
+      record.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      logger.warn("Embedding job scheduled for retry", {
+        jobId: record.id,
+        attempts: record.attempts,
+        delayMs: delay,
+      });
+    }
+  }
+
+  record.updatedAt = new Date().toISOString();
+  await saveJobRecord(record);
+};
+
+const pruneCompletedJobs = async (): Promise<void> => {
+  const cutoff = Date.now() - config.embeddingJobRetentionHours * 3600_000;
+  const expired = await listJobRecords(
+    (record) =>
+      record.status === "completed" &&
+      Date.parse(record.completedAt || record.updatedAt) < cutoff,
+  );
+
+  await deleteJobRecords(expired.map((record) => record.id));
+};
+
+/**
+ * Runs every pending job whose retry time has come, one at a time.
+ * Returns the number of jobs attempted. Jobs wait while the collection is
+ * unprovisioned, being re-indexed or built for another embedding model.
+ */
+export const processDueJobs = async (): Promise<number> => {
+  if (ticking) return 0;
+  ticking = true;
+
+  try {
+    const now = Date.now();
+    const due = await listJobRecords(
+      (record) =>
+        record.status === "pending" && Date.parse(record.nextAttemptAt) <= now,
+    );
+    if (due.length > 0 && !(await ensureCollectionReady())) return 0;
+
+    for (const record of due) {
+      // Skip jobs deleted by a purge since the list was taken
+      if ((await getJobRecord(record.id)) === record) await runJob(record);
+    }
+
+    await pruneCompletedJobs();
+    return due.length;
+  } finally {
+    ticking = false;
+  }
+};
+
+export const startEmbeddingWorker = async (): Promise<void> => {
+  // Jobs caught mid-flight by a crash or restart are retried
+  const interrupted = await listJobRecords(
+    (record) => record.status === "processing",
+  );
+  for (const record of interrupted) {
+    record.status = "pending";
+    record.updatedAt = new Date().toISOString();
+    await saveJobRecord(record);
+  }
+
+  timer = setInterval(() => {
+    processDueJobs().catch((error) => {
+      logger.error("Embedding worker tick failed", {
+        error: (error as Error).message,
+      });
+    });
+  }, config.embeddingWorkerIntervalMs);
+
+  logger.info("Embedding worker started", {
+    intervalMs: config.embeddingWorkerIntervalMs,
+    recoveredJobs: interrupted.length,
+  });
+};
+
+export const stopEmbeddingWorker = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+export const getEmbeddingJob = getJobRecord;
+
+export const listDeadLetterJobs = (): Promise<EmbeddingJobRecord[]> =>
+  listJobRecords((record) => record.status === "dead");
+
+/**
+ * Resets a job so the worker picks it up on its next tick.
+ * Jobs already waiting or running are left untouched.
+ */
+export const replayEmbeddingJob = async (
+  id: string,
+): Promise<EmbeddingJobRecord | undefined> => {
+  const record = await getJobRecord(id);
+  if (!record || record.status === "pending" || record.status === "processing") {
+    return record;
+  }
+
+  const now = new Date().toISOString();
+  record.status = "pending";
+  record.attempts = 0;
+  record.lastError = undefined;
+  record.completedAt = undefined;
+  record.duplicateOf = undefined;
+  record.nextAttemptAt = now;
+  record.updatedAt = now;
+  await saveJobRecord(record);
+
+  logger.info("Embedding job replayed", { jobId: id });
+  return record;
+};
+
+export const replayDeadLetterJobs = async (): Promise<EmbeddingJobRecord[]> => {
+  const dead = await listDeadLetterJobs();
+  const replayed: EmbeddingJobRecord[] = [];
+
+  for (const record of dead) {
+    const result = await replayEmbeddingJob(record.id);
+    if (result) replayed.push(result);
+  }
+
+  return replayed;
+};
@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import type { EmbeddingJob } from "./embeddingWorker";
+
+export type EmbeddingJobStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "dead";
+
+export type EmbeddingJobRecord = {
+  id: string;
+  status: EmbeddingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  // Set once stored, when the feedback nearly repeats earlier feedback
+  duplicateOf?: string;
+  // API client whose request enqueued the job; its embedding is billed to it
+  client?: string;
+  job: EmbeddingJob;
+};
+
+let jobs: Map<string, EmbeddingJobRecord> | null = null;
+let loading: Promise<Map<string, EmbeddingJobRecord>> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+let pendingWrite: Promise<void> | null = null;
+
+const load = async (): Promise<Map<string, EmbeddingJobRecord>> => {
+  try {
+    const raw = await fs.readFile(config.embeddingJobsPath, "utf8");
+    const records = JSON.parse(raw) as EmbeddingJobRecord[];
+    jobs = new Map(records.map((record) => [record.id, record]));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    jobs = new Map();
+  }
+
+  logger.info("Embedding job store loaded", {
+    path: config.embeddingJobsPath,
+    jobs: jobs.size,
+  });
+
+  return jobs;
+};
+
+const getJobs = (): Promise<Map<string, EmbeddingJobRecord>> => {
+  if (jobs) return Promise.resolve(jobs);
+  if (!loading) loading = load();
+  return loading;
+};
+
+const writeStore = async (): Promise<void> => {
+  const records = [...(jobs?.values() || [])];
+  const tmpPath = `${config.embeddingJobsPath}.tmp`;
+
+  await fs.mkdir(path.dirname(config.embeddingJobsPath), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+  await fs.rename(tmpPath, config.embeddingJobsPath);
+};
+
+// Writes go through a temp file and rename so a crash never leaves a
+// truncated store behind, and the queue keeps them ordered. Changes made
+// while a write is still waiting share that write, so a burst of saves
+// rewrites the file once. A failed write fails its own callers only.
+const persist = (): Promise<void> => {
+  if (!pendingWrite) {
+    pendingWrite = writeQueue
+      .catch(() => undefined)
+      .then(() => {
+        pendingWrite = null;
+        return writeStore();
+      });
+    writeQueue = pendingWrite;
+  }
+
+  return pendingWrite;
+};
+
+export const getJobRecord = async (
+  id: string,
+): Promise<EmbeddingJobRecord | undefined> => (await getJobs()).get(id);
+
+export const listJobRecords = async (
+  predicate: (record: EmbeddingJobRecord) => boolean,
+): Promise<EmbeddingJobRecord[]> =>
+  [...(await getJobs()).values()].filter(predicate);
+
+export const saveJobRecord = async (
+  record: EmbeddingJobRecord,
+): Promise<EmbeddingJobRecord> => {
+  (await getJobs()).set(record.id, record);
+  await persist();
+  return record;
+};
+
+export const deleteJobRecords = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const store = await getJobs();
+  ids.forEach((id) => store.delete(id));
+  await persist();
+};
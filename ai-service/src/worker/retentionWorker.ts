@@ -0,0 +1,40 @@
+import { config } from "../config";
+import { purgeExpiredFeedback } from "../services/privacyService";
+import { logger } from "../utils/logger";
+
+let timer: NodeJS.Timeout | null = null;
+
+const runRetention = (): Promise<void> =>
+  purgeExpiredFeedback()
+    .then(() => undefined)
+    .catch((error) => {
+      logger.error("Retention purge failed", {
+        error: (error as Error).message,
+      });
+    });
+
+/**
+ * Purges expired feedback now and then every RETENTION_INTERVAL_HOURS.
+ * Not started while FEEDBACK_RETENTION_DAYS is 0.
+ */
+export const startRetentionWorker = (): void => {
+  if (config.feedbackRetentionDays <= 0) {
+    logger.info("Feedback retention disabled");
+    return;
+  }
+
+  void runRetention();
+  timer = setInterval(runRetention, config.retentionIntervalHours * 3600_000);
+
+  logger.info("Retention worker started", {
+    retentionDays: config.feedbackRetentionDays,
+    intervalHours: config.retentionIntervalHours,
+  });
+};
+
+export const stopRetentionWorker = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
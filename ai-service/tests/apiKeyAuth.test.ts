@@ -0,0 +1,124 @@
+import request from 'supertest';
+import express, { Express } from 'express';
+import { createTokenBucketLimiter } from '../src/utils/tokenBucket';
+
+describe('API key authentication', () => {
+  let app: Express;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'dotnet:dotnet-secret:sentiment|tags,reader:reader-secret:search';
+    process.env.RATE_LIMIT_CAPACITY = '2';
+    process.env.RATE_LIMIT_REFILL_PER_SECOND = '0.001';
+    jest.isolateModules(() => {
+      app = require('../src/index').default;
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.API_KEYS;
+    delete process.env.RATE_LIMIT_CAPACITY;
+    delete process.env.RATE_LIMIT_REFILL_PER_SECOND;
+  });
+
+  it('should return 401 without an API key', async () => {
+    const response = await request(app)
+      .post('/api/ai/sentiment')
+      .send({ text: 'Great product' })
+      .expect(401);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.error.code).toBe('UNAUTHORIZED');
+  });
+
+  it('should return 401 for an unknown API key', async () => {
+    const response = await request(app)
+      .post('/api/ai/sentiment')
+      .set('X-API-Key', 'nope')
+      .send({ text: 'Great product' })
+      .expect(401);
+
+    expect(response.body.error.code).toBe('UNAUTHORIZED');
+  });
+
+  it('should return 403 when the key lacks the route scope', async () => {
+    const response = await request(app)
+      .post('/api/ai/sentiment')
+      .set('Authorization', 'Bearer reader-secret')
+      .send({ text: 'Great product' })
+      .expect(403);
+
+    expect(response.body.error.code).toBe('FORBIDDEN');
+  });
+
+  it('should rate limit each key and report RateLimit headers', async () => {
+    const send = () => request(app)
+      .post('/api/ai/tags')
+      .set('X-API-Key', 'dotnet-secret')
+      .send({ text: 'Checkout is slow' });
+
+    const first = await send().expect(200);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+
+    await send().expect(200);
+
+    const limited = await send().expect(429);
+    expect(limited.body.error.code).toBe('RATE_LIMITED');
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+    expect(limited.headers['retry-after']).toBeDefined();
+  });
+
+  it('should leave /health unauthenticated', async () => {
+    await request(app).get('/health').expect(200);
+  });
+});
+
+describe('Without configured API keys', () => {
+  // The full app listens outside the test environment, so the middleware is
+  // mounted on its own
+  const load = (nodeEnv: string): Express => {
+    const app = express();
+    process.env.NODE_ENV = nodeEnv;
+    jest.isolateModules(() => {
+      const { apiKeyAuth, requireScope } = require('../src/middleware/apiKeyAuth');
+      app.use(apiKeyAuth);
+      app.get('/sentiment', requireScope('sentiment'), (_req, res) => { res.json({}); });
+      app.get('/privacy', requireScope('privacy'), (_req, res) => { res.json({}); });
+      app.get('/admin', requireScope('admin'), (_req, res) => { res.json({}); });
+    });
+    process.env.NODE_ENV = 'test';
+    return app;
+  };
+
+  it('should refuse every request outside development and test', async () => {
+    const app = load('production');
+
+    const response = await request(app).get('/sentiment').expect(401);
+
+    expect(response.body.error.code).toBe('UNAUTHORIZED');
+  });
+
+  it('should leave analysis open in development but refuse admin and privacy scopes', async () => {
+    const app = load('development');
+
+    await request(app).get('/sentiment').expect(200);
+    const response = await request(app).get('/privacy').expect(403);
+    expect(response.body.error.code).toBe('FORBIDDEN');
+    await request(app).get('/admin').expect(403);
+  });
+});
+
+describe('Token bucket limiter', () => {
+  it('should refill tokens over time', () => {
+    let now = 0;
+    const limiter = createTokenBucketLimiter(() => now);
+    const settings = { capacity: 1, refillPerSecond: 2 };
+
+    expect(limiter.take('a', settings).allowed).toBe(true);
+    expect(limiter.take('a', settings)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+
+    now = 500;
+    expect(limiter.take('a', settings).allowed).toBe(true);
+    expect(limiter.take('b', settings).allowed).toBe(true);
+  });
+});
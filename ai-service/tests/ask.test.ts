@@ -0,0 +1,159 @@
+const generateText = jest.fn();
+const embed = jest.fn();
+const qdrantSearch = jest.fn();
+
+jest.mock('../src/infra/llmProvider', () => ({
+  llmProvider: {
+    name: 'gemini',
+    model: 'test-model',
+    isConfigured: () => true,
+    isAvailable: () => true,
+    generateText: (...args: unknown[]) => generateText(...args),
+    embed: (...args: unknown[]) => embed(...args)
+  }
+}));
+
+jest.mock('../src/infra/qdrantClient', () => ({
+  qdrantClient: { search: (...args: unknown[]) => qdrantSearch(...args) }
+}));
+
+jest.mock('../src/worker/embeddingWorker', () => ({
+  enqueueEmbeddingJob: jest.fn().mockResolvedValue(undefined)
+}));
+
+type AskService = typeof import('../src/services/askService');
+
+const point = (id: string, rawText: string, score: number) => ({
+  id,
+  score,
+  payload: { rawText, analyzedAt: '2026-01-05T10:00:00.000Z', model: 'm' }
+});
+
+const modelAnswer = (answered: boolean, answer: string, citations: string[]) =>
+  JSON.stringify({ answered, answer, citations });
+
+describe('Question answering over feedback', () => {
+  let askService: AskService;
+
+  const load = (fallbackEnabled = 'false'): void => {
+    process.env.AI_FALLBACK_ENABLED = fallbackEnabled;
+    jest.isolateModules(() => {
+      askService = require('../src/services/askService');
+    });
+  };
+
+  const ask = (question = 'Why are customers unhappy with checkout?') =>
+    askService.askQuestion({ question, limit: 5 });
+
+  beforeEach(() => {
+    generateText.mockReset();
+    embed.mockReset().mockResolvedValue([0.1, 0.2, 0.3]);
+    qdrantSearch.mockReset().mockResolvedValue([
+      point('fb-1', 'Checkout fails when paying by card.', 0.82),
+      point('fb-2', 'The checkout page is very slow.', 0.74)
+    ]);
+    load();
+  });
+
+  afterAll(() => {
+    delete process.env.AI_FALLBACK_ENABLED;
+  });
+
+  it('should refuse without calling the model when nothing relevant is found', async () => {
+    qdrantSearch.mockResolvedValue([]);
+
+    const result = await ask();
+
+    expect(result).toMatchObject({
+      answered: false,
+      citations: [],
+      refusalReason: 'no_relevant_feedback',
+      sources: []
+    });
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it('should retrieve above the relevance threshold without spam or duplicates', async () => {
+    qdrantSearch.mockResolvedValue([]);
+
+    await askService.askQuestion({
+      question: 'What do users say about pricing?',
+      limit: 5,
+      filters: { tags: ['pricing'] }
+    });
+
+    const [collection, params] = qdrantSearch.mock.calls[0];
+    expect(collection).toBe('feedback_embeddings');
+    expect(params).toMatchObject({ limit: 5, score_threshold: 0.5 });
+    expect(params.filter).toEqual({
+      must: [
+        { key: 'tags', match: { any: ['pricing'] } },
+        { is_empty: { key: 'duplicateOf' } }
+      ],
+      must_not: [{ key: 'isSpam', match: { value: true } }]
+    });
+  });
+
+  it('should answer from the retrieved sources and cite them', async () => {
+    generateText.mockResolvedValue(
+      modelAnswer(true, 'Card payments fail at checkout.', ['fb-1', 'fb-1'])
+    );
+
+    const result = await ask();
+
+    expect(result).toMatchObject({
+      answered: true,
+      answer: 'Card payments fail at checkout.',
+      citations: ['fb-1'],
+      answerSource: 'model',
+      model: 'test-model',
+      promptVersion: 'v1'
+    });
+    expect(result.sources.map((source) => source.id)).toEqual(['fb-1', 'fb-2']);
+
+    const { prompt } = generateText.mock.calls[0][0];
+    expect(prompt).toContain('<user_text id="fb-1">\nCheckout fails when paying by card.\n</user_text>');
+    expect(prompt).toContain('<user_text id="fb-2">');
+  });
+
+  it('should repair answers citing feedback that was not retrieved', async () => {
+    generateText
+      .mockResolvedValueOnce(modelAnswer(true, 'Checkout is slow.', ['fb-9']))
+      .mockResolvedValueOnce(modelAnswer(true, 'Checkout is slow.', ['fb-2']));
+
+    const result = await ask();
+
+    expect(result).toMatchObject({ citations: ['fb-2'], repaired: true });
+    expect(generateText.mock.calls[1][0].prompt).toContain('Unknown source id "fb-9"');
+  });
+
+  it('should report when the model finds the sources insufficient', async () => {
+    generateText.mockResolvedValue(
+      modelAnswer(false, 'The feedback does not mention refunds.', [])
+    );
+
+    const result = await ask('How long do refunds take?');
+
+    expect(result).toMatchObject({
+      answered: false,
+      citations: [],
+      refusalReason: 'insufficient_sources',
+      answerSource: 'model'
+    });
+  });
+
+  it('should quote the closest sources when the model fails and fallback is enabled', async () => {
+    load('true');
+    generateText.mockRejectedValue(new Error('Model unavailable'));
+
+    const result = await ask();
+
+    expect(result).toMatchObject({
+      answered: true,
+      citations: ['fb-1', 'fb-2'],
+      answerSource: 'extractive',
+      isFallback: true
+    });
+    expect(result.answer).toContain('"Checkout fails when paying by card."');
+  });
+});
@@ -0,0 +1,66 @@
+import { analyzeAspectWindows, locateSpan, splitClauses } from '../src/utils/aspectAnalysis';
+
+describe('splitClauses', () => {
+  it('should split at punctuation and contrastive conjunctions with offsets', () => {
+    const text = 'Love the product but support was awful. Pricing is fine';
+
+    expect(splitClauses(text)).toEqual([
+      { text: 'Love the product', start: 0, end: 16 },
+      { text: 'support was awful', start: 21, end: 38 },
+      { text: 'Pricing is fine', start: 40, end: 55 }
+    ]);
+  });
+});
+
+describe('analyzeAspectWindows', () => {
+  const aspects = ['product', 'support', 'pricing', 'onboarding'];
+
+  it('should score each mentioned aspect on its own window', () => {
+    const result = analyzeAspectWindows('love the product, support was awful', aspects);
+
+    expect(result).toEqual([
+      {
+        aspect: 'product',
+        score: 0.2,
+        label: 'positive',
+        span: { text: 'love the product', start: 0, end: 16 }
+      },
+      {
+        aspect: 'support',
+        score: -0.2,
+        label: 'negative',
+        span: { text: 'support was awful', start: 18, end: 35 }
+      }
+    ]);
+  });
+
+  it('should label an aspect praised and criticised in different clauses as mixed', () => {
+    const [support] = analyzeAspectWindows(
+      'Support was great on day one. Later the support was terrible and awful',
+      ['support']
+    );
+
+    expect(support.label).toBe('mixed');
+    expect(support.span.text).toBe('Later the support was terrible and awful');
+  });
+
+  it('should use the lexicon of the given language', () => {
+    const result = analyzeAspectWindows('El precio es malo, pero el soporte es excelente', aspects, 'es');
+
+    expect(result.map(({ aspect, label }) => [aspect, label])).toEqual([
+      ['support', 'positive'],
+      ['pricing', 'negative']
+    ]);
+  });
+});
+
+describe('locateSpan', () => {
+  it('should return offsets for verbatim quotes only', () => {
+    expect(locateSpan('Support was Awful', 'support was awful')).toEqual({
+      text: 'Support was Awful',
+      start: 0,
+      end: 17
+    });
+    expect(locateSpan('Support was awful', 'support is bad')).toEqual({ text: 'support is bad' });
+  });
+});
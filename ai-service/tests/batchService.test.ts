@@ -0,0 +1,50 @@
+import { createAppError } from '../src/utils/errors';
+
+const analyzeSentiment = jest.fn();
+
+jest.mock('../src/services/geminiService', () => ({
+  analyzeSentiment: (...args: unknown[]) => analyzeSentiment(...args),
+  getFallbackSentiment: () => ({ score: 0, label: 'neutral', confidence: 0.5, isFallback: true })
+}));
+
+type BatchService = typeof import('../src/services/batchService');
+
+describe('Batch analysis', () => {
+  let batchService: BatchService;
+
+  beforeEach(() => {
+    process.env.CACHE_ENABLED = 'false';
+    analyzeSentiment.mockReset();
+    jest.isolateModules(() => {
+      batchService = require('../src/services/batchService');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.CACHE_ENABLED;
+  });
+
+  it('should answer provider failures with the fallback', async () => {
+    analyzeSentiment.mockRejectedValue(createAppError('Circuit open', 503, 'CIRCUIT_OPEN'));
+
+    const result = await batchService.runBatch('sentiment', [{ id: 'a', text: 'Slow checkout' }], {
+      fallbackOnError: true
+    });
+
+    expect(result.results[0]).toMatchObject({ id: 'a', success: true, data: { isFallback: true } });
+  });
+
+  it.each([
+    ['PII_DETECTED', 422],
+    ['PROMPT_INJECTION_SUSPECTED', 422],
+    ['UNKNOWN_PROMPT_VERSION', 400]
+  ])('should not fall back when the input is rejected with %s', async (code, status) => {
+    analyzeSentiment.mockRejectedValue(createAppError('Rejected', status, code));
+
+    const result = await batchService.runBatch('sentiment', [{ id: 'a', text: 'Mail me at a@b.co' }], {
+      fallbackOnError: true
+    });
+
+    expect(result.results[0]).toMatchObject({ id: 'a', success: false, error: { code } });
+  });
+});
@@ -0,0 +1,87 @@
+type CacheService = typeof import('../src/services/cacheService');
+
+describe('Analysis cache', () => {
+  let cacheService: CacheService;
+
+  beforeEach(() => {
+    process.env.CACHE_MAX_ENTRIES = '2';
+    process.env.CACHE_TTL_SECONDS = '60';
+    jest.isolateModules(() => {
+      cacheService = require('../src/services/cacheService');
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    delete process.env.CACHE_MAX_ENTRIES;
+    delete process.env.CACHE_TTL_SECONDS;
+  });
+
+  it('should return HIT for identical input', async () => {
+    const compute = jest.fn().mockResolvedValue({ score: 0.4 });
+
+    const first = await cacheService.withCache('sentiment', ['same text'], compute);
+    const second = await cacheService.withCache('sentiment', ['same text'], compute);
+
+    expect(first.cacheStatus).toBe('MISS');
+    expect(second).toEqual({ value: { score: 0.4 }, cacheStatus: 'HIT' });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache fallback results', async () => {
+    const compute = jest.fn().mockResolvedValue({ score: 0, isFallback: true });
+
+    await cacheService.withCache('sentiment', ['text'], compute);
+    const second = await cacheService.withCache('sentiment', ['text'], compute);
+
+    expect(second.cacheStatus).toBe('MISS');
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry beyond max size', async () => {
+    const compute = (n: number) => jest.fn().mockResolvedValue({ n });
+
+    await cacheService.withCache('tags', ['a'], compute(1));
+    await cacheService.withCache('tags', ['b'], compute(2));
+    await cacheService.withCache('tags', ['a'], compute(1));
+    await cacheService.withCache('tags', ['c'], compute(3));
+
+    expect((await cacheService.withCache('tags', ['a'], compute(1))).cacheStatus).toBe('HIT');
+    expect((await cacheService.withCache('tags', ['b'], compute(2))).cacheStatus).toBe('MISS');
+  });
+
+  it('should expire entries after the TTL', async () => {
+    jest.useFakeTimers();
+    const compute = jest.fn().mockResolvedValue({ score: 1 });
+
+    await cacheService.withCache('sentiment', ['ttl'], compute);
+    jest.advanceTimersByTime(61_000);
+    const result = await cacheService.withCache('sentiment', ['ttl'], compute);
+
+    expect(result.cacheStatus).toBe('MISS');
+  });
+
+  it('should report hit and miss counters', async () => {
+    const compute = jest.fn().mockResolvedValue({ score: 1 });
+    await cacheService.withCache('sentiment', ['stats'], compute);
+    await cacheService.withCache('sentiment', ['stats'], compute);
+
+    const stats = await cacheService.getCacheStats();
+    expect(stats).toMatchObject({ backend: 'memory', hits: 1, misses: 1, size: 1, maxEntries: 2 });
+    expect(stats.hitRate).toBe(0.5);
+  });
+
+  it("should drop a user's cached results", async () => {
+    const compute = jest.fn().mockResolvedValue({ score: 1 });
+    await cacheService.withCache('insights', ['mine'], compute, 'user-1');
+    await cacheService.withCache('insights', ['theirs'], compute, 'user-2');
+
+    await cacheService.invalidateUserCache('user-1');
+
+    expect((await cacheService.withCache('insights', ['mine'], compute, 'user-1')).cacheStatus).toBe('MISS');
+    expect((await cacheService.withCache('insights', ['theirs'], compute, 'user-2')).cacheStatus).toBe('HIT');
+  });
+});
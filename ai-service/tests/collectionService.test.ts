@@ -0,0 +1,313 @@
+const qdrant = {
+  getAliases: jest.fn(),
+  collectionExists: jest.fn(),
+  getCollection: jest.fn(),
+  getCollections: jest.fn(),
+  createCollection: jest.fn(),
+  updateCollection: jest.fn(),
+  createPayloadIndex: jest.fn(),
+  deleteCollection: jest.fn(),
+  updateCollectionAliases: jest.fn(),
+  count: jest.fn(),
+  scroll: jest.fn(),
+  upsert: jest.fn(),
+  delete: jest.fn()
+};
+
+jest.mock('../src/infra/qdrantClient', () => ({ qdrantClient: qdrant }));
+
+type CollectionService = typeof import('../src/services/collectionService');
+
+const MODEL = 'local-hash-8';
+
+const aliasOf = (collection: string) => ({
+  aliases: [{ alias_name: 'feedback_embeddings', collection_name: collection }]
+});
+
+const collectionInfo = (size: number, metadata?: Record<string, unknown>) => ({
+  config: { params: { vectors: { size, distance: 'Cosine' } }, metadata }
+});
+
+const storedPoint = (id: string, rawText?: string) => ({
+  id,
+  payload: { userId: 'user-1', rawText, analyzedAt: '2026-01-05T10:00:00.000Z', model: 'm' }
+});
+
+describe('Collection service', () => {
+  let collectionService: CollectionService;
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'local';
+    process.env.LOCAL_EMBEDDING_DIMENSIONS = '8';
+  });
+
+  beforeEach(() => {
+    Object.values(qdrant).forEach((fn) => fn.mockReset());
+    qdrant.getAliases.mockResolvedValue({ aliases: [] });
+    qdrant.collectionExists.mockResolvedValue({ exists: false });
+    qdrant.getCollections.mockResolvedValue({ collections: [] });
+    qdrant.createCollection.mockResolvedValue(true);
+    qdrant.updateCollection.mockResolvedValue(true);
+    qdrant.createPayloadIndex.mockResolvedValue({});
+    qdrant.deleteCollection.mockResolvedValue(true);
+    qdrant.updateCollectionAliases.mockResolvedValue(true);
+    qdrant.upsert.mockResolvedValue({});
+    qdrant.delete.mockResolvedValue({});
+
+    jest.isolateModules(() => {
+      collectionService = require('../src/services/collectionService');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LOCAL_EMBEDDING_DIMENSIONS;
+  });
+
+  describe('provisioning', () => {
+    it('should create the first version with model metadata behind the alias', async () => {
+      await collectionService.provisionCollection();
+
+      expect(qdrant.createCollection).toHaveBeenCalledWith('feedback_embeddings_v1', {
+        vectors: { size: 8, distance: 'Cosine' },
+        metadata: expect.objectContaining({ embeddingsModel: MODEL, vectorSize: 8 })
+      });
+      expect(qdrant.createPayloadIndex).toHaveBeenCalledWith('feedback_embeddings_v1', {
+        field_name: 'analyzedAt',
+        field_schema: 'datetime',
+        wait: true
+      });
+      expect(qdrant.updateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          {
+            create_alias: {
+              collection_name: 'feedback_embeddings_v1',
+              alias_name: 'feedback_embeddings'
+            }
+          }
+        ]
+      });
+      expect(collectionService.getCollectionStatus()).toMatchObject({
+        state: 'ready',
+        collection: 'feedback_embeddings_v1',
+        vectorSize: 8
+      });
+    });
+
+    it('should accept a collection built with the active model', async () => {
+      qdrant.getAliases.mockResolvedValue(aliasOf('feedback_embeddings_v2'));
+      qdrant.getCollection.mockResolvedValue(
+        collectionInfo(8, { embeddingsModel: MODEL, vectorSize: 8 })
+      );
+
+      expect(await collectionService.ensureCollectionReady()).toBe(true);
+      expect(qdrant.createCollection).not.toHaveBeenCalled();
+      expect(qdrant.updateCollection).not.toHaveBeenCalled();
+      expect(qdrant.createPayloadIndex).toHaveBeenCalledWith(
+        'feedback_embeddings_v2',
+        expect.objectContaining({ field_name: 'analyzedAt' })
+      );
+    });
+
+    it('should migrate a collection created before aliases were used', async () => {
+      qdrant.collectionExists.mockResolvedValue({ exists: true });
+      qdrant.getCollections.mockResolvedValue({ collections: [{ name: 'feedback_embeddings' }] });
+      qdrant.getCollection.mockResolvedValue(collectionInfo(8));
+      qdrant.scroll.mockResolvedValue({
+        points: [{ ...storedPoint('fb-1', 'Support was slow'), vector: [0.1, 0.2] }],
+        next_page_offset: null
+      });
+
+      await collectionService.provisionCollection();
+
+      expect(qdrant.scroll).toHaveBeenCalledWith(
+        'feedback_embeddings',
+        expect.objectContaining({ with_vector: true })
+      );
+      expect(qdrant.upsert).toHaveBeenCalledWith('feedback_embeddings_v1', {
+        points: [expect.objectContaining({ id: 'fb-1', vector: [0.1, 0.2] })]
+      });
+      expect(qdrant.upsert.mock.invocationCallOrder[0]).toBeLessThan(
+        qdrant.deleteCollection.mock.invocationCallOrder[0]
+      );
+      expect(qdrant.deleteCollection).toHaveBeenCalledWith('feedback_embeddings');
+      expect(qdrant.updateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          {
+            create_alias: {
+              collection_name: 'feedback_embeddings_v1',
+              alias_name: 'feedback_embeddings'
+            }
+          }
+        ]
+      });
+      // Collections from before metadata was recorded are assumed to match
+      expect(qdrant.updateCollection).toHaveBeenCalledWith('feedback_embeddings_v1', {
+        metadata: expect.objectContaining({ embeddingsModel: MODEL })
+      });
+      expect(collectionService.getCollectionStatus()).toMatchObject({
+        state: 'ready',
+        collection: 'feedback_embeddings_v1'
+      });
+    });
+
+    it('should keep the pre-alias collection when its migration fails', async () => {
+      qdrant.collectionExists.mockResolvedValue({ exists: true });
+      qdrant.getCollection.mockResolvedValue(collectionInfo(8));
+      qdrant.scroll.mockResolvedValue({
+        points: [{ ...storedPoint('fb-1', 'Support was slow'), vector: [0.1, 0.2] }],
+        next_page_offset: null
+      });
+      qdrant.upsert.mockRejectedValue(new Error('Qdrant unavailable'));
+
+      expect(await collectionService.ensureCollectionReady()).toBe(false);
+
+      expect(qdrant.deleteCollection).toHaveBeenCalledWith('feedback_embeddings_v1');
+      expect(qdrant.deleteCollection).not.toHaveBeenCalledWith('feedback_embeddings');
+      expect(qdrant.updateCollectionAliases).not.toHaveBeenCalled();
+    });
+
+    it('should hold writes when the vector size no longer matches', async () => {
+      qdrant.getAliases.mockResolvedValue(aliasOf('feedback_embeddings_v1'));
+      qdrant.getCollection.mockResolvedValue(
+        collectionInfo(768, { embeddingsModel: 'gemini-embedding-001', vectorSize: 768 })
+      );
+
+      expect(await collectionService.ensureCollectionReady()).toBe(false);
+      expect(collectionService.getCollectionStatus()).toMatchObject({
+        state: 'reindex_required',
+        vectorSize: 768,
+        embeddingsModel: 'gemini-embedding-001',
+        activeEmbeddingsModel: MODEL
+      });
+    });
+
+    it('should retry provisioning after a failed attempt', async () => {
+      qdrant.getAliases.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      expect(await collectionService.ensureCollectionReady()).toBe(false);
+      expect(await collectionService.ensureCollectionReady()).toBe(true);
+    });
+  });
+
+  describe('re-indexing', () => {
+    beforeEach(() => {
+      qdrant.getAliases.mockResolvedValue(aliasOf('feedback_embeddings_v1'));
+      qdrant.getCollections.mockResolvedValue({
+        collections: [{ name: 'feedback_embeddings_v1' }]
+      });
+      qdrant.count.mockResolvedValue({ count: 3 });
+      qdrant.scroll
+        .mockResolvedValueOnce({
+          points: [storedPoint('fb-1', 'Support was slow'), storedPoint('fb-2')],
+          next_page_offset: 'fb-3'
+        })
+        .mockResolvedValueOnce({
+          points: [storedPoint('fb-3', 'Pricing is too high')],
+          next_page_offset: null
+        });
+    });
+
+    it('should re-embed every point into the next version and move the alias', async () => {
+      const progress = await collectionService.reindexCollection();
+
+      expect(progress).toMatchObject({
+        status: 'completed',
+        source: 'feedback_embeddings_v1',
+        target: 'feedback_embeddings_v2',
+        total: 3,
+        processed: 3,
+        skipped: 1
+      });
+
+      const upserted = qdrant.upsert.mock.calls.flatMap(([name, { points }]) =>
+        points.map((point: { id: string; vector: number[]; payload: Record<string, unknown> }) => ({
+          name,
+          id: point.id,
+          size: point.vector.length,
+          embeddingsModel: point.payload.embeddingsModel
+        }))
+      );
+      expect(upserted).toEqual([
+        { name: 'feedback_embeddings_v2', id: 'fb-1', size: 8, embeddingsModel: MODEL },
+        { name: 'feedback_embeddings_v2', id: 'fb-3', size: 8, embeddingsModel: MODEL }
+      ]);
+
+      expect(qdrant.updateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          { delete_alias: { alias_name: 'feedback_embeddings' } },
+          {
+            create_alias: {
+              collection_name: 'feedback_embeddings_v2',
+              alias_name: 'feedback_embeddings'
+            }
+          }
+        ]
+      });
+      expect(qdrant.deleteCollection).not.toHaveBeenCalled();
+      expect(collectionService.getCollectionStatus()).toMatchObject({
+        state: 'ready',
+        collection: 'feedback_embeddings_v2',
+        reindex: { status: 'completed' }
+      });
+    });
+
+    it('should delete versions beyond the ones kept for rollback', async () => {
+      qdrant.getAliases.mockResolvedValue(aliasOf('feedback_embeddings_v3'));
+      qdrant.getCollections.mockResolvedValue({
+        collections: [
+          { name: 'feedback_embeddings_v1' },
+          { name: 'feedback_embeddings_v2' },
+          { name: 'feedback_embeddings_v3' },
+          { name: 'unrelated' }
+        ]
+      });
+
+      const progress = await collectionService.reindexCollection();
+
+      expect(progress.target).toBe('feedback_embeddings_v4');
+      expect(qdrant.deleteCollection.mock.calls.map(([name]) => name).sort()).toEqual([
+        'feedback_embeddings_v1',
+        'feedback_embeddings_v2'
+      ]);
+    });
+
+    it('should apply deletions made during the copy to the new version', async () => {
+      const filter = { must: [{ key: 'userId', match: { value: 'user-1' } }] };
+      qdrant.count.mockImplementation(async () => {
+        await collectionService.deleteFeedbackPoints(filter);
+        return { count: 3 };
+      });
+
+      await collectionService.reindexCollection();
+
+      expect(qdrant.delete).toHaveBeenCalledWith('feedback_embeddings_v2', { filter, wait: true });
+      expect(qdrant.delete.mock.invocationCallOrder.at(-1)).toBeLessThan(
+        qdrant.updateCollectionAliases.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should drop the new version and keep the alias when a write fails', async () => {
+      qdrant.upsert.mockRejectedValue(new Error('Qdrant unavailable'));
+
+      await expect(collectionService.reindexCollection()).rejects.toThrow('Qdrant unavailable');
+
+      expect(qdrant.deleteCollection).toHaveBeenCalledWith('feedback_embeddings_v2');
+      expect(qdrant.updateCollectionAliases).not.toHaveBeenCalled();
+      expect(collectionService.getCollectionStatus()).toMatchObject({
+        state: 'unprovisioned',
+        reindex: { status: 'failed', error: 'Qdrant unavailable' }
+      });
+    });
+
+    it('should refuse a second re-index while one is running', async () => {
+      const progress = collectionService.startReindex();
+      expect(progress.status).toBe('running');
+      expect(collectionService.getCollectionStatus().state).toBe('reindexing');
+
+      expect(() => collectionService.startReindex()).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'REINDEX_IN_PROGRESS' })
+      );
+    });
+  });
+});
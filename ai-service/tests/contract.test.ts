@@ -0,0 +1,396 @@
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { Express, Router } from 'express';
+
+const feedbackPoint = (id: string, analyzedAt: string, vector: number[]) => ({
+  id,
+  vector,
+  payload: {
+    userId: 'user-1',
+    rawText: 'Support was slow to answer',
+    sentimentScore: -0.4,
+    sentimentLabel: 'negative',
+    tags: ['support'],
+    engagementLevel: 'Medium',
+    analyzedAt,
+    model: 'local-keyword',
+    embeddingsModel: 'local-hash'
+  }
+});
+
+const storedPoints = [
+  feedbackPoint('fb-1', '2026-01-05T10:00:00.000Z', [1, 0, 0]),
+  feedbackPoint('fb-2', '2026-01-12T10:00:00.000Z', [0.9, 0.1, 0]),
+  feedbackPoint('fb-3', '2026-01-19T10:00:00.000Z', [0, 1, 0])
+];
+
+jest.mock('../src/infra/qdrantClient', () => ({
+  qdrantClient: {
+    getCollections: jest.fn().mockResolvedValue({ collections: [] }),
+    createCollection: jest.fn().mockResolvedValue(true),
+    createPayloadIndex: jest.fn().mockResolvedValue({}),
+    getAliases: jest.fn().mockResolvedValue({ aliases: [] }),
+    collectionExists: jest.fn().mockResolvedValue({ exists: true }),
+    count: jest.fn().mockResolvedValue({ count: 3 }),
+    updateCollectionAliases: jest.fn().mockResolvedValue(true),
+    deleteCollection: jest.fn().mockResolvedValue(true),
+    delete: jest.fn().mockResolvedValue({ status: 'completed' }),
+    upsert: jest.fn().mockResolvedValue({}),
+    search: jest.fn(async () =>
+      storedPoints.map((point) => ({ ...point, score: 0.9, vector: undefined }))
+    ),
+    scroll: jest.fn(async () => ({ points: storedPoints, next_page_offset: null }))
+  }
+}));
+
+type DocumentedResponse = {
+  content: Record<string, { schema?: Record<string, unknown> }>;
+};
+
+type OpenApiDocument = {
+  info: { version: string };
+  paths: Record<string, Record<string, { responses: Record<string, DocumentedResponse> }>>;
+  components: Record<string, unknown>;
+};
+
+type Layer = {
+  route?: { path: string; methods: Record<string, boolean> };
+};
+
+type Case = {
+  status: number;
+  send: () => request.Test;
+};
+
+const LOAD_TIMEOUT_MS = 30000;
+
+const toOpenApiPath = (routePath: string): string =>
+  routePath.replace(/:(\w+)/g, '{$1}');
+
+describe('OpenAPI contract', () => {
+  let app: Express;
+  let aiRoutes: Router;
+  let document: OpenApiDocument;
+  let documented: string[];
+  let mapTags: (tags: string[]) => unknown;
+  let feedbackId: string;
+
+  // Admin and privacy routes are refused without a key
+  const api = () => request.agent(app).set('X-API-Key', 'contract-secret');
+
+  const ajv = new Ajv2020({ strict: false, allErrors: true });
+  addFormats(ajv);
+
+  beforeAll(() => {
+    const dir = path.join(os.tmpdir(), `contract-${process.pid}`);
+    process.env.LLM_PROVIDER = 'local';
+    process.env.TAXONOMY_PATH = path.join(dir, 'taxonomy.json');
+    process.env.USAGE_PATH = path.join(dir, 'usage.json');
+    process.env.EMBEDDING_JOBS_PATH = path.join(dir, 'jobs.json');
+    process.env.AUDIT_LOG_PATH = path.join(dir, 'audit-log.jsonl');
+    process.env.API_KEYS = 'contract:contract-secret';
+    process.env.RATE_LIMIT_CAPACITY = '1000';
+
+    jest.isolateModules(() => {
+      app = require('../src/index').default;
+      aiRoutes = require('../src/routes/aiRoutes').default;
+      const openApi = require('../src/routes/openApiRoutes');
+      documented = openApi.routeDocs.map(
+        (route: { method: string; path: string }) => `${route.method} ${route.path}`
+      );
+      mapTags = require('../src/services/taxonomyService').mapTags;
+    });
+  }, LOAD_TIMEOUT_MS);
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.TAXONOMY_PATH;
+    delete process.env.USAGE_PATH;
+    delete process.env.EMBEDDING_JOBS_PATH;
+    delete process.env.AUDIT_LOG_PATH;
+    delete process.env.API_KEYS;
+    delete process.env.RATE_LIMIT_CAPACITY;
+  });
+
+  const expectToMatchContract = (
+    method: string,
+    routePath: string,
+    response: request.Response
+  ): void => {
+    const operation = document.paths[toOpenApiPath(routePath)][method];
+    const documentedResponse =
+      operation.responses[String(response.status)] || operation.responses.default;
+    const content = documentedResponse.content;
+
+    if (!content['application/json']) {
+      expect(response.headers['content-type']).toContain(Object.keys(content)[0]);
+      return;
+    }
+
+    const validate = ajv.compile({
+      ...content['application/json'].schema,
+      components: document.components
+    });
+    expect(validate(response.body) ? [] : validate.errors).toEqual([]);
+  };
+
+  it('should serve the document with the package version', async () => {
+    const response = await request(app).get('/openapi.json').expect(200);
+    document = response.body;
+
+    expect(document.info.version).toBe(require('../package.json').version);
+  });
+
+  it('should serve Swagger UI', async () => {
+    const response = await request(app).get('/docs/').expect(200);
+
+    expect(response.text).toContain('swagger-ui');
+  });
+
+  it('should document every route', () => {
+    const layers = (stack: Layer[], prefix: string): string[] =>
+      stack.flatMap(({ route }) =>
+        route
+          ? Object.keys(route.methods).map((method) => `${method} ${prefix}${route.path}`)
+          : []
+      );
+
+    const routes = [
+      ...layers((app as unknown as { _router: { stack: Layer[] } })._router.stack, ''),
+      ...layers((aiRoutes as unknown as { stack: Layer[] }).stack, '/api/ai')
+    ];
+
+    expect([...documented].sort()).toEqual([...routes].sort());
+  });
+
+  // Every documented route, in an order where later calls can rely on the
+  // state earlier ones created
+  const cases: [string, Case][] = [
+    ['get /health', { status: 200, send: () => request(app).get('/health') }],
+    ['get /metrics', { status: 200, send: () => request(app).get('/metrics') }],
+    [
+      'post /api/ai/sentiment',
+      {
+        status: 200,
+        send: () =>
+          api().post('/api/ai/sentiment').send({ text: 'I love how fast support answered' })
+      }
+    ],
+    [
+      'post /api/ai/sentiment/aspects',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/sentiment/aspects')
+            .send({ text: 'Support was great but the price is too expensive' })
+      }
+    ],
+    [
+      'post /api/ai/tags',
+      {
+        status: 200,
+        send: () =>
+          api().post('/api/ai/tags').send({ text: 'Support was slow and pricing is high' })
+      }
+    ],
+    [
+      'post /api/ai/insights',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/insights')
+            .send({ text: 'The onboarding tutorial was confusing', userId: 'user-1' })
+      }
+    ],
+    [
+      'post /api/ai/insights/stream',
+      {
+        status: 200,
+        send: () =>
+          api().post('/api/ai/insights/stream').send({ text: 'Support was great' })
+      }
+    ],
+    [
+      'post /api/ai/sentiment/batch',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/sentiment/batch')
+            .send({ items: [{ id: 'a', text: 'Great app' }, { id: 'b', text: '' }] })
+      }
+    ],
+    [
+      'post /api/ai/tags/batch',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/tags/batch')
+            .send({ items: [{ id: 'a', text: 'Pricing is too high' }] })
+      }
+    ],
+    [
+      'post /api/ai/insights/batch',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/insights/batch')
+            .send({ items: [{ id: 'a', text: 'Support was helpful', userId: 'user-2' }] })
+      }
+    ],
+    [
+      'post /api/ai/search',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/search')
+            .send({ text: 'slow support', filters: { userId: 'user-1' } })
+      }
+    ],
+    [
+      'post /api/ai/ask',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .post('/api/ai/ask')
+            .send({ question: 'Why is support slow?', filters: { tags: ['support'] } })
+      }
+    ],
+    [
+      'post /api/ai/themes/discover',
+      {
+        status: 200,
+        send: () => api().post('/api/ai/themes/discover').send({ k: 2 })
+      }
+    ],
+    [
+      'get /api/ai/users/:userId/trends',
+      {
+        status: 200,
+        send: () => api().get('/api/ai/users/user-1/trends?interval=week')
+      }
+    ],
+    [
+      'get /api/ai/users/:userId/data',
+      { status: 200, send: () => api().get('/api/ai/users/user-1/data') }
+    ],
+    [
+      'delete /api/ai/users/:userId/data',
+      { status: 200, send: () => api().delete('/api/ai/users/user-2/data') }
+    ],
+    [
+      'post /api/ai/pii',
+      {
+        status: 200,
+        send: () =>
+          api().post('/api/ai/pii').send({ text: 'Mail me at jane@example.com' })
+      }
+    ],
+    ['get /api/ai/prompts', { status: 200, send: () => api().get('/api/ai/prompts') }],
+    [
+      'get /api/ai/jobs/dead-letter',
+      { status: 200, send: () => api().get('/api/ai/jobs/dead-letter') }
+    ],
+    [
+      'post /api/ai/jobs/dead-letter/replay',
+      { status: 202, send: () => api().post('/api/ai/jobs/dead-letter/replay') }
+    ],
+    [
+      'get /api/ai/jobs/:id',
+      { status: 200, send: () => api().get(`/api/ai/jobs/${feedbackId}`) }
+    ],
+    [
+      'post /api/ai/jobs/:id/replay',
+      { status: 202, send: () => api().post(`/api/ai/jobs/${feedbackId}/replay`) }
+    ],
+    ['get /api/ai/usage', { status: 200, send: () => api().get('/api/ai/usage') }],
+    [
+      'post /api/ai/collection/reindex',
+      { status: 202, send: () => api().post('/api/ai/collection/reindex') }
+    ],
+    ['get /api/ai/collection', { status: 200, send: () => api().get('/api/ai/collection') }],
+    ['get /api/ai/taxonomy', { status: 200, send: () => api().get('/api/ai/taxonomy') }],
+    [
+      'post /api/ai/taxonomy',
+      {
+        status: 201,
+        send: () =>
+          api()
+            .post('/api/ai/taxonomy')
+            .send({ id: 'billing', synonyms: ['invoice'], parent: 'pricing' })
+      }
+    ],
+    [
+      'get /api/ai/taxonomy/:id',
+      { status: 200, send: () => api().get('/api/ai/taxonomy/billing') }
+    ],
+    [
+      'put /api/ai/taxonomy/:id',
+      {
+        status: 200,
+        send: () =>
+          api()
+            .put('/api/ai/taxonomy/billing')
+            .send({ description: 'Invoices and payments', synonyms: ['invoice'] })
+      }
+    ],
+    [
+      'delete /api/ai/taxonomy/:id',
+      { status: 200, send: () => api().delete('/api/ai/taxonomy/billing') }
+    ],
+    [
+      'get /api/ai/taxonomy/candidates',
+      {
+        status: 200,
+        send: () => {
+          mapTags(['dark mode']);
+          return api().get('/api/ai/taxonomy/candidates');
+        }
+      }
+    ],
+    [
+      'delete /api/ai/taxonomy/candidates/:tag',
+      {
+        status: 200,
+        send: () => api().delete('/api/ai/taxonomy/candidates/dark%20mode')
+      }
+    ]
+  ];
+
+  it('should have a case for every documented route', () => {
+    expect(cases.map(([key]) => key).sort()).toEqual([...documented].sort());
+  });
+
+  it.each(cases)('%s should match the document', async (key, { status, send }) => {
+    const [method, routePath] = key.split(' ');
+    const response = await send();
+
+    expect(response.status).toBe(status);
+    expectToMatchContract(method, routePath, response);
+
+    if (key === 'post /api/ai/insights') {
+      feedbackId = response.body.data.feedbackId;
+    }
+  });
+
+  it('should match the document for validation errors', async () => {
+    const response = await api().post('/api/ai/sentiment').send({}).expect(400);
+
+    expectToMatchContract('post', '/api/ai/sentiment', response);
+  });
+
+  it('should match the document for unknown resources', async () => {
+    const response = await api().get('/api/ai/taxonomy/unknown').expect(404);
+
+    expectToMatchContract('get', '/api/ai/taxonomy/:id', response);
+  });
+});
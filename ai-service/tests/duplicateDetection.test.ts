@@ -0,0 +1,129 @@
+const search = jest.fn();
+const upsert = jest.fn();
+
+jest.mock('../src/infra/qdrantClient', () => ({
+  qdrantClient: {
+    search: (...args: unknown[]) => search(...args),
+    upsert: (...args: unknown[]) => upsert(...args)
+  }
+}));
+
+type EmbeddingService = typeof import('../src/services/embeddingService');
+
+const feedback = (text: string) => ({
+  feedbackId: 'fb-new',
+  userId: 'user-1',
+  text,
+  insights: { sentimentScore: -0.5, analyzedAt: new Date().toISOString() }
+});
+
+const storedPayload = () => upsert.mock.calls[0][1].points[0].payload;
+
+describe('Duplicate and spam detection', () => {
+  let embeddingService: EmbeddingService;
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'local';
+    jest.isolateModules(() => {
+      embeddingService = require('../src/services/embeddingService');
+    });
+  });
+
+  beforeEach(() => {
+    search.mockReset();
+    upsert.mockReset().mockResolvedValue({});
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it('should store new feedback without a duplicate marker', async () => {
+    search.mockResolvedValue([]);
+
+    const result = await embeddingService.storeFeedbackEmbedding(
+      feedback('Checkout keeps timing out on mobile')
+    );
+
+    expect(result).toEqual({ duplicateOf: undefined });
+    expect(storedPayload()).toMatchObject({ isSpam: false, spamScore: 0 });
+    expect(storedPayload().duplicateOf).toBeUndefined();
+  });
+
+  it('should search recent points other than itself above the threshold', async () => {
+    search.mockResolvedValue([]);
+
+    await embeddingService.storeFeedbackEmbedding(feedback('Checkout keeps timing out'));
+
+    const [, params] = search.mock.calls[0];
+    expect(params.score_threshold).toBe(0.95);
+    expect(params.limit).toBe(1);
+    expect(params.filter.must[0]).toMatchObject({ key: 'analyzedAt' });
+    expect(params.filter.must_not).toEqual([{ has_id: ['fb-new'] }]);
+  });
+
+  it('should mark near-duplicates with the id of the original', async () => {
+    search.mockResolvedValue([{ id: 'fb-1', score: 0.98, payload: {} }]);
+
+    const result = await embeddingService.storeFeedbackEmbedding(
+      feedback('Checkout keeps timing out on mobile!')
+    );
+
+    expect(result.duplicateOf).toBe('fb-1');
+    expect(storedPayload().duplicateOf).toBe('fb-1');
+  });
+
+  it('should resolve a match that is itself a duplicate to its original', async () => {
+    search.mockResolvedValue([{ id: 'fb-2', score: 0.99, payload: { duplicateOf: 'fb-1' } }]);
+
+    const result = await embeddingService.storeFeedbackEmbedding(
+      feedback('Checkout keeps timing out on mobile')
+    );
+
+    expect(result.duplicateOf).toBe('fb-1');
+  });
+
+  it('should store the spam verdict', async () => {
+    search.mockResolvedValue([]);
+
+    await embeddingService.storeFeedbackEmbedding(
+      feedback('Great deals http://a.example/1 http://a.example/2 www.a.example')
+    );
+
+    expect(storedPayload()).toMatchObject({ isSpam: true, spamScore: 1 });
+  });
+
+  it('should skip the request-time check when the vector store fails', async () => {
+    search.mockRejectedValue(new Error('Qdrant unavailable'));
+
+    await expect(embeddingService.detectDuplicate('Checkout keeps timing out')).resolves.toBeUndefined();
+  });
+
+  it('should give up on the request-time check after its time budget', async () => {
+    jest.useFakeTimers();
+    search.mockReturnValue(new Promise(() => undefined));
+
+    const check = embeddingService.detectDuplicate('Checkout keeps timing out');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(check).resolves.toBeUndefined();
+    jest.useRealTimers();
+  });
+
+  it('should report a duplicate from the request-time check', async () => {
+    search.mockResolvedValue([{ id: 'fb-1', score: 0.97, payload: {} }]);
+
+    await expect(embeddingService.detectDuplicate('Checkout keeps timing out')).resolves.toBe('fb-1');
+  });
+
+  it('should filter stored feedback by spam and duplicate markers', () => {
+    expect(embeddingService.buildFeedbackFilter({ spam: false, duplicates: false })).toEqual({
+      must: [{ is_empty: { key: 'duplicateOf' } }],
+      must_not: [{ key: 'isSpam', match: { value: true } }]
+    });
+    expect(embeddingService.buildFeedbackFilter({ spam: true, duplicates: true })).toEqual({
+      must: [{ key: 'isSpam', match: { value: true } }],
+      must_not: [{ is_empty: { key: 'duplicateOf' } }]
+    });
+  });
+});
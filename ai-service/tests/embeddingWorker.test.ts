@@ -0,0 +1,178 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const storeFeedbackEmbedding = jest.fn();
+
+const ensureCollectionReady = jest.fn();
+const deleteFeedbackPoints = jest.fn();
+
+jest.mock('../src/services/embeddingService', () => ({
+  storeFeedbackEmbedding: (...args: unknown[]) => storeFeedbackEmbedding(...args)
+}));
+
+jest.mock('../src/services/collectionService', () => ({
+  ensureCollectionReady: () => ensureCollectionReady(),
+  deleteFeedbackPoints: (...args: unknown[]) => deleteFeedbackPoints(...args)
+}));
+
+type EmbeddingWorker = typeof import('../src/worker/embeddingWorker');
+type JobStore = typeof import('../src/worker/jobStore');
+type RequestContextModule = typeof import('../src/utils/requestContext');
+
+const job = (feedbackId: string) => ({
+  feedbackId,
+  userId: 'user-1',
+  text: 'Checkout keeps timing out',
+  insights: { sentimentScore: -0.5, analyzedAt: new Date().toISOString() }
+});
+
+describe('Embedding worker', () => {
+  let worker: EmbeddingWorker;
+  let jobStore: JobStore;
+  let requestContext: RequestContextModule;
+  let storePath: string;
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-jobs-'));
+    storePath = path.join(dir, 'jobs.json');
+    process.env.EMBEDDING_JOBS_PATH = storePath;
+    process.env.EMBEDDING_MAX_ATTEMPTS = '2';
+    process.env.EMBEDDING_RETRY_BASE_MS = '0';
+    storeFeedbackEmbedding.mockReset();
+    ensureCollectionReady.mockReset().mockResolvedValue(true);
+    deleteFeedbackPoints.mockReset().mockResolvedValue(undefined);
+
+    jest.isolateModules(() => {
+      worker = require('../src/worker/embeddingWorker');
+      jobStore = require('../src/worker/jobStore');
+      requestContext = require('../src/utils/requestContext');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.EMBEDDING_JOBS_PATH;
+    delete process.env.EMBEDDING_MAX_ATTEMPTS;
+    delete process.env.EMBEDDING_RETRY_BASE_MS;
+  });
+
+  it('should persist enqueued jobs and complete them', async () => {
+    storeFeedbackEmbedding.mockResolvedValue({});
+
+    await worker.enqueueEmbeddingJob(job('fb-1'));
+    const persisted = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(persisted[0]).toMatchObject({ id: 'fb-1', status: 'pending' });
+
+    await worker.processDueJobs();
+
+    const record = await worker.getEmbeddingJob('fb-1');
+    expect(record?.status).toBe('completed');
+    expect(record?.attempts).toBe(1);
+  });
+
+  it('should bill the embedding to the client that enqueued the job', async () => {
+    const clients: (string | undefined)[] = [];
+    storeFeedbackEmbedding.mockImplementation(async () => {
+      clients.push(requestContext.getRequestContext()?.client);
+      return {};
+    });
+
+    await requestContext.runWithRequestContext(
+      { client: 'dotnet', endpoint: '/api/ai/insights', fallbackOnly: false },
+      () => worker.enqueueEmbeddingJob(job('fb-1'))
+    );
+    await worker.enqueueEmbeddingJob(job('fb-2'));
+    await worker.processDueJobs();
+
+    expect(clients.sort()).toEqual(['background', 'dotnet']);
+  });
+
+  it('should retry and then dead-letter failing jobs', async () => {
+    storeFeedbackEmbedding.mockRejectedValue(new Error('Qdrant unavailable'));
+
+    await worker.enqueueEmbeddingJob(job('fb-2'));
+    await worker.processDueJobs();
+    expect((await worker.getEmbeddingJob('fb-2'))?.status).toBe('pending');
+
+    await worker.processDueJobs();
+    const record = await worker.getEmbeddingJob('fb-2');
+    expect(record?.status).toBe('dead');
+    expect(record?.lastError).toBe('Qdrant unavailable');
+    expect(await worker.listDeadLetterJobs()).toHaveLength(1);
+  });
+
+  it('should replay dead-lettered jobs', async () => {
+    storeFeedbackEmbedding.mockRejectedValue(new Error('Qdrant unavailable'));
+    await worker.enqueueEmbeddingJob(job('fb-3'));
+    await worker.processDueJobs();
+    await worker.processDueJobs();
+
+    storeFeedbackEmbedding.mockResolvedValue({});
+    const replayed = await worker.replayDeadLetterJobs();
+    expect(replayed.map((record) => record.id)).toEqual(['fb-3']);
+
+    await worker.processDueJobs();
+    expect((await worker.getEmbeddingJob('fb-3'))?.status).toBe('completed');
+  });
+
+  it('should record the original of a duplicate on the job', async () => {
+    storeFeedbackEmbedding.mockResolvedValue({ duplicateOf: 'fb-original' });
+
+    await worker.enqueueEmbeddingJob(job('fb-4'));
+    await worker.processDueJobs();
+
+    const record = await worker.getEmbeddingJob('fb-4');
+    expect(worker.toJobSummary(record!)).toMatchObject({
+      status: 'completed',
+      duplicateOf: 'fb-original'
+    });
+  });
+
+  it('should hold jobs while the collection is not writable', async () => {
+    ensureCollectionReady.mockResolvedValue(false);
+    storeFeedbackEmbedding.mockResolvedValue({});
+
+    await worker.enqueueEmbeddingJob(job('fb-5'));
+    expect(await worker.processDueJobs()).toBe(0);
+
+    const record = await worker.getEmbeddingJob('fb-5');
+    expect(record).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(storeFeedbackEmbedding).not.toHaveBeenCalled();
+  });
+
+  it('should remove what a job stored when its user was purged mid-flight', async () => {
+    storeFeedbackEmbedding.mockImplementation(async () => {
+      await jobStore.deleteJobRecords(['fb-12']);
+      return {};
+    });
+
+    await worker.enqueueEmbeddingJob(job('fb-12'));
+    await worker.processDueJobs();
+
+    expect(deleteFeedbackPoints).toHaveBeenCalledWith({ must: [{ has_id: ['fb-12'] }] });
+    expect(await worker.getEmbeddingJob('fb-12')).toBeUndefined();
+    expect(JSON.parse(await fs.readFile(storePath, 'utf8'))).toEqual([]);
+  });
+
+  it('should keep persisting after a failed write', async () => {
+    await worker.enqueueEmbeddingJob(job('fb-6'));
+
+    // A directory in place of the temp file makes the next write fail
+    await fs.mkdir(`${storePath}.tmp`);
+    await expect(worker.enqueueEmbeddingJob(job('fb-7'))).rejects.toThrow();
+    await fs.rmdir(`${storePath}.tmp`);
+
+    await worker.enqueueEmbeddingJob(job('fb-8'));
+    const persisted = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(persisted.map((record: { id: string }) => record.id)).toEqual(['fb-6', 'fb-7', 'fb-8']);
+  });
+
+  it('should write concurrent saves in one pass', async () => {
+    const writeFile = jest.spyOn(fs, 'writeFile');
+
+    await Promise.all(['fb-9', 'fb-10', 'fb-11'].map((id) => worker.enqueueEmbeddingJob(job(id))));
+
+    expect(writeFile.mock.calls.filter(([file]) => String(file).startsWith(storePath))).toHaveLength(1);
+    writeFile.mockRestore();
+  });
+});
@@ -0,0 +1,192 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+jest.mock('../src/worker/embeddingWorker', () => ({
+  enqueueEmbeddingJob: jest.fn().mockResolvedValue(undefined)
+}));
+
+import { parseDataset } from '../src/eval/dataset';
+import { compareReports, computeMetrics } from '../src/eval/metrics';
+import { runEvaluation } from '../src/eval/evaluate';
+import { EvalBackend } from '../src/eval/backends';
+import { EvalExample, EvalPrediction, EvalReport } from '../src/types';
+
+type Backends = typeof import('../src/eval/backends');
+
+const examples: EvalExample[] = [
+  { id: 'a', text: 'Support was great', label: 'positive', score: 0.8, tags: ['support'] },
+  { id: 'b', text: 'Too expensive and slow', label: 'negative', score: -0.6, tags: ['pricing', 'performance'] },
+  { id: 'c', text: 'It works', label: 'neutral' }
+];
+
+const prediction = (id: string, fields: Partial<EvalPrediction>): EvalPrediction => ({
+  id,
+  operation: 'insights',
+  isFallback: false,
+  ...fields
+});
+
+const report = (metrics: EvalReport['metrics']): EvalReport => ({
+  dataset: 'feedback.jsonl',
+  backend: 'gemini',
+  model: 'test-model',
+  promptVersions: {},
+  startedAt: '2026-01-01T00:00:00.000Z',
+  completedAt: '2026-01-01T00:00:01.000Z',
+  examples: 3,
+  metrics,
+  predictions: []
+});
+
+describe('Offline evaluation', () => {
+  it('should parse a labeled JSONL dataset and normalize tags', () => {
+    const dataset = parseDataset(
+      '{"id": "a", "text": "Slow app", "label": "negative", "tags": ["Performance"]}\n\n' +
+        '{"id": "b", "text": "Nice"}\n'
+    );
+
+    expect(dataset).toEqual([
+      { id: 'a', text: 'Slow app', label: 'negative', tags: ['performance'] },
+      { id: 'b', text: 'Nice' }
+    ]);
+  });
+
+  it('should report every invalid line with its number', () => {
+    const source = [
+      '{"id": "a", "text": "ok"}',
+      'not json',
+      '{"id": "b", "text": "fine", "label": "great"}',
+      '{"id": "a", "text": "again"}'
+    ].join('\n');
+
+    expect(() => parseDataset(source)).toThrow(
+      /line 2: not valid JSON\nline 3: label: [^\n]*\nduplicate ids: a$/
+    );
+  });
+
+  it('should compute accuracy, MAE, tag precision and recall and rates', () => {
+    const metrics = computeMetrics(examples, [
+      prediction('a', { label: 'positive', score: 0.6, tags: ['support', 'product'] }),
+      prediction('b', { label: 'neutral', score: 0, tags: ['pricing'], isFallback: true }),
+      prediction('c', { error: 'Model unavailable' })
+    ]);
+
+    expect(metrics).toEqual({
+      examples: 3,
+      errorRate: 0.3333,
+      fallbackRate: 0.3333,
+      accuracy: 0.5,
+      mae: 0.4,
+      tagPrecision: 0.6667,
+      tagRecall: 0.6667,
+      tagF1: 0.6667
+    });
+  });
+
+  it('should flag metrics that worsen beyond the tolerance', () => {
+    const comparison = compareReports(
+      report({ sentiment: { examples: 3, errorRate: 0, fallbackRate: 0.1, accuracy: 0.7, mae: 0.21 } }),
+      report({ sentiment: { examples: 3, errorRate: 0, fallbackRate: 0, accuracy: 0.8, mae: 0.2 } }),
+      0.02
+    );
+
+    expect(comparison.regressions.map((delta) => delta.metric)).toEqual([
+      'accuracy',
+      'fallbackRate'
+    ]);
+    expect(comparison.deltas.find((delta) => delta.metric === 'mae')).toMatchObject({
+      delta: 0.01,
+      regressed: false
+    });
+  });
+
+  it('should not compare operations the baseline did not measure', () => {
+    const comparison = compareReports(
+      report({ tags: { examples: 3, errorRate: 0, fallbackRate: 0, tagF1: 0.1 } }),
+      report({ sentiment: { examples: 3, errorRate: 0, fallbackRate: 0, accuracy: 0.8 } }),
+      0
+    );
+
+    expect(comparison.deltas).toEqual([]);
+  });
+
+  it('should run the keyword baseline over every operation', async () => {
+    let backends!: Backends;
+    process.env.LLM_PROVIDER = 'local';
+    process.env.TAXONOMY_PATH = path.join(os.tmpdir(), `taxonomy-eval-${process.pid}.json`);
+    jest.isolateModules(() => {
+      backends = require('../src/eval/backends');
+    });
+
+    const result = await runEvaluation({
+      dataset: '/data/feedback.jsonl',
+      examples,
+      backend: backends.createBackend('keyword'),
+      operations: ['sentiment', 'tags', 'insights'],
+      concurrency: 2
+    });
+
+    expect(result).toMatchObject({ dataset: 'feedback.jsonl', backend: 'keyword', examples: 3 });
+    expect(Object.keys(result.metrics)).toEqual(['sentiment', 'tags', 'insights']);
+    expect(result.metrics.sentiment).toMatchObject({ examples: 3, errorRate: 0, fallbackRate: 0 });
+    expect(result.predictions).toHaveLength(9);
+    expect(() => backends.createBackend('gemini')).toThrow('LLM_PROVIDER=gemini');
+
+    delete process.env.LLM_PROVIDER;
+    delete process.env.TAXONOMY_PATH;
+  });
+
+  it('should leave the taxonomy and usage stores untouched without persistence', async () => {
+    let backends!: Backends;
+    let usageService!: typeof import('../src/services/usageService');
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'eval-state-'));
+    process.env.LLM_PROVIDER = 'local';
+    process.env.PERSIST_STATE = 'false';
+    process.env.TAXONOMY_PATH = path.join(dir, 'taxonomy.json');
+    process.env.USAGE_PATH = path.join(dir, 'usage.json');
+    jest.isolateModules(() => {
+      backends = require('../src/eval/backends');
+      usageService = require('../src/services/usageService');
+    });
+
+    await runEvaluation({
+      dataset: 'feedback.jsonl',
+      examples: [...examples, { id: 'd', text: 'Quantum flux capacitor widget', tags: ['hardware'] }],
+      backend: backends.createBackend('local'),
+      operations: ['tags', 'insights'],
+      concurrency: 1
+    });
+    await usageService.flushUsage();
+
+    expect(await fs.readdir(dir)).toEqual([]);
+
+    delete process.env.LLM_PROVIDER;
+    delete process.env.PERSIST_STATE;
+    delete process.env.TAXONOMY_PATH;
+    delete process.env.USAGE_PATH;
+  });
+
+  it('should record failed calls without stopping the run', async () => {
+    const backend: EvalBackend = {
+      name: 'gemini',
+      model: 'test-model',
+      run: async (_operation, text) => {
+        if (text === 'It works') throw new Error('Model unavailable');
+        return { label: 'positive', score: 0.5, isFallback: false, promptVersion: 'v2' };
+      }
+    };
+
+    const result = await runEvaluation({
+      dataset: 'feedback.jsonl',
+      examples,
+      backend,
+      operations: ['sentiment'],
+      concurrency: 1
+    });
+
+    expect(result.metrics.sentiment).toMatchObject({ examples: 3, errorRate: 0.3333, accuracy: 0.5 });
+    expect(result.promptVersions).toEqual({ sentiment: 'v2' });
+    expect(result.predictions[2]).toMatchObject({ id: 'c', error: 'Model unavailable' });
+  });
+});
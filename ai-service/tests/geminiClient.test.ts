@@ -0,0 +1,88 @@
+const generateContent = jest.fn();
+
+jest.mock('@google/generative-ai', () => {
+  const actual = jest.requireActual('@google/generative-ai');
+  return {
+    ...actual,
+    GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+      getGenerativeModel: () => ({ generateContent })
+    }))
+  };
+});
+
+import os from 'os';
+import path from 'path';
+import {
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError
+} from '@google/generative-ai';
+
+type GeminiClient = typeof import('../src/infra/geminiClient');
+
+const unavailable = () => new GoogleGenerativeAIFetchError('unavailable', 503, 'Service Unavailable');
+
+describe('Gemini client resilience', () => {
+  let client: GeminiClient;
+  const request = { operation: 'sentiment' as const, prompt: 'p', text: 't' };
+
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    process.env.USAGE_PATH = path.join(os.tmpdir(), `usage-${process.pid}.json`);
+    process.env.GEMINI_MAX_RETRIES = '1';
+    process.env.GEMINI_RETRY_BASE_MS = '0';
+    process.env.GEMINI_CIRCUIT_FAILURE_THRESHOLD = '2';
+    generateContent.mockReset();
+
+    jest.isolateModules(() => {
+      client = require('../src/infra/geminiClient');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.USAGE_PATH;
+    delete process.env.GEMINI_MAX_RETRIES;
+    delete process.env.GEMINI_RETRY_BASE_MS;
+    delete process.env.GEMINI_CIRCUIT_FAILURE_THRESHOLD;
+  });
+
+  it('should classify retryable errors', () => {
+    expect(client.isRetryableError(unavailable())).toBe(true);
+    expect(client.isRetryableError(new GoogleGenerativeAIFetchError('quota', 429))).toBe(true);
+    expect(client.isRetryableError(new GoogleGenerativeAIFetchError('bad', 400))).toBe(false);
+    expect(client.isRetryableError(new GoogleGenerativeAIResponseError('blocked'))).toBe(false);
+  });
+
+  it('should retry transient failures and pass a timeout', async () => {
+    generateContent
+      .mockRejectedValueOnce(unavailable())
+      .mockResolvedValueOnce({ response: { text: () => '{"ok":true}' } });
+
+    await expect(client.geminiProvider.generateText(request)).resolves.toBe('{"ok":true}');
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(generateContent.mock.calls[0][1]).toEqual({ timeout: 15000 });
+  });
+
+  it('should open the circuit after repeated failures', async () => {
+    generateContent.mockRejectedValue(unavailable());
+
+    await expect(client.geminiProvider.generateText(request)).rejects.toThrow('unavailable');
+    await expect(client.geminiProvider.generateText(request)).rejects.toThrow('unavailable');
+    await expect(client.geminiProvider.generateText(request))
+      .rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    // Two calls with one retry each; the third was rejected without a request
+    expect(generateContent).toHaveBeenCalledTimes(4);
+    expect(client.getGeminiCircuitStats().state).toBe('open');
+  });
+
+  it('should not trip the circuit on non-retryable errors', async () => {
+    generateContent.mockRejectedValue(new GoogleGenerativeAIFetchError('bad', 400));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.geminiProvider.generateText(request)).rejects.toThrow('bad');
+    }
+    expect(generateContent).toHaveBeenCalledTimes(3);
+    expect(client.getGeminiCircuitStats().state).toBe('closed');
+  });
+});
@@ -0,0 +1,47 @@
+import { kMeans, suggestK } from '../src/utils/kmeans';
+
+describe('Spherical k-means', () => {
+  const vectors = [
+    [1, 0.1, 0],
+    [0.9, 0, 0.1],
+    [1, 0, 0],
+    [0, 1, 0.1],
+    [0.1, 0.9, 0],
+    [0, 1, 0]
+  ];
+
+  it('should separate well-separated directions', async () => {
+    const { assignments, centroids } = await kMeans(vectors, 2);
+
+    expect(centroids).toHaveLength(2);
+    expect(new Set(assignments.slice(0, 3)).size).toBe(1);
+    expect(new Set(assignments.slice(3)).size).toBe(1);
+    expect(assignments[0]).not.toBe(assignments[3]);
+  });
+
+  it('should be deterministic for the same input', async () => {
+    expect(await kMeans(vectors, 3)).toEqual(await kMeans(vectors, 3));
+  });
+
+  it('should not create more clusters than points', async () => {
+    expect((await kMeans(vectors.slice(0, 2), 5)).centroids.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should let other work run while clustering many vectors', async () => {
+    const many = Array.from({ length: 1000 }, (_, i) => vectors[i % vectors.length]);
+    let ticks = 0;
+    const timer = setInterval(() => (ticks += 1), 0);
+
+    const { assignments } = await kMeans(many, 2);
+    clearInterval(timer);
+
+    expect(assignments).toHaveLength(1000);
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('should suggest a bounded cluster count', () => {
+    expect(suggestK(1)).toBe(1);
+    expect(suggestK(50)).toBe(5);
+    expect(suggestK(100000)).toBe(10);
+  });
+});
@@ -0,0 +1,40 @@
+import { detectLanguage } from '../src/utils/languageDetection';
+import { canonicalizeTags, matchThemes, scoreSentiment } from '../src/utils/keywordAnalysis';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['en', 'The app is very slow and I have to restart it every day'],
+    ['es', 'La aplicación es muy lenta y el precio es alto'],
+    ['fr', 'Le support est très lent et je ne suis pas content'],
+    ['de', 'Die App ist sehr langsam und der Support hilft nicht'],
+    ['pt', 'O aplicativo é muito lento e não funciona'],
+    ['ja', 'このアプリはとても使いやすいです'],
+    ['ru', 'Приложение работает очень медленно']
+  ])('should detect %s', (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('should return und when there is no signal', () => {
+    expect(detectLanguage('12345 !!!')).toBe('und');
+    expect(detectLanguage('xyzzy plugh')).toBe('und');
+  });
+});
+
+describe('keyword analysis lexicons', () => {
+  it('should score sentiment with the lexicon of the given language', () => {
+    expect(scoreSentiment('Es excelente, me encanta', 'es')).toBeGreaterThan(0);
+    expect(scoreSentiment('Es excelente, me encanta')).toBe(0);
+  });
+
+  it('should return canonical English themes for non-English keywords', () => {
+    expect(matchThemes('El precio es demasiado alto', 'es')).toContain('pricing');
+  });
+
+  it('should map tags from any language onto canonical themes', () => {
+    expect(canonicalizeTags(['Precio', 'pricing', 'soporte', 'onboarding'])).toEqual([
+      'pricing',
+      'support',
+      'onboarding'
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import os from 'os';
+import path from 'path';
+
+jest.mock('../src/worker/embeddingWorker', () => ({
+  enqueueEmbeddingJob: jest.fn().mockResolvedValue(undefined)
+}));
+
+type GeminiService = typeof import('../src/services/geminiService');
+type EmbeddingService = typeof import('../src/services/embeddingService');
+
+describe('Local LLM provider', () => {
+  let geminiService: GeminiService;
+  let embeddingService: EmbeddingService;
+
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'local';
+    process.env.TAXONOMY_PATH = path.join(os.tmpdir(), `taxonomy-${process.pid}.json`);
+    jest.isolateModules(() => {
+      geminiService = require('../src/services/geminiService');
+      embeddingService = require('../src/services/embeddingService');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.TAXONOMY_PATH;
+  });
+
+  it('should analyze sentiment without falling back', async () => {
+    const result = await geminiService.analyzeSentiment('I love this product, it is amazing');
+
+    expect(result.label).toBe('positive');
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.isFallback).toBeUndefined();
+  });
+
+  it('should extract theme and keyword tags', async () => {
+    const result = await geminiService.extractTags('Support was slow and the pricing is expensive');
+
+    expect(result.tags).toEqual(expect.arrayContaining(['support', 'performance', 'pricing']));
+    expect(result.tags.length).toBeLessThanOrEqual(5);
+  });
+
+  it('should generate insights through the full path', async () => {
+    const result = await geminiService.generateInsights(
+      'The onboarding tutorial was confusing. Took me hours to get started.',
+      'user-1'
+    );
+
+    expect(result.sentimentLabel).toBe('negative');
+    expect(result.tags).toContain('onboarding');
+    expect(result.summary).toBe('The onboarding tutorial was confusing.');
+    expect(result.actionItems).toEqual(['Follow up on usability concerns']);
+    expect(result.isFallback).toBeUndefined();
+  });
+
+  it('should stream partial fields before the final result', async () => {
+    const events = [];
+    for await (const event of geminiService.streamInsights('Support was great. Answers came fast.')) {
+      events.push(event);
+    }
+
+    const summaries = events
+      .filter((event) => event.type === 'partial' && event.field === 'summary')
+      .map((event) => (event.type === 'partial' ? event.value : undefined));
+    const last = events[events.length - 1];
+
+    expect(summaries.length).toBeGreaterThan(1);
+    expect(summaries[summaries.length - 1]).toBe('Support was great.');
+    expect(last.type).toBe('result');
+    expect(last.type === 'result' && last.data.summary).toBe('Support was great.');
+  });
+
+  it('should answer questions from the most related source', async () => {
+    const hit = (id: string, rawText: string) => ({
+      id,
+      score: 0.8,
+      payload: { rawText, analyzedAt: '2026-01-05T10:00:00.000Z', model: 'm' }
+    });
+
+    const result = await geminiService.answerFromFeedback('Why is checkout failing?', [
+      hit('fb-1', 'Support answered quickly.'),
+      hit('fb-2', 'Checkout fails when paying by card.')
+    ]);
+
+    expect(result).toMatchObject({
+      answered: true,
+      citations: ['fb-2'],
+      answerSource: 'model',
+      answer: 'Customers say: Checkout fails when paying by card.'
+    });
+  });
+
+  it('should produce deterministic normalized embeddings', async () => {
+    const first = await embeddingService.generateEmbedding('Checkout is slow');
+    const second = await embeddingService.generateEmbedding('Checkout is slow');
+    const norm = Math.sqrt(first.reduce((sum, v) => sum + v * v, 0));
+
+    expect(first).toHaveLength(768);
+    expect(first).toEqual(second);
+    expect(norm).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,25 @@
+import { extractPartialFields } from '../src/utils/partialJson';
+
+describe('Partial JSON extraction', () => {
+  const fields = ['sentimentScore', 'tags', 'summary'];
+
+  it('should return only complete values for non-growing fields', () => {
+    expect(extractPartialFields('{"sentimentScore": 0.4', fields)).toEqual({});
+    expect(extractPartialFields('{"sentimentScore": 0.45, "tags": ["a", "b"', fields))
+      .toEqual({ sentimentScore: 0.45 });
+  });
+
+  it('should return growing string fields as far as they have arrived', () => {
+    const buffer = '{"tags": ["a"], "summary": "Users like the \\"new\\" dash';
+
+    expect(extractPartialFields(buffer, fields, ['summary'])).toEqual({
+      tags: ['a'],
+      summary: 'Users like the "new" dash'
+    });
+  });
+
+  it('should not break on a dangling escape', () => {
+    expect(extractPartialFields('{"summary": "Line one\\', fields, ['summary']))
+      .toEqual({ summary: 'Line one' });
+  });
+});
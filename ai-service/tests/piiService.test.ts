@@ -0,0 +1,31 @@
+import { detectPii, scanPii } from '../src/services/piiService';
+
+describe('PII detection', () => {
+  it('should detect emails, phones, cards, IBANs and IP addresses', () => {
+    const text = 'Call +44 20 7946 0958, card 4111 1111 1111 1111, '
+      + 'IBAN GB82 WEST 1234 5698 7654 32, from 192.168.1.20, mail a@b.io';
+
+    expect(detectPii(text).map((entity) => entity.type)).toEqual([
+      'phone',
+      'credit_card',
+      'iban',
+      'ip_address',
+      'email'
+    ]);
+  });
+
+  it('should ignore digit runs that fail the Luhn check', () => {
+    expect(detectPii('Order 4111 1111 1111 1112').map((entity) => entity.type))
+      .not.toContain('credit_card');
+  });
+
+  it('should not treat dates as phone numbers', () => {
+    expect(detectPii('Joined on 2024-01-15 and left 15/02/2024')).toEqual([]);
+  });
+
+  it('should redact entities with typed placeholders', () => {
+    const result = scanPii('Reach me on 555-123-4567 or me@corp.com');
+
+    expect(result.redactedText).toBe('Reach me on [PHONE] or [EMAIL]');
+  });
+});
@@ -0,0 +1,198 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const qdrant = {
+  count: jest.fn(),
+  delete: jest.fn(),
+  getCollections: jest.fn(),
+  scroll: jest.fn()
+};
+
+jest.mock('../src/infra/qdrantClient', () => ({ qdrantClient: qdrant }));
+
+type PrivacyService = typeof import('../src/services/privacyService');
+type CacheService = typeof import('../src/services/cacheService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const jobRecord = (id: string, userId: string, status: string, ageDays: number) => {
+  const createdAt = new Date(Date.now() - ageDays * DAY_MS).toISOString();
+  return {
+    id,
+    status,
+    attempts: 1,
+    maxAttempts: 5,
+    nextAttemptAt: createdAt,
+    createdAt,
+    updatedAt: createdAt,
+    job: { feedbackId: id, userId, text: 'Support was slow', insights: { analyzedAt: createdAt } }
+  };
+};
+
+describe('Privacy operations', () => {
+  let privacyService: PrivacyService;
+  let cacheService: CacheService;
+  let jobsPath: string;
+  let auditPath: string;
+
+  const load = (retentionDays = '0'): void => {
+    process.env.FEEDBACK_RETENTION_DAYS = retentionDays;
+    jest.isolateModules(() => {
+      privacyService = require('../src/services/privacyService');
+      cacheService = require('../src/services/cacheService');
+    });
+  };
+
+  const storedJobIds = async (): Promise<string[]> =>
+    JSON.parse(await fs.readFile(jobsPath, 'utf8')).map((record: { id: string }) => record.id);
+
+  const auditLog = async () =>
+    (await fs.readFile(auditPath, 'utf8'))
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'privacy-'));
+    jobsPath = path.join(dir, 'jobs.json');
+    auditPath = path.join(dir, 'audit-log.jsonl');
+    process.env.LLM_PROVIDER = 'local';
+    process.env.EMBEDDING_JOBS_PATH = jobsPath;
+    process.env.AUDIT_LOG_PATH = auditPath;
+
+    await fs.writeFile(
+      jobsPath,
+      JSON.stringify([
+        jobRecord('fb-1', 'user-1', 'pending', 0),
+        jobRecord('fb-2', 'user-2', 'pending', 0),
+        jobRecord('fb-3', 'user-2', 'completed', 40),
+        jobRecord('fb-4', 'user-2', 'dead', 40)
+      ])
+    );
+
+    Object.values(qdrant).forEach((fn) => fn.mockReset());
+    qdrant.count.mockResolvedValue({ count: 2 });
+    qdrant.delete.mockResolvedValue({ status: 'completed' });
+    qdrant.getCollections.mockResolvedValue({
+      collections: [{ name: 'feedback_embeddings_v1' }, { name: 'feedback_embeddings_v2' }, { name: 'other' }]
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.EMBEDDING_JOBS_PATH;
+    delete process.env.AUDIT_LOG_PATH;
+    delete process.env.FEEDBACK_RETENTION_DAYS;
+  });
+
+  it("should export a user's stored feedback without vectors", async () => {
+    load();
+    qdrant.scroll.mockResolvedValue({
+      points: [
+        {
+          id: 'fb-9',
+          vector: [0.1, 0.2],
+          payload: { userId: 'user-1', rawText: 'Love it', analyzedAt: '2026-01-05T10:00:00.000Z', model: 'm' }
+        }
+      ],
+      next_page_offset: null
+    });
+
+    const result = await privacyService.exportUserData('user-1');
+
+    expect(result).toMatchObject({ userId: 'user-1', total: 1 });
+    expect(result.feedback).toEqual([
+      {
+        id: 'fb-9',
+        payload: { userId: 'user-1', rawText: 'Love it', analyzedAt: '2026-01-05T10:00:00.000Z', model: 'm' }
+      }
+    ]);
+    expect(qdrant.scroll.mock.calls[0][1].filter).toEqual({
+      must: [{ key: 'userId', match: { value: 'user-1' } }]
+    });
+  });
+
+  it("should purge a user's points and pending jobs and audit it", async () => {
+    load();
+
+    const result = await privacyService.purgeUserData('user-1', {
+      actor: 'dotnet-api',
+      correlationId: 'corr-1'
+    });
+
+    expect(result).toMatchObject({ userId: 'user-1', deletedPoints: 2, deletedJobs: 1 });
+    expect(qdrant.delete.mock.calls).toEqual(
+      ['feedback_embeddings_v1', 'feedback_embeddings_v2'].map((collection) => [
+        collection,
+        { filter: { must: [{ key: 'userId', match: { value: 'user-1' } }] }, wait: true }
+      ])
+    );
+    expect(await storedJobIds()).toEqual(['fb-2', 'fb-3', 'fb-4']);
+
+    const [entry] = await auditLog();
+    expect(entry).toMatchObject({
+      action: 'user_data_purge',
+      actor: 'dotnet-api',
+      correlationId: 'corr-1',
+      userId: 'user-1',
+      deletedPoints: 2,
+      deletedJobs: 1,
+      at: result.purgedAt
+    });
+    expect(JSON.stringify(entry)).not.toContain('Support was slow');
+  });
+
+  it("should drop a user's cached insights", async () => {
+    load();
+    const compute = jest.fn().mockResolvedValue({ summary: 'Support was slow' });
+    await cacheService.withCache('insights', ['Support was slow'], compute, 'user-1');
+
+    await privacyService.purgeUserData('user-1');
+
+    expect((await cacheService.withCache('insights', ['Support was slow'], compute, 'user-1')).cacheStatus).toBe('MISS');
+  });
+
+  it('should not purge anything while retention is disabled', async () => {
+    load('0');
+
+    expect(await privacyService.purgeExpiredFeedback()).toBeUndefined();
+    expect(qdrant.delete).not.toHaveBeenCalled();
+  });
+
+  it('should purge feedback and finished jobs older than the retention period', async () => {
+    load('30');
+
+    const entry = await privacyService.purgeExpiredFeedback();
+
+    const cutoff = Date.parse(entry!.cutoff!);
+    expect(Math.abs(cutoff - (Date.now() - 30 * DAY_MS))).toBeLessThan(60000);
+    expect(qdrant.delete).toHaveBeenCalledWith('feedback_embeddings_v2', {
+      filter: { must: [{ key: 'analyzedAt', range: { lt: entry!.cutoff } }] },
+      wait: true
+    });
+    expect(await storedJobIds()).toEqual(['fb-1', 'fb-2']);
+    expect(await auditLog()).toEqual([
+      expect.objectContaining({
+        action: 'retention_purge',
+        cutoff: entry!.cutoff,
+        deletedPoints: 2,
+        deletedJobs: 2
+      })
+    ]);
+  });
+
+  it.each([
+    ['abc', 24],
+    ['0', 24],
+    ['-5', 24],
+    ['1000', (2 ** 31 - 1) / 3_600_000],
+    ['0.5', 0.5]
+  ])('should read a retention interval of %s as %s hours', (value, hours) => {
+    process.env.RETENTION_INTERVAL_HOURS = value;
+    jest.isolateModules(() => {
+      expect(require('../src/config').config.retentionIntervalHours).toBe(hours);
+    });
+    delete process.env.RETENTION_INTERVAL_HOURS;
+  });
+});
@@ -0,0 +1,117 @@
+import { createCircuitBreaker } from '../src/utils/circuitBreaker';
+import { retryWithJitter } from '../src/utils/retry';
+
+describe('Circuit breaker', () => {
+  let now = 0;
+  const failing = () => Promise.reject(new Error('boom'));
+
+  const createBreaker = () =>
+    createCircuitBreaker('Test', { failureThreshold: 2, resetTimeoutMs: 1000 }, () => now);
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should open after consecutive failures and reject fast', async () => {
+    const breaker = createBreaker();
+    const fn = jest.fn(failing);
+
+    await expect(breaker.execute(fn)).rejects.toThrow('boom');
+    await expect(breaker.execute(fn)).rejects.toThrow('boom');
+    await expect(breaker.execute(fn)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', statusCode: 503 });
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(breaker.getStats()).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+  });
+
+  it('should close again after a successful half-open trial', async () => {
+    const breaker = createBreaker();
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    await expect(breaker.execute(failing)).rejects.toThrow();
+
+    now = 1000;
+    expect(breaker.getStats().state).toBe('half_open');
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(breaker.getStats()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+  });
+
+  it('should report whether a call would be let through', async () => {
+    const breaker = createBreaker();
+    expect(breaker.isCallAllowed()).toBe(true);
+
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    expect(breaker.isCallAllowed()).toBe(false);
+
+    now = 1000;
+    expect(breaker.isCallAllowed()).toBe(true);
+    breaker.acquire();
+    expect(breaker.isCallAllowed()).toBe(false);
+  });
+
+  it('should re-open when the half-open trial fails', async () => {
+    const breaker = createBreaker();
+    await expect(breaker.execute(failing)).rejects.toThrow();
+    await expect(breaker.execute(failing)).rejects.toThrow();
+
+    now = 1000;
+    await expect(breaker.execute(failing)).rejects.toThrow('boom');
+    expect(breaker.getStats().state).toBe('open');
+  });
+
+  it('should ignore errors that do not count as failures', async () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(failing, () => false)).rejects.toThrow('boom');
+    }
+    expect(breaker.getStats().state).toBe('closed');
+  });
+});
+
+describe('Retry with jitter', () => {
+  const options = {
+    retries: 2,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    isRetryable: (error: unknown) => (error as Error).message === 'transient'
+  };
+
+  it('should retry retryable errors until success', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValueOnce('done');
+
+    await expect(retryWithJitter(fn, options)).resolves.toBe('done');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('transient'));
+
+    await expect(retryWithJitter(fn, options)).rejects.toThrow('transient');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('bad request'));
+
+    await expect(retryWithJitter(fn, options)).rejects.toThrow('bad request');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep delays within the backoff cap', async () => {
+    const delays: number[] = [];
+    const fn = jest.fn().mockRejectedValue(new Error('transient'));
+
+    await expect(retryWithJitter(fn, {
+      ...options,
+      baseDelayMs: 4,
+      maxDelayMs: 6,
+      random: () => 1,
+      onRetry: (_error, _attempt, delayMs) => delays.push(delayMs)
+    })).rejects.toThrow();
+
+    expect(delays).toEqual([4, 6]);
+  });
+});
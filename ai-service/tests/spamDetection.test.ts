@@ -0,0 +1,49 @@
+import { assessSpam, characterEntropy } from '../src/utils/spamDetection';
+
+describe('Spam detection', () => {
+  it('should pass ordinary feedback', () => {
+    const result = assessSpam(
+      'The onboarding tutorial was confusing. Took me hours to get started, and support never answered.'
+    );
+
+    expect(result).toEqual({ isSpam: false, score: 0, reasons: [] });
+  });
+
+  it('should pass feedback that mentions a single link', () => {
+    const result = assessSpam(
+      'See the screenshot at https://example.com/shot.png, the export button is broken since the update'
+    );
+
+    expect(result.isSpam).toBe(false);
+  });
+
+  it('should flag pasted repetition', () => {
+    const result = assessSpam('BUY NOW cheap watches '.repeat(4));
+
+    expect(result.isSpam).toBe(true);
+    expect(result.reasons).toEqual(['repetition']);
+  });
+
+  it('should flag low-entropy gibberish', () => {
+    const result = assessSpam('asdasdasdasd asdasd asdasdasd');
+
+    expect(result.isSpam).toBe(true);
+    expect(result.reasons).toContain('low_entropy');
+  });
+
+  it('should flag link-heavy text', () => {
+    const result = assessSpam('Great deals http://a.example/1 http://a.example/2 www.a.example');
+
+    expect(result).toEqual({ isSpam: true, score: 1, reasons: ['link_density'] });
+  });
+
+  it('should not judge texts too short to score', () => {
+    expect(assessSpam('ok').isSpam).toBe(false);
+    expect(assessSpam('').score).toBe(0);
+  });
+
+  it('should measure character entropy in bits', () => {
+    expect(characterEntropy('aaaa')).toBe(0);
+    expect(characterEntropy('abab')).toBeCloseTo(1);
+  });
+});
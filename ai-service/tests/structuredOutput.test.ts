@@ -0,0 +1,110 @@
+const generateText = jest.fn();
+const isAvailable = jest.fn();
+
+jest.mock('../src/infra/llmProvider', () => ({
+  llmProvider: {
+    name: 'gemini',
+    model: 'test-model',
+    isConfigured: () => true,
+    isAvailable: () => isAvailable(),
+    generateText: (...args: unknown[]) => generateText(...args)
+  }
+}));
+
+jest.mock('../src/worker/embeddingWorker', () => ({
+  enqueueEmbeddingJob: jest.fn().mockResolvedValue(undefined)
+}));
+
+import * as geminiService from '../src/services/geminiService';
+
+describe('Structured model output', () => {
+  beforeEach(() => {
+    generateText.mockReset();
+    isAvailable.mockReset().mockReturnValue(true);
+  });
+
+  it('should serve the fallback while the provider circuit is open', async () => {
+    isAvailable.mockReturnValue(false);
+
+    const result = await geminiService.analyzeSentiment('Great app');
+
+    expect(result).toMatchObject({ isFallback: true, model: 'keyword-fallback' });
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it('should accept valid output without repair', async () => {
+    generateText.mockResolvedValueOnce('{"score": 0.7, "label": "positive", "confidence": 0.9}');
+
+    const result = await geminiService.analyzeSentiment('Great app');
+
+    expect(result).toEqual({
+      score: 0.7,
+      label: 'positive',
+      confidence: 0.9,
+      model: 'test-model',
+      promptVersion: 'v2',
+      riskFlags: [],
+      repaired: false,
+      detectedLanguage: 'en'
+    });
+    expect(generateText).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-prompt with validation errors and mark the result repaired', async () => {
+    generateText
+      .mockResolvedValueOnce('{"score": 4, "label": "great", "confidence": 0.9}')
+      .mockResolvedValueOnce('{"score": 0.8, "label": "positive", "confidence": 0.9}');
+
+    const result = await geminiService.analyzeSentiment('Great app');
+
+    expect(result.repaired).toBe(true);
+    expect(result.score).toBe(0.8);
+    const repairPrompt = generateText.mock.calls[1][0].prompt as string;
+    expect(repairPrompt).toContain('score: Number must be less than or equal to 1');
+    expect(repairPrompt).toContain('label: Invalid enum value');
+  });
+
+  it('should reject output that is still invalid after repair', async () => {
+    generateText.mockResolvedValue('{"tags": "not-an-array"}');
+
+    await expect(geminiService.extractTags('Slow support')).rejects.toMatchObject({
+      statusCode: 502,
+      code: 'INVALID_MODEL_OUTPUT'
+    });
+    expect(generateText).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject insights with out-of-range fields', async () => {
+    generateText.mockResolvedValue(JSON.stringify({
+      sentimentScore: 0.2,
+      sentimentLabel: 'positive',
+      tags: ['a', 'b', 'c', 'd', 'e', 'f'],
+      engagementLevel: 'Extreme',
+      summary: 'Ok',
+      actionItems: []
+    }));
+
+    await expect(geminiService.generateInsights('Fine')).rejects.toMatchObject({
+      code: 'INVALID_MODEL_OUTPUT'
+    });
+  });
+
+  it('should locate aspect spans and canonicalize aspect names', async () => {
+    generateText.mockResolvedValueOnce(JSON.stringify({
+      aspects: [
+        { aspect: 'Product', score: 0.8, label: 'positive', span: 'love the product' },
+        { aspect: 'soporte', score: -0.9, label: 'negative', span: 'support was awful' },
+        { aspect: 'colour scheme', score: 0.3, label: 'positive', span: 'not in the text' }
+      ]
+    }));
+
+    const text = 'I love the product, but support was awful';
+    const result = await geminiService.analyzeAspects(text, { freeForm: false });
+
+    expect(result.aspects).toEqual([
+      { aspect: 'product', score: 0.8, label: 'positive', span: { text: 'love the product', start: 2, end: 18 } },
+      { aspect: 'support', score: -0.9, label: 'negative', span: { text: 'support was awful', start: 24, end: 41 } }
+    ]);
+    expect(generateText.mock.calls[0][0].prompt).toContain('product, usability, support');
+  });
+});
@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+
+type TaxonomyService = typeof import('../src/services/taxonomyService');
+
+describe('Tag taxonomy', () => {
+  let app: Express;
+  let taxonomyService: TaxonomyService;
+  let storePath: string;
+
+  beforeAll(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'taxonomy-'));
+    storePath = path.join(dir, 'taxonomy.json');
+    process.env.TAXONOMY_PATH = storePath;
+    process.env.TAXONOMY_MAX_CANDIDATES = '3';
+    jest.isolateModules(() => {
+      app = require('../src/index').default;
+      taxonomyService = require('../src/services/taxonomyService');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.TAXONOMY_PATH;
+    delete process.env.TAXONOMY_MAX_CANDIDATES;
+  });
+
+  it('should seed the taxonomy from the keyword themes', async () => {
+    const response = await request(app).get('/api/ai/taxonomy').expect(200);
+
+    const ids = response.body.data.map((tag: { id: string }) => tag.id);
+    expect(ids).toEqual(
+      expect.arrayContaining(['product', 'support', 'pricing', 'general'])
+    );
+  });
+
+  it('should create a child tag and persist it', async () => {
+    const response = await request(app)
+      .post('/api/ai/taxonomy')
+      .send({ id: 'Billing', parent: 'pricing', synonyms: ['Invoice', 'refund'] })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      id: 'billing',
+      parent: 'pricing',
+      synonyms: ['invoice', 'refund']
+    });
+
+    const stored = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(stored.tags.map((tag: { id: string }) => tag.id)).toContain('billing');
+
+    const parent = await request(app).get('/api/ai/taxonomy/pricing').expect(200);
+    expect(parent.body.data.children).toEqual(['billing']);
+  });
+
+  it('should reject synonyms already used by another tag', async () => {
+    const response = await request(app)
+      .post('/api/ai/taxonomy')
+      .send({ id: 'costs', synonyms: ['price'] })
+      .expect(409);
+
+    expect(response.body.error.code).toBe('TAG_CONFLICT');
+  });
+
+  it('should reject parent cycles', async () => {
+    const response = await request(app)
+      .put('/api/ai/taxonomy/pricing')
+      .send({ parent: 'billing' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('TAXONOMY_CYCLE');
+  });
+
+  it('should not delete tags that have children', async () => {
+    const response = await request(app).delete('/api/ai/taxonomy/pricing').expect(409);
+
+    expect(response.body.error.code).toBe('TAG_HAS_CHILDREN');
+  });
+
+  it('should return 404 for unknown tags', async () => {
+    const response = await request(app).get('/api/ai/taxonomy/nope').expect(404);
+
+    expect(response.body.error.code).toBe('TAG_NOT_FOUND');
+  });
+
+  it('should map synonyms and other languages and report unknown tags as candidates', async () => {
+    expect(taxonomyService.mapTags(['Invoice', 'precio', 'dark mode', 'pricing'])).toEqual({
+      tags: ['billing', 'pricing'],
+      candidateTags: ['dark mode']
+    });
+    taxonomyService.mapTags(['dark mode']);
+
+    const response = await request(app).get('/api/ai/taxonomy/candidates').expect(200);
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ tag: 'dark mode', count: 2 })
+    ]);
+  });
+
+  it('should resolve candidates when they are added to the taxonomy', async () => {
+    await request(app)
+      .post('/api/ai/taxonomy')
+      .send({ id: 'theming', synonyms: ['dark mode'] })
+      .expect(201);
+
+    const response = await request(app).get('/api/ai/taxonomy/candidates').expect(200);
+    expect(response.body.data).toEqual([]);
+  });
+
+  it('should write candidates in one delayed pass and keep only the most frequent', async () => {
+    const writeFile = jest.spyOn(fs, 'writeFile');
+    jest.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00.000Z') });
+    ['alpha', 'alpha', 'beta', 'gamma', 'delta'].forEach((tag) => {
+      jest.advanceTimersByTime(1000);
+      taxonomyService.mapTags([tag]);
+    });
+    jest.useRealTimers();
+
+    // Other stores, such as token usage, may write in the meantime
+    const taxonomyWrites = () =>
+      writeFile.mock.calls.filter(([file]) => String(file).startsWith(storePath));
+    expect(taxonomyWrites()).toHaveLength(0);
+    await taxonomyService.flushTaxonomy();
+    expect(taxonomyWrites()).toHaveLength(1);
+    writeFile.mockRestore();
+
+    const stored = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(stored.candidates.map((candidate: { tag: string }) => candidate.tag)).toEqual([
+      'alpha',
+      'delta',
+      'gamma'
+    ]);
+    await Promise.all(['alpha', 'delta', 'gamma'].map((tag) => taxonomyService.dismissCandidate(tag)));
+  });
+
+  it('should keep persisting after a failed write', async () => {
+    // A directory in place of the temp file makes the next write fail
+    await fs.mkdir(`${storePath}.tmp`);
+    await expect(taxonomyService.createTag({ id: 'mobile' })).rejects.toThrow();
+    await fs.rmdir(`${storePath}.tmp`);
+
+    await taxonomyService.createTag({ id: 'desktop' });
+    const stored = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(stored.tags.map((tag: { id: string }) => tag.id)).toEqual(expect.arrayContaining(['mobile', 'desktop']));
+  });
+
+  it('should change the taxonomy version when tags change', async () => {
+    const before = taxonomyService.getTaxonomyVersion();
+    expect(taxonomyService.getTaxonomyVersion()).toBe(before);
+
+    await request(app).put('/api/ai/taxonomy/theming').send({ synonyms: ['dark mode', 'themes'] }).expect(200);
+
+    expect(taxonomyService.getTaxonomyVersion()).not.toBe(before);
+  });
+
+  it('should return canonical tags from the fallback tag extraction', async () => {
+    const response = await request(app)
+      .post('/api/ai/tags')
+      .send({ text: 'The refund took weeks and support never answered' })
+      .expect(200);
+
+    expect(response.body.data.tags).toEqual(['support', 'billing']);
+    expect(response.body.data.candidateTags).toEqual([]);
+  });
+
+  it('should return 400 for an invalid tag id', async () => {
+    const response = await request(app)
+      .post('/api/ai/taxonomy')
+      .send({ id: '' })
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+  });
+});
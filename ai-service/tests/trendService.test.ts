@@ -0,0 +1,106 @@
+import { bucketStart, buildUserTrends, getUserTrends } from '../src/services/trendService';
+import { StoredFeedbackPoint } from '../src/types';
+
+const scrollFeedback = jest.fn();
+
+jest.mock('../src/services/embeddingService', () => ({
+  scrollFeedback: (...args: unknown[]) => scrollFeedback(...args)
+}));
+
+const point = (
+  analyzedAt: string,
+  sentimentScore: number,
+  tags: string[] = [],
+  engagementLevel = 'Medium'
+): StoredFeedbackPoint => ({
+  id: analyzedAt,
+  payload: {
+    userId: 'user-1',
+    rawText: 'feedback',
+    sentimentScore,
+    tags,
+    engagementLevel,
+    analyzedAt,
+    model: 'local-rules-v1'
+  }
+});
+
+describe('User trends', () => {
+  it('should compute bucket starts per interval', () => {
+    // 2024-01-17 is a Wednesday
+    expect(bucketStart('2024-01-17T22:10:00Z', 'day')).toBe('2024-01-17');
+    expect(bucketStart('2024-01-17T22:10:00Z', 'week')).toBe('2024-01-15');
+    expect(bucketStart('2024-01-21T08:00:00Z', 'week')).toBe('2024-01-15');
+    expect(bucketStart('2024-01-17T22:10:00Z', 'month')).toBe('2024-01-01');
+  });
+
+  it('should aggregate sentiment, engagement and tags per bucket', () => {
+    const trends = buildUserTrends('user-1', [
+      point('2024-01-02T10:00:00Z', 0.6, ['billing', 'support'], 'High'),
+      point('2024-01-03T10:00:00Z', 0.2, ['billing']),
+      point('2024-02-05T10:00:00Z', 0.1, ['onboarding'])
+    ], 'month');
+
+    expect(trends.totalFeedback).toBe(3);
+    expect(trends.buckets).toHaveLength(2);
+    expect(trends.buckets[0]).toMatchObject({
+      start: '2024-01-01',
+      count: 2,
+      engagementDistribution: { High: 1, Medium: 1 },
+      topTags: [{ tag: 'billing', count: 2 }, { tag: 'support', count: 1 }]
+    });
+    expect(trends.buckets[0].averageSentimentScore).toBeCloseTo(0.4);
+  });
+
+  it('should flag significant sentiment drops and mark recent ones as at risk', () => {
+    const trends = buildUserTrends('user-1', [
+      point('2024-01-01T10:00:00Z', 0.5),
+      point('2024-01-02T10:00:00Z', 0.4),
+      point('2024-01-03T10:00:00Z', -0.2)
+    ], 'day', 0.3);
+
+    expect(trends.sentimentDrops).toHaveLength(1);
+    expect(trends.sentimentDrops[0]).toMatchObject({
+      from: '2024-01-02',
+      to: '2024-01-03'
+    });
+    expect(trends.sentimentDrops[0].change).toBeCloseTo(-0.6);
+    expect(trends.atRisk).toBe(true);
+  });
+
+  it('should not mark a user at risk once sentiment recovers', () => {
+    const trends = buildUserTrends('user-1', [
+      point('2024-01-01T10:00:00Z', 0.5),
+      point('2024-01-02T10:00:00Z', -0.2),
+      point('2024-01-03T10:00:00Z', 0.3)
+    ], 'day', 0.3);
+
+    expect(trends.sentimentDrops).toHaveLength(1);
+    expect(trends.atRisk).toBe(false);
+  });
+
+  it('should read the newest points and report when older ones were left out', async () => {
+    // 2024-01-01 plus one hour per point, newest first as Qdrant returns them
+    scrollFeedback.mockImplementation(async ({ limit }: { limit: number }) =>
+      Array.from({ length: limit }, (_, index) =>
+        point(new Date(Date.UTC(2024, 0, 1) + (limit - index) * 3600000).toISOString(), 0.1)
+      )
+    );
+
+    const trends = await getUserTrends('user-1', { interval: 'month' });
+
+    expect(scrollFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 5001, newestFirst: true })
+    );
+    expect(trends.totalFeedback).toBe(5000);
+    expect(trends.truncated).toBe(true);
+  });
+
+  it('should not report truncation when every point fits', async () => {
+    scrollFeedback.mockResolvedValue([point('2024-01-02T10:00:00Z', 0.1)]);
+
+    const trends = await getUserTrends('user-1', { interval: 'week' });
+
+    expect(trends).toMatchObject({ totalFeedback: 1, truncated: false });
+  });
+});
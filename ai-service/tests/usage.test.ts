@@ -0,0 +1,232 @@
+const generateContent = jest.fn();
+
+jest.mock('@google/generative-ai', () => {
+  const actual = jest.requireActual('@google/generative-ai');
+  return {
+    ...actual,
+    GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+      getGenerativeModel: () => ({ generateContent })
+    }))
+  };
+});
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import type { Express } from 'express';
+
+type GeminiClient = typeof import('../src/infra/geminiClient');
+type UsageService = typeof import('../src/services/usageService');
+type RequestContextModule = typeof import('../src/utils/requestContext');
+
+const modelReply = (text: string, usageMetadata?: object) => ({
+  response: { text: () => text, usageMetadata }
+});
+
+const tempPath = async (): Promise<string> =>
+  path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'usage-')), 'usage.json');
+
+describe('Usage accounting', () => {
+  let client: GeminiClient;
+  let usageService: UsageService;
+  let requestContext: RequestContextModule;
+  let storePath: string;
+
+  const sentiment = { operation: 'sentiment' as const, prompt: 'p'.repeat(40), text: 't' };
+  const context = { client: 'dotnet', endpoint: '/api/ai/sentiment', fallbackOnly: false };
+
+  beforeEach(async () => {
+    storePath = await tempPath();
+    process.env.USAGE_PATH = storePath;
+    process.env.GEMINI_API_KEY = 'test-key';
+    process.env.GEMINI_MAX_RETRIES = '0';
+    generateContent.mockReset();
+
+    jest.isolateModules(() => {
+      client = require('../src/infra/geminiClient');
+      usageService = require('../src/services/usageService');
+      requestContext = require('../src/utils/requestContext');
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.USAGE_PATH;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_MAX_RETRIES;
+  });
+
+  const report = () =>
+    usageService.getUsageReport({
+      budget: { client: 'dotnet', settings: { dailyTokens: 150, dailyCostUsd: 0, action: 'fallback' } }
+    });
+
+  it('should record reported token counts and cost per client and endpoint', async () => {
+    generateContent.mockResolvedValue(
+      modelReply('{}', { promptTokenCount: 100, candidatesTokenCount: 20, totalTokenCount: 120 })
+    );
+
+    await requestContext.runWithRequestContext(context, () =>
+      client.geminiProvider.generateText(sentiment)
+    );
+
+    const { records, totals } = report();
+    expect(records).toEqual([
+      expect.objectContaining({
+        client: 'dotnet',
+        endpoint: '/api/ai/sentiment',
+        calls: 1,
+        promptTokens: 100,
+        completionTokens: 20,
+        estimatedCalls: 0
+      })
+    ]);
+    expect(totals.costUsd).toBeCloseTo((100 * 0.075 + 20 * 0.3) / 1_000_000);
+  });
+
+  it('should estimate tokens when the response has no usage metadata', async () => {
+    generateContent.mockResolvedValue(modelReply('x'.repeat(8)));
+
+    await client.geminiProvider.generateText(sentiment);
+
+    expect(report().records).toEqual([
+      expect.objectContaining({
+        client: usageService.BACKGROUND_CLIENT,
+        endpoint: 'sentiment',
+        promptTokens: 10,
+        completionTokens: 2,
+        estimatedCalls: 1
+      })
+    ]);
+  });
+
+  it('should mark the budget exceeded once the daily token limit is reached', async () => {
+    generateContent.mockResolvedValue(
+      modelReply('{}', { promptTokenCount: 100, candidatesTokenCount: 20, totalTokenCount: 120 })
+    );
+
+    await requestContext.runWithRequestContext(context, () =>
+      client.geminiProvider.generateText(sentiment)
+    );
+    expect(report().budget.exceeded).toBe(false);
+
+    await requestContext.runWithRequestContext(context, () =>
+      client.geminiProvider.generateText(sentiment)
+    );
+    expect(report().budget).toMatchObject({ tokensUsed: 240, exceeded: true });
+  });
+
+  it('should persist records to the usage store', async () => {
+    generateContent.mockResolvedValue(modelReply('{}'));
+    await client.geminiProvider.generateText(sentiment);
+
+    await usageService.flushUsage();
+
+    const stored = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should keep persisting after a failed write', async () => {
+    generateContent.mockResolvedValue(modelReply('{}'));
+    await client.geminiProvider.generateText(sentiment);
+
+    // A directory in place of the temp file makes the next write fail
+    await fs.mkdir(`${storePath}.tmp`);
+    await expect(usageService.flushUsage()).rejects.toThrow();
+    await fs.rmdir(`${storePath}.tmp`);
+
+    await usageService.flushUsage();
+    const stored = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(stored).toHaveLength(1);
+  });
+});
+
+describe('Usage budgets', () => {
+  let app: Express;
+  let usageService: UsageService;
+  let requestContext: RequestContextModule;
+
+  const load = async (action: string) => {
+    process.env.USAGE_PATH = await tempPath();
+    process.env.USAGE_DAILY_TOKEN_BUDGET = '100';
+    process.env.USAGE_BUDGET_ACTION = action;
+    process.env.GEMINI_API_KEY = 'test-key';
+    generateContent.mockReset();
+
+    jest.isolateModules(() => {
+      app = require('../src/index').default;
+      usageService = require('../src/services/usageService');
+      requestContext = require('../src/utils/requestContext');
+    });
+
+    requestContext.runWithRequestContext(
+      { client: usageService.ANONYMOUS_CLIENT, endpoint: '/api/ai/sentiment', fallbackOnly: false },
+      () =>
+        usageService.recordTokenUsage({
+          operation: 'sentiment',
+          promptTokens: 90,
+          completionTokens: 10,
+          estimated: false
+        })
+    );
+  };
+
+  afterAll(() => {
+    delete process.env.USAGE_PATH;
+    delete process.env.USAGE_DAILY_TOKEN_BUDGET;
+    delete process.env.USAGE_BUDGET_ACTION;
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  // Loading the app compiles most of the service, allow for a cold cache
+  const LOAD_TIMEOUT_MS = 30000;
+
+  describe('when rejecting', () => {
+    beforeAll(() => load('payment_required'), LOAD_TIMEOUT_MS);
+
+    it('should reject model-backed requests with 402 once the budget is used up', async () => {
+      const response = await request(app)
+        .post('/api/ai/sentiment')
+        .send({ text: 'Great product' })
+        .expect(402);
+
+      expect(response.body.error.code).toBe('BUDGET_EXCEEDED');
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('should still report usage and budget status', async () => {
+      const response = await request(app)
+        .get('/api/ai/usage')
+        .expect(200);
+
+      expect(response.body.data.totals).toMatchObject({ calls: 1, promptTokens: 90, completionTokens: 10 });
+      expect(response.body.data.budget).toMatchObject({ exceeded: true, action: 'payment_required' });
+    });
+
+    it.each(['yesterday', '2020-13-45', '2026-02-30'])(
+      'should return 400 for the date %s',
+      async (date) => {
+        const response = await request(app)
+          .get(`/api/ai/usage?from=${date}`)
+          .expect(400);
+
+        expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      }
+    );
+  });
+
+  describe('when falling back', () => {
+    beforeAll(() => load('fallback'), LOAD_TIMEOUT_MS);
+
+    it('should return keyword fallback results without calling the model', async () => {
+      const response = await request(app)
+        .post('/api/ai/sentiment')
+        .send({ text: 'Great product' })
+        .expect(200);
+
+      expect(response.headers['x-budget-exceeded']).toBe('fallback');
+      expect(response.body.data.isFallback).toBe(true);
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+  });
+});